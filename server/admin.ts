@@ -0,0 +1,314 @@
+import { db } from './db.js';
+import { Dataset } from './types.js';
+import { clearDataset, expireDataset, removeItem } from './store.js';
+
+// Statistics and maintenance operations over everything cached in cache.db
+
+// Groups of tables that can be purged together. Expiring keeps rows but marks them stale.
+export type CacheTarget = 'ai' | 'datasets' | 'snapshots' | 'history';
+export const CACHE_TARGETS: CacheTarget[] = ['ai', 'datasets', 'snapshots', 'history'];
+export const EXPIRABLE_TARGETS: CacheTarget[] = ['ai', 'datasets'];
+
+export interface CacheScope {
+  source?: string;
+  dataset?: Dataset;
+  // AI result kind (availability, eta or analysis)
+  kind?: string;
+  // Raw AI cache key prefix, e.g. "aks:analysis:"
+  prefix?: string;
+  itemId?: string;
+  failedOnly?: boolean;
+  // Only entries older than this many milliseconds
+  olderThan?: number;
+}
+
+export interface TableStats {
+  table: string;
+  rows: number;
+  // Pages used by the table and its indexes; null when SQLite was built without dbstat
+  sizeBytes: number | null;
+  oldest: string | null;
+  newest: string | null;
+  // Row counts per age bucket, for tables that record when rows were written
+  ages: Record<string, number> | null;
+}
+
+export interface AICacheGroup {
+  source: string;
+  kind: string | null;
+  promptVersion: string | null;
+  provider: string | null;
+  model: string | null;
+  rows: number;
+  failed: number;
+  empty: number;
+  // Answers that failed schema validation, whether or not the repair attempt fixed them
+  invalid: number;
+}
+
+export interface AIValidationError {
+  issueId: string | null;
+  kind: string | null;
+  promptVersion: string | null;
+  model: string | null;
+  // The repair attempt did not fix the answer either
+  failed: boolean;
+  error: string;
+  timestamp: string;
+}
+
+export interface CacheStats {
+  databaseBytes: number;
+  tables: TableStats[];
+  ai: {
+    rows: number;
+    failed: number;
+    // Successful calls where the model had no answer
+    empty: number;
+    groups: AICacheGroup[];
+    // Most recent schema validation failures, for debugging prompts
+    validationErrors: AIValidationError[];
+  };
+  datasets: Array<{ source: string; dataset: string; items: number; lastUpdated: string | null; expired: boolean }>;
+}
+
+// Column holding the write time (epoch ms) for tables that have one
+const TABLE_TIMESTAMPS: Record<string, string | null> = {
+  ai_timeline_cache: 'timestamp',
+  datasets: 'timestamp',
+  issues: null,
+  items: null,
+  comments: null,
+  labels: null,
+  assignees: null,
+  project_field_values: null,
+  linked_pull_requests: null,
+  reactions: null,
+  related_issues: null,
+  snapshots: 'timestamp',
+  snapshot_items: null,
+  status_transitions: 'observed_at',
+  eta_history: 'observed_at',
+  sync_progress: 'fetched_at',
+  refresh_jobs: 'started_at'
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const AGE_BUCKETS: Array<{ label: string; maxAge: number }> = [
+  { label: '< 1 hour', maxAge: HOUR_MS },
+  { label: '1-24 hours', maxAge: DAY_MS },
+  { label: '1-7 days', maxAge: 7 * DAY_MS },
+  { label: '7-30 days', maxAge: 30 * DAY_MS },
+  { label: '> 30 days', maxAge: Infinity }
+];
+
+function getTableSizes(): Map<string, number> | null {
+  try {
+    const rows = db.prepare(`
+      SELECT s.tbl_name AS name, SUM(d.pgsize) AS size
+      FROM dbstat d JOIN sqlite_schema s ON s.name = d.name
+      GROUP BY s.tbl_name
+    `).all() as Array<{ name: string; size: number }>;
+    return new Map(rows.map(row => [row.name, row.size]));
+  } catch {
+    return null;
+  }
+}
+
+function getTableStats(table: string, sizes: Map<string, number> | null, now: number): TableStats {
+  const { rows } = db.prepare(`SELECT COUNT(*) AS rows FROM ${table}`).get() as { rows: number };
+  const stats: TableStats = { table, rows, sizeBytes: sizes ? sizes.get(table) ?? 0 : null, oldest: null, newest: null, ages: null };
+
+  const column = TABLE_TIMESTAMPS[table];
+  if (!column || rows === 0) return stats;
+
+  const range = db.prepare(`SELECT MIN(${column}) AS oldest, MAX(${column}) AS newest FROM ${table}`)
+    .get() as { oldest: number; newest: number };
+  stats.oldest = new Date(range.oldest).toISOString();
+  stats.newest = new Date(range.newest).toISOString();
+
+  stats.ages = Object.fromEntries(AGE_BUCKETS.map(bucket => [bucket.label, 0]));
+  const timestamps = db.prepare(`SELECT ${column} AS value FROM ${table}`).pluck().all() as number[];
+  for (const timestamp of timestamps) {
+    const bucket = AGE_BUCKETS.find(b => now - timestamp < b.maxAge)!;
+    stats.ages[bucket.label]++;
+  }
+  return stats;
+}
+
+export function getCacheStats(): CacheStats {
+  const now = Date.now();
+  const sizes = getTableSizes();
+  const { size } = db.prepare('SELECT page_count * page_size AS size FROM pragma_page_count(), pragma_page_size()')
+    .get() as { size: number };
+
+  const totals = db.prepare(`
+    SELECT COUNT(*) AS rows, COALESCE(SUM(failed = 1), 0) AS failed, COALESCE(SUM(failed = 0 AND result IS NULL), 0) AS empty
+    FROM ai_timeline_cache
+  `).get() as { rows: number; failed: number; empty: number };
+
+  const groups = db.prepare(`
+    SELECT substr(cache_key, 1, instr(cache_key, ':') - 1) AS source, kind, prompt_version, provider, model,
+      COUNT(*) AS rows, SUM(failed = 1) AS failed, SUM(failed = 0 AND result IS NULL) AS empty,
+      SUM(validation_error IS NOT NULL) AS invalid
+    FROM ai_timeline_cache
+    GROUP BY 1, kind, prompt_version, provider, model
+    ORDER BY 1, kind
+  `).all() as Array<{ source: string; kind: string | null; prompt_version: string | null; provider: string | null; model: string | null; rows: number; failed: number; empty: number; invalid: number }>;
+
+  const validationErrors = db.prepare(`
+    SELECT issue_id, kind, prompt_version, model, failed, validation_error, timestamp FROM ai_timeline_cache
+    WHERE validation_error IS NOT NULL
+    ORDER BY timestamp DESC LIMIT 20
+  `).all() as Array<{ issue_id: string | null; kind: string | null; prompt_version: string | null; model: string | null; failed: number; validation_error: string; timestamp: number }>;
+
+  const datasets = db.prepare(`
+    SELECT d.source, d.dataset, d.timestamp, d.last_updated,
+      (SELECT COUNT(*) FROM items i WHERE i.source = d.source AND i.dataset = d.dataset) AS items
+    FROM datasets d ORDER BY d.source, d.dataset
+  `).all() as Array<{ source: string; dataset: string; timestamp: number; last_updated: string | null; items: number }>;
+
+  return {
+    databaseBytes: size,
+    tables: Object.keys(TABLE_TIMESTAMPS).map(table => getTableStats(table, sizes, now)),
+    ai: {
+      ...totals,
+      groups: groups.map(group => ({
+        source: group.source,
+        kind: group.kind,
+        promptVersion: group.prompt_version,
+        provider: group.provider,
+        model: group.model,
+        rows: group.rows,
+        failed: group.failed,
+        empty: group.empty,
+        invalid: group.invalid
+      })),
+      validationErrors: validationErrors.map(row => ({
+        issueId: row.issue_id,
+        kind: row.kind,
+        promptVersion: row.prompt_version,
+        model: row.model,
+        failed: row.failed === 1,
+        error: row.validation_error,
+        timestamp: new Date(row.timestamp).toISOString()
+      }))
+    },
+    datasets: datasets.map(dataset => ({
+      source: dataset.source,
+      dataset: dataset.dataset,
+      items: dataset.items,
+      lastUpdated: dataset.last_updated,
+      expired: dataset.timestamp === 0
+    }))
+  };
+}
+
+// WHERE clause for AI cache entries matching the scope
+function aiCacheFilter(scope: CacheScope): { where: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const keyPrefix = (prefix: string) => {
+    conditions.push('substr(cache_key, 1, ?) = ?');
+    params.push(prefix.length, prefix);
+  };
+
+  if (scope.source) keyPrefix(`${scope.source}:`);
+  if (scope.prefix) keyPrefix(scope.prefix);
+  if (scope.kind) {
+    conditions.push('kind = ?');
+    params.push(scope.kind);
+  }
+  if (scope.itemId) {
+    conditions.push('issue_id = ?');
+    params.push(scope.itemId);
+  }
+  if (scope.failedOnly) {
+    conditions.push('failed = 1');
+  }
+  if (scope.olderThan !== undefined) {
+    conditions.push('timestamp < ?');
+    params.push(Date.now() - scope.olderThan);
+  }
+  return { where: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+function matchingDatasets(scope: CacheScope): Array<{ source: string; dataset: Dataset }> {
+  return (db.prepare('SELECT source, dataset FROM datasets').all() as Array<{ source: string; dataset: Dataset }>)
+    .filter(row => (!scope.source || row.source === scope.source) && (!scope.dataset || row.dataset === scope.dataset));
+}
+
+// Delete matching rows and return how many were removed
+export function purgeCache(target: CacheTarget, scope: CacheScope): number {
+  switch (target) {
+    case 'ai': {
+      const { where, params } = aiCacheFilter(scope);
+      return db.prepare(`DELETE FROM ai_timeline_cache ${where}`).run(...params).changes;
+    }
+
+    case 'datasets':
+      return db.transaction(() => matchingDatasets(scope).reduce((removed, { source, dataset }) => {
+        if (!scope.itemId) return removed + clearDataset(source, dataset);
+        const exists = db.prepare('SELECT 1 FROM items WHERE source = ? AND dataset = ? AND issue_id = ?').get(source, dataset, scope.itemId);
+        if (!exists) return removed;
+        removeItem(source, dataset, scope.itemId);
+        return removed + 1;
+      }, 0))();
+
+    case 'snapshots': {
+      const conditions = ['1 = 1'];
+      const params: unknown[] = [];
+      if (scope.source) {
+        conditions.push('source = ?');
+        params.push(scope.source);
+      }
+      if (scope.dataset) {
+        conditions.push('dataset = ?');
+        params.push(scope.dataset);
+      }
+      if (scope.olderThan !== undefined) {
+        conditions.push('timestamp < ?');
+        params.push(Date.now() - scope.olderThan);
+      }
+      const ids = `SELECT id FROM snapshots WHERE ${conditions.join(' AND ')}`;
+      return db.transaction(() => {
+        db.prepare(`DELETE FROM snapshot_items WHERE snapshot_id IN (${ids})`).run(...params);
+        return db.prepare(`DELETE FROM snapshots WHERE id IN (${ids})`).run(...params).changes;
+      })();
+    }
+
+    case 'history': {
+      const conditions = ['1 = 1'];
+      const params: unknown[] = [];
+      if (scope.source) {
+        conditions.push('source = ?');
+        params.push(scope.source);
+      }
+      if (scope.itemId) {
+        conditions.push('issue_id = ?');
+        params.push(scope.itemId);
+      }
+      if (scope.olderThan !== undefined) {
+        conditions.push('observed_at < ?');
+        params.push(Date.now() - scope.olderThan);
+      }
+      return db.transaction(() =>
+        db.prepare(`DELETE FROM status_transitions WHERE ${conditions.join(' AND ')}`).run(...params).changes +
+        db.prepare(`DELETE FROM eta_history WHERE ${conditions.join(' AND ')}`).run(...params).changes
+      )();
+    }
+  }
+}
+
+// Mark matching rows stale so they are recomputed or refetched on next use
+export function expireCache(target: CacheTarget, scope: CacheScope): number {
+  if (target === 'ai') {
+    const { where, params } = aiCacheFilter(scope);
+    return db.prepare(`UPDATE ai_timeline_cache SET timestamp = 0 ${where}`).run(...params).changes;
+  }
+  if (target === 'datasets') {
+    return matchingDatasets(scope).reduce((expired, { source, dataset }) => expired + expireDataset(source, dataset), 0);
+  }
+  throw new Error(`${target} cannot be expired`);
+}
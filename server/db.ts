@@ -0,0 +1,10 @@
+import Database from 'better-sqlite3';
+import path from 'path';
+import { runMigrations } from './migrations.js';
+
+// DB_PATH points elsewhere, e.g. `:memory:` for tests
+const DB_PATH = process.env.DB_PATH || path.join(process.cwd(), 'cache.db');
+
+// Initialize SQLite database and bring its schema up to date
+export const db = new Database(DB_PATH);
+runMigrations(db);
@@ -0,0 +1,85 @@
+import { db } from './db.js';
+import { Dataset, Demand } from './types.js';
+
+// Demand ranking: how much people ask for an issue, from the reactions on it and its
+// comments, how many different people comment and how busy the discussion is lately.
+
+// Reactions that do not signal demand
+const IGNORED_REACTIONS = ['THUMBS_DOWN', 'CONFUSED'];
+
+// Each commenter and each recent comment per week weighs more than a single reaction;
+// reactions on comments count for half, as they often agree with a workaround rather
+// than with the ask itself
+const WEIGHTS = {
+  reaction: 1,
+  commentReaction: 0.5,
+  commenter: 2,
+  commentsPerWeek: 3
+};
+
+const VELOCITY_WEEKS = 4;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+function demandScore(demand: Omit<Demand, 'score'>): number {
+  const score = demand.reactions * WEIGHTS.reaction +
+    demand.commentReactions * WEIGHTS.commentReaction +
+    demand.uniqueCommenters * WEIGHTS.commenter +
+    demand.commentsPerWeek * WEIGHTS.commentsPerWeek;
+  return Math.round(score * 10) / 10;
+}
+
+// Demand of every item in a dataset, keyed by issue id
+export function getDemand(sourceId: string, dataset: Dataset, now: number = Date.now()): Map<string, Demand> {
+  const scope = 'source = ? AND issue_id IN (SELECT issue_id FROM items WHERE source = ? AND dataset = ?)';
+  const params = [sourceId, sourceId, dataset];
+
+  const reactionRows = db.prepare(`
+    SELECT issue_id, subject_id = issue_id AS on_issue, SUM(count) AS total FROM reactions
+    WHERE ${scope} AND content NOT IN (${IGNORED_REACTIONS.map(() => '?').join(', ')})
+    GROUP BY issue_id, on_issue
+  `).all(...params, ...IGNORED_REACTIONS) as Array<{ issue_id: string; on_issue: number; total: number }>;
+
+  const commentRows = db.prepare(`SELECT issue_id, author_login, created_at FROM comments WHERE ${scope}`)
+    .all(...params) as Array<{ issue_id: string; author_login: string | null; created_at: string }>;
+
+  const assigneeRows = db.prepare(`SELECT issue_id, login FROM assignees WHERE ${scope}`)
+    .all(...params) as Array<{ issue_id: string; login: string }>;
+  const assignees = new Set(assigneeRows.map(row => `${row.issue_id}:${row.login}`));
+
+  const demand = new Map<string, Omit<Demand, 'score'>>();
+  const itemIds = db.prepare('SELECT issue_id FROM items WHERE source = ? AND dataset = ?').pluck().all(sourceId, dataset) as string[];
+  for (const id of itemIds) {
+    demand.set(id, { reactions: 0, commentReactions: 0, uniqueCommenters: 0, commentsPerWeek: 0 });
+  }
+
+  for (const row of reactionRows) {
+    const entry = demand.get(row.issue_id);
+    if (!entry) continue;
+    if (row.on_issue) {
+      entry.reactions = row.total;
+    } else {
+      entry.commentReactions = row.total;
+    }
+  }
+
+  const commenters = new Map<string, Set<string>>();
+  const recentComments = new Map<string, number>();
+  const velocityStart = now - VELOCITY_WEEKS * WEEK_MS;
+  for (const row of commentRows) {
+    if (row.author_login && !assignees.has(`${row.issue_id}:${row.author_login}`)) {
+      if (!commenters.has(row.issue_id)) commenters.set(row.issue_id, new Set());
+      commenters.get(row.issue_id)!.add(row.author_login);
+    }
+    if (Date.parse(row.created_at) >= velocityStart) {
+      recentComments.set(row.issue_id, (recentComments.get(row.issue_id) || 0) + 1);
+    }
+  }
+
+  const result = new Map<string, Demand>();
+  for (const [id, entry] of demand) {
+    entry.uniqueCommenters = commenters.get(id)?.size || 0;
+    entry.commentsPerWeek = Math.round((recentComments.get(id) || 0) / VELOCITY_WEEKS * 10) / 10;
+    result.set(id, { score: demandScore(entry), ...entry });
+  }
+  return result;
+}
@@ -0,0 +1,188 @@
+import { db } from './db.js';
+import { EtaSlip } from './types.js';
+import { getEtaStage, normalizeEta } from './timelines.js';
+
+// ETA history for roadmap items. Comment ETAs and ETAs found in the issue body are tracked
+// separately: each refresh records either one when it differs from the last recorded ETA of
+// the same origin, and a slip is a later ETA replacing an earlier one of the same origin and
+// release stage.
+
+type EtaOrigin = 'comment' | 'body';
+
+interface EtaHistoryRow {
+  issue_id: string;
+  eta: string;
+  origin: EtaOrigin;
+  author: string | null;
+  comment_text: string | null;
+  url: string | null;
+  comment_at: string | null;
+  observed_at: number;
+  // When the issue was opened, for ETAs found in its body
+  opened_at: string | null;
+}
+
+export interface EtaHistoryEntry {
+  eta: string;
+  origin: EtaOrigin;
+  author: string | null;
+  commentText: string | null;
+  url: string | null;
+  commentAt: string | null;
+  observedAt: string;
+}
+
+export interface SlipReport extends EtaSlip {
+  id: string;
+  title: string;
+  itemUrl: string;
+  status: string | null;
+}
+
+// Latest date a recorded ETA can mean, or null for unrecognised timelines. Relative ones
+// ("next quarter") are resolved against when the comment or issue was written.
+function parseEtaEnd(row: EtaHistoryRow): number | null {
+  const range = normalizeEta(row.eta, row.comment_at ?? row.opened_at ?? row.observed_at);
+  return range ? Date.parse(range.end) : null;
+}
+
+// A move to a later date only counts as a slip when both ETAs refer to the same stage
+// (or either names none), so "Preview Q2" followed by "GA Q4" is not a slip.
+function isSlip(previous: EtaHistoryRow, next: EtaHistoryRow): boolean {
+  const previousStage = getEtaStage(previous.eta);
+  const nextStage = getEtaStage(next.eta);
+  if (previousStage && nextStage && previousStage !== nextStage) return false;
+
+  const previousEnd = parseEtaEnd(previous);
+  const nextEnd = parseEtaEnd(next);
+  return previousEnd !== null && nextEnd !== null && nextEnd > previousEnd;
+}
+
+// Compare each roadmap item's current comment and body ETAs with the last recorded ones of
+// the same origin; pass an issue id to check a single item. Runs inside the caller's transaction.
+export function recordEtaHistory(sourceId: string, timestamp: number, issueId?: string): void {
+  const rows = db.prepare(`
+    SELECT it.issue_id, it.extracted_eta, it.extracted_date,
+      (SELECT eta FROM eta_history h
+       WHERE h.source = it.source AND h.issue_id = it.issue_id AND h.origin = 'comment'
+       ORDER BY observed_at DESC, id DESC LIMIT 1) AS last_comment_eta,
+      (SELECT eta FROM eta_history h
+       WHERE h.source = it.source AND h.issue_id = it.issue_id AND h.origin = 'body'
+       ORDER BY observed_at DESC, id DESC LIMIT 1) AS last_body_eta
+    FROM items it
+    WHERE it.source = ? AND it.dataset = 'roadmap'
+      ${issueId ? 'AND it.issue_id = ?' : ''}
+  `).all(...(issueId ? [sourceId, issueId] : [sourceId])) as Array<{
+    issue_id: string;
+    extracted_eta: string | null;
+    extracted_date: string | null;
+    last_comment_eta: string | null;
+    last_body_eta: string | null;
+  }>;
+
+  const findCommentTime = db.prepare('SELECT created_at FROM comments WHERE source = ? AND issue_id = ? AND url = ?');
+  const insert = db.prepare(`
+    INSERT INTO eta_history (source, issue_id, eta, origin, author, comment_text, url, comment_at, observed_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  for (const row of rows) {
+    // A missing comment ETA (none given, or extraction failed) records nothing, so the body
+    // ETA never stands in for it
+    const commentEta = row.extracted_eta ? JSON.parse(row.extracted_eta) : null;
+    if (commentEta?.date && commentEta.date !== row.last_comment_eta) {
+      const comment = findCommentTime.get(sourceId, row.issue_id, commentEta.url) as { created_at: string } | undefined;
+      insert.run(
+        sourceId, row.issue_id, commentEta.date, 'comment', commentEta.author, commentEta.commentText,
+        commentEta.url, comment?.created_at || null, timestamp
+      );
+    }
+
+    const bodyEta = row.extracted_date && row.extracted_date !== 'OpenAI extraction failed' ? row.extracted_date : null;
+    if (bodyEta && bodyEta !== row.last_body_eta) {
+      insert.run(sourceId, row.issue_id, bodyEta, 'body', null, null, null, null, timestamp);
+    }
+  }
+}
+
+function loadEtaHistory(sourceId: string, issueId?: string): EtaHistoryRow[] {
+  return db.prepare(`
+    SELECT issue_id, eta, origin, author, comment_text, url, comment_at, observed_at,
+      (SELECT created_at FROM issues i WHERE i.source = h.source AND i.id = h.issue_id) AS opened_at
+    FROM eta_history h
+    WHERE source = ? ${issueId ? 'AND issue_id = ?' : ''}
+    ORDER BY issue_id, observed_at, id
+  `).all(...(issueId ? [sourceId, issueId] : [sourceId])) as EtaHistoryRow[];
+}
+
+// Recorded ETAs grouped by issue id, oldest first
+export function getEtaHistory(sourceId: string, issueId?: string): Map<string, EtaHistoryEntry[]> {
+  const history = new Map<string, EtaHistoryEntry[]>();
+  for (const row of loadEtaHistory(sourceId, issueId)) {
+    if (!history.has(row.issue_id)) history.set(row.issue_id, []);
+    history.get(row.issue_id)!.push({
+      eta: row.eta,
+      origin: row.origin,
+      author: row.author,
+      commentText: row.comment_text,
+      url: row.url,
+      commentAt: row.comment_at,
+      observedAt: new Date(row.observed_at).toISOString()
+    });
+  }
+  return history;
+}
+
+// Every slip per issue id, oldest first. Each new ETA is compared with the latest earlier
+// one of the same origin that names a date, so neither an unparseable ETA in between nor an
+// ETA from the other origin hides or fakes a slip.
+export function getSlips(sourceId: string): Map<string, EtaSlip[]> {
+  const slips = new Map<string, EtaSlip[]>();
+  let previous = new Map<EtaOrigin, EtaHistoryRow>();
+  let issueId: string | null = null;
+
+  for (const row of loadEtaHistory(sourceId)) {
+    if (row.issue_id !== issueId) {
+      previous = new Map();
+      issueId = row.issue_id;
+    }
+
+    const last = previous.get(row.origin);
+    if (last && isSlip(last, row)) {
+      if (!slips.has(row.issue_id)) slips.set(row.issue_id, []);
+      slips.get(row.issue_id)!.push({
+        from: last.eta,
+        to: row.eta,
+        // The comment's own date is when the slip was announced; fall back to when we noticed it
+        slippedAt: row.comment_at || new Date(row.observed_at).toISOString(),
+        author: row.author,
+        commentText: row.comment_text,
+        url: row.url
+      });
+    }
+    if (parseEtaEnd(row) !== null) previous.set(row.origin, row);
+  }
+  return slips;
+}
+
+// Slips announced at or after `since` for items still on the board, newest first
+export function getRecentSlips(sourceId: string, since: number): SlipReport[] {
+  const items = db.prepare(`
+    SELECT i.id, i.title, i.url, it.status FROM items it
+    JOIN issues i ON i.source = it.source AND i.id = it.issue_id
+    WHERE it.source = ? AND it.dataset = 'roadmap'
+  `).all(sourceId) as Array<{ id: string; title: string; url: string; status: string | null }>;
+  const itemsById = new Map(items.map(item => [item.id, item]));
+
+  const reports: SlipReport[] = [];
+  for (const [issueId, issueSlips] of getSlips(sourceId)) {
+    const item = itemsById.get(issueId);
+    if (!item) continue;
+    for (const slip of issueSlips) {
+      if (new Date(slip.slippedAt).getTime() >= since) {
+        reports.push({ ...slip, id: item.id, title: item.title, itemUrl: item.url, status: item.status });
+      }
+    }
+  }
+  return reports.sort((a, b) => b.slippedAt.localeCompare(a.slippedAt));
+}
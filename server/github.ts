@@ -0,0 +1,191 @@
+import { graphql } from '@octokit/graphql';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export type GraphqlClient = (query: string, variables?: Record<string, any>) => Promise<any>;
+
+// live: call GitHub; record: call GitHub and save every response as a fixture;
+// replay: answer from saved fixtures only, without network access or a token
+type GitHubMode = 'live' | 'record' | 'replay';
+
+interface GraphqlFixture {
+  query: string;
+  variables: Record<string, any>;
+  response: any;
+  recordedAt: string;
+}
+
+// Serialize with sorted keys so the same variables always produce the same fixture name
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Queries are template literals indented differently in different places, so collapse whitespace
+function normalizeQuery(query: string): string {
+  return query.replace(/\s+/g, ' ').trim();
+}
+
+function getFixturePath(fixturesDir: string, query: string, variables: Record<string, any>): string {
+  const hash = crypto
+    .createHash('sha256')
+    .update(normalizeQuery(query))
+    .update('\n')
+    .update(stableStringify(variables))
+    .digest('hex')
+    .substring(0, 16);
+
+  // Prefix with the operation's top-level field to make the directory easier to browse
+  const operation = normalizeQuery(query).match(/\{\s*(\w+)/)?.[1] || 'query';
+  return path.join(fixturesDir, `${operation}_${hash}.json`);
+}
+
+// Points of the hourly GraphQL budget left untouched before calls start being spread out
+const RATE_LIMIT_RESERVE = 500;
+const MAX_RETRIES = 4;
+// GitHub asks clients to wait at least a minute after a secondary rate limit without Retry-After
+const SECONDARY_LIMIT_WAIT_MS = 60 * 1000;
+
+interface RateLimitState {
+  remaining: number | null;
+  resetAt: number | null;
+  // Cost of the most recent query, used as the estimate for the next one
+  cost: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Ask for the budget alongside every query's own data
+function withRateLimitField(query: string): string {
+  if (/\brateLimit\b/.test(query)) return query;
+  return query.replace(/\}\s*$/, ' rateLimit { cost remaining resetAt } }');
+}
+
+// How long to wait before the next call: nothing while the budget is comfortable, the
+// remaining time spread over the calls left once it runs low, and until the reset when it is spent
+function getPacingDelay(state: RateLimitState, now: number): number {
+  if (state.remaining === null || state.resetAt === null || state.resetAt <= now) return 0;
+  if (state.remaining < state.cost) return state.resetAt - now;
+  if (state.remaining > RATE_LIMIT_RESERVE) return 0;
+  return Math.round((state.resetAt - now) / (state.remaining / Math.max(state.cost, 1)));
+}
+
+// Retry-After holds either seconds or an HTTP date; null when it is neither
+function parseRetryAfter(value: string): number | null {
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(seconds, 0) * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+// Delay before retrying a failed call, or null when the error should not be retried
+function getRetryDelay(error: any, attempt: number, state: RateLimitState): number | null {
+  const backoff = 1000 * 2 ** attempt + Math.round(Math.random() * 500);
+  const status: number | undefined = error?.status;
+  const headers: Record<string, string | undefined> = error?.response?.headers || {};
+
+  if (status !== undefined && status >= 500) return backoff;
+
+  if (status === 403 || status === 429) {
+    if (headers['retry-after']) return parseRetryAfter(headers['retry-after']) ?? Math.max(SECONDARY_LIMIT_WAIT_MS, backoff);
+    if (headers['x-ratelimit-remaining'] === '0' && headers['x-ratelimit-reset']) {
+      return Math.max(parseInt(headers['x-ratelimit-reset'], 10) * 1000 - Date.now(), 0) + 1000;
+    }
+    if (/secondary rate limit/i.test(error?.message || '')) return Math.max(SECONDARY_LIMIT_WAIT_MS, backoff);
+    return null;
+  }
+
+  // Primary limit exhausted mid-query comes back as a GraphQL error rather than an HTTP status
+  if (error?.errors?.some((e: any) => e.type === 'RATE_LIMITED')) {
+    return state.resetAt && state.resetAt > Date.now() ? state.resetAt - Date.now() + 1000 : SECONDARY_LIMIT_WAIT_MS;
+  }
+  return null;
+}
+
+// Pace calls against the budget GitHub reports and retry rate-limited and 5xx responses
+// with backoff. Only wraps calls that reach GitHub; the fixture layer sits outside it, so
+// fixtures are named and saved by the query as written, without the rateLimit field.
+function withRateLimit(transport: GraphqlClient): GraphqlClient {
+  const state: RateLimitState = { remaining: null, resetAt: null, cost: 1 };
+
+  return async (query, variables = {}) => {
+    const trackedQuery = withRateLimitField(query);
+
+    for (let attempt = 0; ; attempt++) {
+      const delay = getPacingDelay(state, Date.now());
+      if (delay > 0) {
+        console.log(`GitHub rate limit budget low (${state.remaining} points left), waiting ${Math.ceil(delay / 1000)}s`);
+        await sleep(delay);
+      }
+
+      try {
+        const { rateLimit, ...data } = await transport(trackedQuery, variables);
+        if (rateLimit) {
+          state.remaining = rateLimit.remaining;
+          state.resetAt = Date.parse(rateLimit.resetAt);
+          state.cost = rateLimit.cost;
+        }
+        return data;
+      } catch (error: any) {
+        const wait = getRetryDelay(error, attempt, state);
+        if (wait === null || attempt >= MAX_RETRIES) throw error;
+        console.warn(`GitHub request failed (${error?.status || 'rate limited'}: ${error?.message}), retrying in ${Math.ceil(wait / 1000)}s (attempt ${attempt + 1}/${MAX_RETRIES})`);
+        await sleep(wait);
+      }
+    }
+  };
+}
+
+export function createGraphqlClient(): GraphqlClient {
+  const mode = (process.env.GITHUB_MODE || 'live') as GitHubMode;
+  const fixturesDir = process.env.GITHUB_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'github');
+
+  if (!['live', 'record', 'replay'].includes(mode)) {
+    throw new Error(`Unknown GITHUB_MODE "${mode}" (expected live, record or replay)`);
+  }
+
+  const graphqlWithAuth = graphql.defaults({
+    headers: {
+      authorization: `token ${process.env.GITHUB_TOKEN}`,
+    },
+  });
+
+  const live = withRateLimit((query, variables = {}) => graphqlWithAuth(query, variables));
+  if (mode === 'live') {
+    return live;
+  }
+
+  console.log(`GitHub GraphQL ${mode} mode using fixtures in ${fixturesDir}`);
+
+  if (mode === 'replay') {
+    return async (query, variables = {}) => {
+      const fixturePath = getFixturePath(fixturesDir, query, variables);
+      if (!fs.existsSync(fixturePath)) {
+        throw new Error(`No recorded GitHub fixture for this query (expected ${fixturePath}); record it with GITHUB_MODE=record`);
+      }
+      const fixture: GraphqlFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+      return fixture.response;
+    };
+  }
+
+  fs.mkdirSync(fixturesDir, { recursive: true });
+  return async (query, variables = {}) => {
+    const response = await live(query, variables);
+    const fixture: GraphqlFixture = {
+      query: normalizeQuery(query),
+      variables,
+      response,
+      recordedAt: new Date().toISOString()
+    };
+    fs.writeFileSync(getFixturePath(fixturesDir, query, variables), JSON.stringify(fixture, null, 2));
+    return response;
+  };
+}
@@ -1,43 +1,56 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { graphql } from '@octokit/graphql';
-import OpenAI from 'openai';
-import Database from 'better-sqlite3';
 import path from 'path';
+import crypto from 'crypto';
+import { loadSources, DataSource } from './sources.js';
+import { createLlmProvider, IssueAnalysis } from './llm.js';
+import { PROMPT_VERSIONS, PromptKind } from './prompts.js';
+import { createGraphqlClient } from './github.js';
+import { PaginationResult, paginate } from './pagination.js';
+import { REFRESH_MINUTES, startScheduler } from './scheduler.js';
+import { JobTrigger, RefreshOutcome, cancelJob, getActiveJob, getJob, hasActiveJobs, listJobs, markInterruptedJobs, startJob, updateJobProgress, whenJobsIdle } from './jobs.js';
+import { db } from './db.js';
+import { AKSIssue, ChildIssue, Dataset, GitHubComment, ItemType, LinkedPullRequest, ProjectFieldValue, ReactionCounts, RelatedIssue, RoadmapItem } from './types.js';
+import {
+  ItemDetails,
+  ItemFilters,
+  deleteComment,
+  deleteLabel,
+  getComments,
+  getDatasetInfo,
+  getItemDatasets,
+  importLegacyBlobCaches,
+  loadAKSIssues,
+  loadRoadmapItems,
+  removeItem,
+  saveAKSIssues,
+  saveComment,
+  saveRoadmapItems,
+  updateLabel,
+  upsertAKSIssue,
+  upsertRoadmapItem
+} from './store.js';
+import { getChanges } from './snapshots.js';
+import { getStageStats, getStatusHistory } from './transitions.js';
+import { getRecentSlips } from './eta.js';
+import { getResolutionStats } from './resolution.js';
+import { WEBHOOK_EVENTS, toWebhookComment, toWebhookIssue, verifySignature } from './webhooks.js';
+import { CACHE_TARGETS, CacheScope, CacheTarget, EXPIRABLE_TARGETS, expireCache, getCacheStats, purgeCache } from './admin.js';
 
 dotenv.config();
 
-const DB_PATH = path.join(process.cwd(), 'cache.db');
 const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds for AI timeline cache
 const GITHUB_CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds for GitHub data
+const PARTIAL_CACHE_DURATION = 15 * 60 * 1000; // Retry incomplete refreshes after 15 minutes
 
-// Initialize SQLite database
-const db = new Database(DB_PATH);
+// Load configured data sources (project boards and repositories)
+const sources = loadSources();
+const defaultSource = sources[0];
 
-// Create tables if they don't exist
-db.exec(`
-  CREATE TABLE IF NOT EXISTS ai_timeline_cache (
-    cache_key TEXT PRIMARY KEY,
-    result TEXT,
-    timestamp INTEGER,
-    failed INTEGER DEFAULT 0
-  );
-  
-  CREATE TABLE IF NOT EXISTS github_cache (
-    id INTEGER PRIMARY KEY,
-    data TEXT,
-    timestamp INTEGER,
-    last_updated TEXT
-  );
-
-  CREATE TABLE IF NOT EXISTS aks_issues_cache (
-    id INTEGER PRIMARY KEY,
-    data TEXT,
-    timestamp INTEGER,
-    last_updated TEXT
-  );
-`);
+// Move data from the old per-source JSON blob tables into the normalized tables
+importLegacyBlobCaches(defaultSource.id);
+markInterruptedJobs();
 
 interface CacheEntry {
   result: string | null;
@@ -45,18 +58,6 @@ interface CacheEntry {
   failed?: boolean;
 }
 
-interface GitHubCache {
-  data: RoadmapItem[];
-  timestamp: number;
-  lastUpdated: string;
-}
-
-interface AKSIssuesCache {
-  data: AKSIssue[];
-  timestamp: number;
-  lastUpdated: string;
-}
-
 // SQLite cache functions
 function loadAICache(cacheKey: string): CacheEntry | null {
   const stmt = db.prepare('SELECT result, timestamp, failed FROM ai_timeline_cache WHERE cache_key = ?');
@@ -72,70 +73,48 @@ function loadAICache(cacheKey: string): CacheEntry | null {
   return null;
 }
 
-function saveAICache(cacheKey: string, result: string | null, failed: boolean = false): void {
-  const stmt = db.prepare(`
-    INSERT OR REPLACE INTO ai_timeline_cache (cache_key, result, timestamp, failed) 
-    VALUES (?, ?, ?, ?)
-  `);
-  stmt.run(cacheKey, result, Date.now(), failed ? 1 : 0);
-}
-
-function loadGitHubCache(): GitHubCache | null {
-  const stmt = db.prepare('SELECT data, timestamp, last_updated FROM github_cache WHERE id = 1');
-  const row = stmt.get() as { data: string; timestamp: number; last_updated: string } | undefined;
-  
-  if (row && (Date.now() - row.timestamp < GITHUB_CACHE_DURATION)) {
-    return {
-      data: JSON.parse(row.data),
-      timestamp: row.timestamp,
-      lastUpdated: row.last_updated
-    };
-  }
-  return null;
-}
-
-function saveGitHubCache(data: RoadmapItem[]): void {
-  const timestamp = Date.now();
-  const lastUpdated = new Date().toISOString();
-  
+// `validationErrors` holds the problems found in each model answer that failed schema validation
+function saveAICache(cacheKey: string, kind: PromptKind, issueId: string, result: string | null, failed: boolean = false, validationErrors: string[][] = []): void {
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO github_cache (id, data, timestamp, last_updated) 
-    VALUES (1, ?, ?, ?)
+    INSERT OR REPLACE INTO ai_timeline_cache (cache_key, result, timestamp, failed, kind, prompt_version, provider, model, issue_id, validation_error) 
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
-  stmt.run(JSON.stringify(data), timestamp, lastUpdated);
-  console.log('Saved GitHub data to SQLite cache');
+  const validationError = validationErrors.length > 0
+    ? validationErrors.map((errors, attempt) => `${attempt === 0 ? 'Answer' : 'Repair'}: ${errors.join('; ')}`).join('\n')
+    : null;
+  stmt.run(cacheKey, result, Date.now(), failed ? 1 : 0, kind, PROMPT_VERSIONS[kind], llm.name, llm.model, issueId, validationError);
 }
 
-function loadAKSIssuesCache(): AKSIssuesCache | null {
-  const stmt = db.prepare('SELECT data, timestamp, last_updated FROM aks_issues_cache WHERE id = 1');
-  const row = stmt.get() as { data: string; timestamp: number; last_updated: string } | undefined;
-  
-  if (row && (Date.now() - row.timestamp < GITHUB_CACHE_DURATION)) {
-    return {
-      data: JSON.parse(row.data),
-      timestamp: row.timestamp,
-      lastUpdated: row.last_updated
-    };
-  }
-  return null;
+// Whether a dataset was refreshed within its refresh schedule, or GITHUB_CACHE_DURATION when
+// scheduled refreshes are off for it
+function isDatasetFresh(sourceId: string, dataset: Dataset): boolean {
+  const info = getDatasetInfo(sourceId, dataset);
+  const maxAge = info?.partial ? PARTIAL_CACHE_DURATION : (REFRESH_MINUTES[dataset] * 60 * 1000 || GITHUB_CACHE_DURATION);
+  return !!info && Date.now() - info.timestamp < maxAge;
 }
 
-function saveAKSIssuesCache(data: AKSIssue[]): void {
-  const timestamp = Date.now();
-  const lastUpdated = new Date().toISOString();
-  
-  const stmt = db.prepare(`
-    INSERT OR REPLACE INTO aks_issues_cache (id, data, timestamp, last_updated) 
-    VALUES (1, ?, ?, ?)
-  `);
-  stmt.run(JSON.stringify(data), timestamp, lastUpdated);
-  console.log('Saved AKS issues data to SQLite cache');
+// Parse ?status=, ?state=, ?type=, ?label= and ?assignee= (comma separated) and
+// ?mergedPrOpen=true into SQL-side filters
+function parseItemFilters(req: express.Request): ItemFilters {
+  const list = (name: string) => (req.query[name] as string || '').split(',').map(value => value.trim()).filter(Boolean);
+  return {
+    statuses: list('status'),
+    states: list('state').map(state => state.toUpperCase()),
+    types: list('type').map(type => type.toUpperCase()),
+    mergedPrOpen: req.query.mergedPrOpen === 'true',
+    labels: list('label'),
+    assignees: list('assignee')
+  };
 }
 
-// Get cache key for an issue
-function getCacheKey(title: string, body: string): string {
-  // Use a simple hash of title + body length to create a unique key
-  return `${title.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 50)}_${body.length}`;
+// Cache key for one model call: a hash of the exact model input together with the prompt
+// version, provider and model, so any edit or prompt/model change gets a fresh answer
+function getAICacheKey(sourceId: string, kind: PromptKind, input: unknown): string {
+  const hash = crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ prompt: PROMPT_VERSIONS[kind], provider: llm.name, model: llm.model, input }))
+    .digest('hex');
+  return `${sourceId}:${kind}:${hash}`;
 }
 
 // Check if cache entry is still valid
@@ -147,121 +126,63 @@ const app = express();
 const port = process.env.PORT ? parseInt(process.env.PORT) : 3001;
 
 app.use(cors());
-app.use(express.json());
 
-// Serve static files from the dist/client directory (built React app)
-app.use(express.static(path.join(process.cwd(), 'dist', 'client')));
+// GitHub signs the exact request body, so this route reads it raw before express.json runs
+app.post('/api/webhooks/github', express.raw({ type: '*/*', limit: '25mb' }), (req, res) => {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    return res.status(503).json({ error: 'GITHUB_WEBHOOK_SECRET is not configured' });
+  }
 
-const graphqlWithAuth = graphql.defaults({
-  headers: {
-    authorization: `token ${process.env.GITHUB_TOKEN}`,
-  },
-});
+  const body: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  if (!verifySignature(secret, body, req.get('X-Hub-Signature-256'))) {
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
 
-// Initialize Azure OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.AZURE_OPENAI_API_KEY!,
-  baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}openai/deployments/${process.env.AZURE_OPENAI_DEPLOYMENT_NAME}`,
-  defaultQuery: { 'api-version': '2024-07-01-preview' },
-  defaultHeaders: {
-    'api-key': process.env.AZURE_OPENAI_API_KEY!,
-  },
+  const event = req.get('X-GitHub-Event') || '';
+  if (event === 'ping') {
+    return res.json({ ok: true });
+  }
+  if (!WEBHOOK_EVENTS.includes(event)) {
+    return res.status(202).json({ event, ignored: true });
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(body.toString('utf8'));
+  } catch {
+    return res.status(400).json({ error: 'Payload is not valid JSON' });
+  }
+
+  try {
+    const affected = handleWebhookEvent(event, payload);
+    if (hasActiveJobs()) {
+      reapplyAfterRefresh(event, payload);
+    }
+    console.log(`Webhook ${event}.${payload.action} (${req.get('X-GitHub-Delivery')}) touched ${affected} item(s)`);
+    res.status(202).json({ event, action: payload.action, affected });
+  } catch (error) {
+    console.error(`Error handling ${event} webhook:`, error);
+    res.status(500).json({ error: 'Failed to handle webhook' });
+  }
 });
 
-interface AKSIssue {
-  id: string;
-  title: string;
-  url: string;
-  body: string;
-  createdAt: string;
-  updatedAt: string;
-  labels: Array<{
-    name: string;
-    color: string;
-  }>;
-  assignees: Array<{
-    login: string;
-    name: string | null;
-    avatarUrl: string;
-  }>;
-  state: string;
-  comments: number;
-  commentsData?: {
-    totalCount: number;
-    pageInfo?: {
-      hasNextPage: boolean;
-      endCursor: string;
-    };
-    nodes: Array<{
-      id: string;
-      createdAt: string;
-      body: string;
-      author: {
-        login: string;
-        name: string | null;
-      };
-      url: string;
-    }>;
-  };
-  lastComment?: {
-    createdAt: string;
-    author: {
-      login: string;
-      name: string | null;
-    };
-  } | null;
-  needsResponse?: boolean;
-  aiSummary?: {
-    currentStatus: string;
-    nextSteps: string;
-    analysis: {
-      isKnownIssue: boolean;
-      isExpectedBehaviour: boolean;
-      shouldClose: boolean;
-    };
-  } | null;
-}
+app.use(express.json());
 
-interface RoadmapItem {
-  id: string;
-  title: string;
-  url: string;
-  body: string;
-  createdAt: string;
-  updatedAt: string;
-  lastEditedAt: string | null;
-  status: string;
-  labels: Array<{
-    name: string;
-    color: string;
-  }>;
-  assignees: Array<{
-    login: string;
-    name: string | null;
-    avatarUrl: string;
-  }>;
-  extractedDate: string | null;
-  extractedEta?: {
-    date: string;
-    author: string;
-    commentText: string;
-    url: string;
-  } | null;
-  lastComment?: {
-    createdAt: string;
-    author: {
-      login: string;
-      name: string | null;
-    };
-  } | null;
-  needsResponse?: boolean;
-}
+// Serve static files from the dist/client directory (built React app)
+app.use(express.static(path.join(process.cwd(), 'dist', 'client')));
+
+// GitHub GraphQL client (live, or recording/replaying fixtures depending on GITHUB_MODE)
+const graphqlWithAuth = createGraphqlClient();
+
+// Initialize the configured LLM provider (Azure OpenAI, OpenAI-compatible or rule-based)
+const llm = createLlmProvider();
 
 // Function to extract availability dates from issue body using AI with caching and retry
-async function extractAvailabilityDateWithAI(body: string, title: string): Promise<string | null> {
+async function extractAvailabilityDateWithAI(sourceId: string, issueId: string, body: string, title: string): Promise<string | null> {
   if (!body || body.trim().length === 0) return null;
   
-  const cacheKey = getCacheKey(title, body);
+  const cacheKey = getAICacheKey(sourceId, 'availability', { title, body });
   const cached = loadAICache(cacheKey);
   
   // Check cache first - if it's a valid success or recent failure (< 1 minute), use it
@@ -282,98 +203,49 @@ async function extractAvailabilityDateWithAI(body: string, title: string): Promi
   }
   
   try {
-    const prompt = `You are analyzing Azure AKS roadmap items to extract customer timeline information.
-
-Task: Extract any dates or timeframes when this feature will be available to customers from the issue body text below.
-
-Look for:
-- Specific dates (e.g., "March 2024", "Q2 2024")
-- Relative timeframes (e.g., "next quarter", "later this year")
-- Release stages with timing (e.g., "preview in Q1", "GA in summer")
-- Any customer-facing availability information
-
-Issue Title: ${title}
-
-Issue Body:
-${body}
-
-Instructions:
-- Only extract information about when the feature will be available to customers
-- Return the most specific timeline mentioned
-- If multiple timelines are mentioned, prefer the most recent/final availability date
-- Return "None" if no customer timeline is mentioned
-- Keep your response concise (max 50 characters)
-
-Timeline:`;
-
     console.log(`AI extraction for: ${title.substring(0, 50)}...`);
-    const response = await openai.chat.completions.create({
-      model: process.env.AZURE_OPENAI_DEPLOYMENT_NAME!,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a helpful assistant that extracts timeline information from technical roadmap documents. Be precise and concise.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 100,
-      temperature: 0.1
-    });
-
-    const result = response.choices[0]?.message?.content?.trim();
-    
-    const finalResult = (!result || result.toLowerCase() === 'none' || result.toLowerCase().includes('no timeline')) ? null : result;
+    const finalResult = await llm.extractAvailabilityDate({ title, body });
     
     // Save successful result to cache
-    saveAICache(cacheKey, finalResult, false);
+    saveAICache(cacheKey, 'availability', issueId, finalResult, false);
     
     return finalResult;
   } catch (error) {
     console.error('AI extraction failed:', error);
     
     // Mark as failed in cache for retry later
-    saveAICache(cacheKey, null, true);
+    saveAICache(cacheKey, 'availability', issueId, null, true);
     
     return 'OpenAI extraction failed';
   }
 }
 
-// Fallback function using simple pattern matching
-function extractAvailabilityDateFallback(body: string): string | null {
-  const datePatterns = [
-    /(?:available|released?|launching?|ga|general availability|preview).*?(?:in|by|on|during)\s*(q[1-4]\s*\d{4}|[a-z]+\s*\d{4}|\d{4})/gi,
-    /(?:q[1-4]\s*\d{4}|[a-z]+\s*\d{4}|\d{4}).*?(?:availability|release|launch|ga)/gi,
-    /target.*?(?:q[1-4]\s*\d{4}|[a-z]+\s*\d{4}|\d{4})/gi,
-    /planned.*?(?:q[1-4]\s*\d{4}|[a-z]+\s*\d{4}|\d{4})/gi
-  ];
+// Reaction counts per content, on issues, pull requests and comments
+const REACTION_GROUP_FIELDS = `
+                  reactionGroups {
+                    content
+                    reactors {
+                      totalCount
+                    }
+                  }
+`;
 
-  for (const pattern of datePatterns) {
-    const matches = body.match(pattern);
-    if (matches) {
-      return matches[0];
-    }
+function toReactionCounts(reactionGroups: any[] | undefined): ReactionCounts {
+  const counts: ReactionCounts = {};
+  for (const group of reactionGroups || []) {
+    if (group.reactors?.totalCount > 0) counts[group.content] = group.reactors.totalCount;
   }
+  return counts;
+}
 
-  return null;
+// A fetched comment node with its reaction groups turned into counts
+function withReactions(comment: any): GitHubComment {
+  const { reactionGroups, ...rest } = comment;
+  return { ...rest, reactions: toReactionCounts(reactionGroups) };
 }
 
-// Function to fetch all comments for an issue if it has more than 100
-async function fetchAllComments(issueId: string, initialComments: any[], hasNextPage: boolean, endCursor: string): Promise<any[]> {
-  if (!hasNextPage) return initialComments;
-  
-  let allComments = [...initialComments];
-  let cursor = endCursor;
-  let hasMore = hasNextPage;
-  
-  while (hasMore) {
-    try {
-      const query = `
-        query($issueId: ID!, $cursor: String) {
-          node(id: $issueId) {
-            ... on Issue {
+// A page of comments, on an issue or a pull request
+const COMMENT_PAGE_FIELDS = `
               comments(first: 100, after: $cursor) {
                 pageInfo {
                   hasNextPage
@@ -390,35 +262,49 @@ async function fetchAllComments(issueId: string, initialComments: any[], hasNext
                     }
                   }
                   url
+                  ${REACTION_GROUP_FIELDS}
                 }
               }
-            }
+`;
+
+// Fetch the rest of an issue's comments after the first page. A failed page throws: a
+// cut-off thread would otherwise be saved as the whole discussion.
+async function fetchAllComments(issueId: string, initialComments: any[], hasNextPage: boolean, endCursor: string): Promise<any[]> {
+  if (!hasNextPage) return initialComments;
+  
+  let allComments = [...initialComments];
+  let cursor = endCursor;
+  let hasMore = hasNextPage;
+  
+  while (hasMore) {
+    const query = `
+      query($issueId: ID!, $cursor: String) {
+        node(id: $issueId) {
+          ... on Issue {
+            ${COMMENT_PAGE_FIELDS}
+          }
+          ... on PullRequest {
+            ${COMMENT_PAGE_FIELDS}
           }
         }
-      `;
-      
-      const response: any = await graphqlWithAuth(query, { issueId, cursor });
-      const commentsData = response.node.comments;
-      
-      allComments.push(...commentsData.nodes);
-      hasMore = commentsData.pageInfo.hasNextPage;
-      cursor = commentsData.pageInfo.endCursor;
-      
-      console.log(`Fetched additional ${commentsData.nodes.length} comments for issue. Total: ${allComments.length}`);
-      
-      // Add small delay to avoid overwhelming GitHub API
-      await new Promise(resolve => setTimeout(resolve, 100));
-    } catch (error) {
-      console.error('Error fetching additional comments:', error);
-      break;
-    }
+      }
+    `;
+    
+    const response: any = await graphqlWithAuth(query, { issueId, cursor });
+    const commentsData = response.node.comments;
+    
+    allComments.push(...commentsData.nodes);
+    hasMore = commentsData.pageInfo.hasNextPage;
+    cursor = commentsData.pageInfo.endCursor;
+    
+    console.log(`Fetched additional ${commentsData.nodes.length} comments for issue. Total: ${allComments.length}`);
   }
   
   return allComments;
 }
 
 // Function to extract ETA from Microsoft assignees' comments using OpenAI
-async function extractEtaFromComments(comments: any[], assigneeLogins: string[], title: string): Promise<{
+async function extractEtaFromComments(sourceId: string, issueId: string, comments: any[], assigneeLogins: string[], title: string): Promise<{
   date: string;
   author: string;
   commentText: string;
@@ -436,9 +322,17 @@ async function extractEtaFromComments(comments: any[], assigneeLogins: string[],
   
   if (msComments.length === 0) return null;
   
-  // Create cache key using title + comment count + total length
-  const totalLength = msComments.reduce((sum, comment) => sum + comment.body.length, 0);
-  const cacheKey = `eta_${title.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 30)}_${msComments.length}_${totalLength}`;
+  // Pass all comments from Microsoft assignees, newest first
+  msComments.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const etaInput = {
+    title,
+    comments: msComments.map(comment => ({
+      author: comment.author.name || comment.author.login,
+      createdAt: comment.createdAt,
+      body: comment.body
+    }))
+  };
+  const cacheKey = getAICacheKey(sourceId, 'eta', etaInput);
   
   // Check cache first
   const cached = loadAICache(cacheKey);
@@ -463,107 +357,36 @@ async function extractEtaFromComments(comments: any[], assigneeLogins: string[],
     }
   }
   
+  const validationErrors: string[][] = [];
   try {
-    // Combine all comment bodies from Microsoft assignees
-    const combinedComments = msComments
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-      .map((comment, index) => `Comment ${index + 1} by ${comment.author.name || comment.author.login} (${comment.createdAt}):\n${comment.body}`)
-      .join('\n\n---\n\n');
-    
-    const prompt = `You are analyzing Azure AKS roadmap issue comments to extract the most recent ETA/timeline from Microsoft team members.
-
-Task: Find the LATEST/MOST RECENT estimated timeline or delivery date mentioned by Microsoft team members in these comments.
-
-Look for:
-- Specific dates (e.g., "March 2024", "Q2 2024", "by end of year")
-- Relative timeframes (e.g., "next quarter", "later this year", "in a few months")
-- Release stages with timing (e.g., "preview in Q1", "GA in summer")
-- Target dates, delivery estimates, expected timelines
-
-Issue Title: ${title}
-
-Microsoft Team Comments (newest first):
-${combinedComments}
-
-Instructions:
-- Only extract information about when the feature will be available to customers
-- Return the MOST RECENT timeline mentioned (prefer newer comments over older ones)
-- If multiple timelines are mentioned in the same comment, prefer the most specific one
-- Return "None" if no timeline is mentioned
-- Respond with ONLY a JSON object in this exact format:
-{"date": "extracted date or None", "text": "the specific sentence/phrase containing the date or None"}
-
-Examples:
-{"date": "Q2 2024", "text": "We're targeting Q2 2024 for general availability"}
-{"date": "None", "text": "None"}
-
-JSON Response:`;
-
-    console.log(`ETA extraction via OpenAI for: ${title.substring(0, 50)}... (${msComments.length} comments)`);
-    const response = await openai.chat.completions.create({
-      model: process.env.AZURE_OPENAI_DEPLOYMENT_NAME!,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a helpful assistant that extracts timeline information from technical discussions. Always respond with valid JSON only.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 200,
-      temperature: 0.1
-    });
-
-    const result = response.choices[0]?.message?.content?.trim();
+    console.log(`ETA extraction via ${llm.name} for: ${title.substring(0, 50)}... (${msComments.length} comments)`);
+    const parsed = await llm.extractEta(etaInput, { onInvalid: errors => validationErrors.push(errors) });
     
-    if (!result) {
-      saveAICache(cacheKey, null, false);
+    if (!parsed) {
+      saveAICache(cacheKey, 'eta', issueId, null, false, validationErrors);
       return null;
     }
     
-    try {
-      // Remove markdown code blocks if present
-      let cleanResult = result.trim();
-      if (cleanResult.startsWith('```json')) {
-        cleanResult = cleanResult.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (cleanResult.startsWith('```')) {
-        cleanResult = cleanResult.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      const parsed = JSON.parse(cleanResult);
-      
-      if (!parsed.date || parsed.date === 'None' || !parsed.text || parsed.text === 'None') {
-        saveAICache(cacheKey, null, false);
-        return null;
-      }
-      
-      // Find the comment that contains this text to get the author and URL
-      const sourceComment = msComments.find(comment => 
-        comment.body.toLowerCase().includes(parsed.text.toLowerCase()) ||
-        parsed.text.toLowerCase().includes(comment.body.substring(0, 100).toLowerCase())
-      );
-      
-      const finalResult = {
-        date: parsed.date,
-        author: sourceComment ? (sourceComment.author.name || sourceComment.author.login) : 'Microsoft Team',
-        commentText: parsed.text,
-        url: sourceComment ? sourceComment.url : msComments[0]?.url || '#'
-      };
-      
-      // Save successful result to cache
-      saveAICache(cacheKey, JSON.stringify(finalResult), false);
-      
-      return finalResult;
-    } catch (parseError) {
-      console.error('Failed to parse ETA extraction result:', parseError, 'Result:', result);
-      saveAICache(cacheKey, null, true);
-      return null;
-    }
+    // Find the comment that contains this text to get the author and URL
+    const sourceComment = msComments.find(comment => 
+      comment.body.toLowerCase().includes(parsed.text.toLowerCase()) ||
+      parsed.text.toLowerCase().includes(comment.body.substring(0, 100).toLowerCase())
+    );
+    
+    const finalResult = {
+      date: parsed.date,
+      author: sourceComment ? (sourceComment.author.name || sourceComment.author.login) : 'Microsoft Team',
+      commentText: parsed.text,
+      url: sourceComment ? sourceComment.url : msComments[0]?.url || '#'
+    };
+    
+    // Save successful result to cache
+    saveAICache(cacheKey, 'eta', issueId, JSON.stringify(finalResult), false, validationErrors);
+    
+    return finalResult;
   } catch (error) {
     console.error('ETA extraction failed:', error);
-    saveAICache(cacheKey, null, true);
+    saveAICache(cacheKey, 'eta', issueId, null, true, validationErrors);
     return null;
   }
 }
@@ -576,12 +399,13 @@ app.get('/api/progress', (req, res) => {
   res.setHeader('Access-Control-Allow-Origin', '*');
   
   const requestType = req.query.type as string || 'roadmap'; // 'roadmap' or 'aks'
-  const clientId = `${requestType}_${Date.now()}_${Math.random()}`;
+  const sourceId = req.query.source as string || defaultSource.id;
+  const clientId = `${requestType}_${sourceId}_${Date.now()}_${Math.random()}`;
   
-  // Store the response object with request type for progress updates
-  progressClients.set(clientId, { res, type: requestType });
+  // Store the response object with request type and source for progress updates
+  progressClients.set(clientId, { res, type: requestType, source: sourceId });
   
-  console.log(`New EventSource client connected for ${requestType}: ${clientId}`);
+  console.log(`New EventSource client connected for ${requestType} (${sourceId}): ${clientId}`);
   
   // Send initial connection confirmation
   try {
@@ -597,17 +421,62 @@ app.get('/api/progress', (req, res) => {
   });
 });
 
+// Item changes pushed to open pages, e.g. after a webhook delivery
+app.get('/api/updates', (req, res) => {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  const sourceId = req.query.source as string || defaultSource.id;
+  const clientId = `${sourceId}_${Date.now()}_${Math.random()}`;
+  updateClients.set(clientId, { res, source: sourceId });
+
+  req.on('close', () => {
+    updateClients.delete(clientId);
+  });
+});
+
+const updateClients = new Map<string, { res: any, source: string }>();
+
+// Send an item's current stored state (null when it was removed) to the source's open pages
+function notifyItemChange(sourceId: string, dataset: Dataset, issueId: string) {
+  const item = dataset === 'roadmap'
+    ? loadRoadmapItems(sourceId, { ids: [issueId] })[0]
+    : loadAKSIssues(sourceId, { ids: [issueId] })[0];
+  broadcastUpdate(sourceId, { dataset, id: issueId, item: item || null });
+}
+
+// Tell the source's open pages to reload a dataset after a refresh stored new data
+function notifyDatasetRefreshed(sourceId: string, dataset: Dataset) {
+  broadcastUpdate(sourceId, { dataset, refreshed: true });
+}
+
+function broadcastUpdate(sourceId: string, update: object) {
+  const data = JSON.stringify(update);
+  updateClients.forEach((client, clientId) => {
+    if (client.source !== sourceId) return;
+    try {
+      client.res.write(`data: ${data}\n\n`);
+    } catch (error) {
+      console.error(`Failed to send update to client ${clientId}:`, error);
+      updateClients.delete(clientId);
+    }
+  });
+}
+
 // Progress tracking
-const progressClients = new Map<string, { res: any, type: string }>();
+const progressClients = new Map<string, { res: any, type: string, source: string }>();
 
-function sendProgress(step: string, current: number, total: number, requestType: string = 'roadmap') {
+function sendProgress(step: string, current: number, total: number, requestType: string = 'roadmap', sourceId: string = defaultSource.id) {
   const data = JSON.stringify({ step, current, total });
-  console.log(`Sending progress for ${requestType}: ${step} (${current}/${total})`);
+  console.log(`Sending progress for ${requestType} (${sourceId}): ${step} (${current}/${total})`);
+  updateJobProgress(sourceId, requestType === 'aks' ? 'issues' : 'roadmap', step, current, total);
   
   let clientCount = 0;
-  // Only send to clients of the same request type
+  // Only send to clients of the same request type and source
   progressClients.forEach((client, clientId) => {
-    if (client.type === requestType) {
+    if (client.type === requestType && client.source === sourceId) {
       clientCount++;
       try {
         client.res.write(`data: ${data}\n\n`);
@@ -620,36 +489,53 @@ function sendProgress(step: string, current: number, total: number, requestType:
   
   console.log(`Progress sent to ${clientCount} ${requestType} clients`);
 }
+
+// Resolve the ?source= query parameter, replying with 404 for unknown sources
+function resolveSource(req: express.Request, res: express.Response): DataSource | null {
+  const sourceId = req.query.source as string || defaultSource.id;
+  const source = sources.find(s => s.id === sourceId);
+  if (!source) {
+    res.status(404).json({ error: `Unknown source: ${sourceId}` });
+    return null;
+  }
+  return source;
+}
+
+app.get('/api/sources', (req, res) => {
+  res.json(sources);
+});
+
 app.get('/api/cache-info', (req, res) => {
   try {
     const requestType = req.query.type as string || 'roadmap'; // 'roadmap' or 'aks'
+    const source = resolveSource(req, res);
+    if (!source) return;
     
-    if (requestType === 'aks') {
-      const aksCache = loadAKSIssuesCache();
-      if (aksCache) {
-        res.json({
-          lastUpdated: aksCache.lastUpdated,
-          isCached: true
-        });
-      } else {
-        res.json({
-          lastUpdated: null,
-          isCached: false
-        });
-      }
+    const dataset: Dataset = requestType === 'aks' ? 'issues' : 'roadmap';
+    const info = getDatasetInfo(source.id, dataset);
+    const job = getActiveJob(source.id, dataset);
+    const refreshing = !!job;
+    
+    if (info) {
+      res.json({
+        lastUpdated: info.lastUpdated,
+        isCached: true,
+        stale: !isDatasetFresh(source.id, dataset),
+        refreshing,
+        jobId: job?.id || null,
+        partial: info.partial,
+        pageLimit: info.pageLimit
+      });
     } else {
-      const githubCache = loadGitHubCache();
-      if (githubCache) {
-        res.json({
-          lastUpdated: githubCache.lastUpdated,
-          isCached: true
-        });
-      } else {
-        res.json({
-          lastUpdated: null,
-          isCached: false
-        });
-      }
+      res.json({
+        lastUpdated: null,
+        isCached: false,
+        stale: false,
+        refreshing,
+        jobId: job?.id || null,
+        partial: false,
+        pageLimit: null
+      });
     }
   } catch (error) {
     console.error('Error getting cache info:', error);
@@ -657,284 +543,989 @@ app.get('/api/cache-info', (req, res) => {
   }
 });
 
-app.get('/api/roadmap', async (req, res) => {
-  try {
-    const forceRefresh = req.query.refresh === 'true';
-    
-    // Check GitHub cache first (unless force refresh)
-    if (!forceRefresh) {
-      const cachedData = loadGitHubCache();
-      if (cachedData) {
-        console.log('Serving GitHub data from cache');
-        // Send progress update for cache hit to close any waiting EventSource connections
-        sendProgress('Loaded from cache', 100, 100, 'roadmap');
-        return res.json(cachedData.data);
-      }
-    }
-    
-    console.log(forceRefresh ? 'Force refresh requested, fetching fresh data...' : 'GitHub cache miss, fetching fresh data...');
-    
-    sendProgress('Fetching GitHub data', 0, 100, 'roadmap');
-    
-    let allItems: any[] = [];
-    let hasNextPage = true;
-    let cursor: string | null = null;
-
-    // Fetch all pages (with reasonable limit)
-    let pageCount = 0;
-    const MAX_PAGES = 50; // Prevent excessive data fetching
-    while (hasNextPage && pageCount < MAX_PAGES) {
-      pageCount++;
-      sendProgress(`Fetching GitHub data (page ${pageCount})`, pageCount * 10, 100, 'roadmap');
-      const query = `
-        query($cursor: String) {
-          organization(login: "Azure") {
-            projectV2(number: 685) {
-              id
-              title
-              items(first: 50, after: $cursor) {
-                pageInfo {
-                  hasNextPage
-                  endCursor
-                }
-                nodes {
-                  id
-                  content {
-                    ... on Issue {
-                      id
-                      title
-                      url
-                      body
-                      createdAt
-                      updatedAt
-                      lastEditedAt
-                      labels(first: 20) {
-                        nodes {
-                          name
-                          color
-                        }
-                      }
-                      assignees(first: 10) {
-                        nodes {
-                          login
-                          name
-                          avatarUrl
-                        }
-                      }
-                      comments(first: 5) {
-                        pageInfo {
-                          hasNextPage
-                          endCursor
-                        }
-                        nodes {
-                          id
-                          createdAt
-                          body
-                          author {
-                            login
-                            ... on User {
-                              name
-                            }
-                          }
-                          url
-                        }
-                      }
-                    }
-                  }
-                  fieldValues(first: 20) {
-                    nodes {
-                      ... on ProjectV2ItemFieldSingleSelectValue {
-                        name
-                        optionId
-                        field {
-                          ... on ProjectV2SingleSelectField {
-                            name
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-      `;
+// `since` may be an ISO date or epoch milliseconds; NaN when it is neither
+function parseSince(value: string | undefined, defaultDaysAgo: number): number {
+  if (!value) return Date.now() - defaultDaysAgo * 24 * 60 * 60 * 1000;
+  return /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+}
 
-      const response: any = await graphqlWithAuth(query, { cursor });
-      
-      if (!response?.organization?.projectV2) {
-        throw new Error('Failed to fetch project data from GitHub API');
+// Changes since `since`, one week ago by default
+function handleChanges(dataset: Dataset) {
+  return (req: express.Request, res: express.Response) => {
+    try {
+      const source = resolveSource(req, res);
+      if (!source) return;
+
+      const since = parseSince(req.query.since as string | undefined, 7);
+      if (isNaN(since)) {
+        return res.status(400).json({ error: `Invalid since value: ${req.query.since}` });
       }
-      
-      const projectData = response.organization.projectV2;
-      const items = projectData.items;
-      
-      allItems.push(...items.nodes);
-      hasNextPage = items.pageInfo.hasNextPage;
-      cursor = items.pageInfo.endCursor;
-    }
-    
-    console.log(`Total items fetched: ${allItems.length}`);
-    sendProgress('Processing items for AI extraction', 0, allItems.length, 'roadmap');
 
-    const validItems = allItems.filter((item: any) => item.content);
-    
-    console.log(`Processing ${validItems.length} valid items for AI extraction...`);
+      res.json(getChanges(source.id, dataset, since));
+    } catch (error) {
+      console.error('Error computing changes:', error);
+      res.status(500).json({ error: 'Failed to compute changes' });
+    }
+  };
+}
+
+app.get('/api/roadmap/changes', handleChanges('roadmap'));
+app.get('/api/aks-issues/changes', handleChanges('issues'));
+
+// Time-to-close and closure rate for issues, overall and per label and assignee.
+// The window runs from `since` (30 days ago by default) to `until` (now by default).
+app.get('/api/aks-issues/resolution-stats', (req, res) => {
+  try {
+    const source = resolveSource(req, res);
+    if (!source) return;
+
+    const since = parseSince(req.query.since as string | undefined, 30);
+    const until = parseSince(req.query.until as string | undefined, 0);
+    if (isNaN(since) || isNaN(until)) {
+      return res.status(400).json({ error: `Invalid window: ${req.query.since || ''}..${req.query.until || ''}` });
+    }
+
+    res.json(getResolutionStats(source.id, since, until));
+  } catch (error) {
+    console.error('Error computing resolution statistics:', error);
+    res.status(500).json({ error: 'Failed to compute resolution statistics' });
+  }
+});
+
+// Items with the highest demand score first (see demand.ts). Takes the same filters as the
+// dataset endpoints, with issues limited to open ones unless `state` is given, and returns
+// the first `limit` (20 by default, at most 100).
+function handleTopRequested(dataset: Dataset) {
+  return (req: express.Request, res: express.Response) => {
+    try {
+      const source = resolveSource(req, res);
+      if (!source) return;
+
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 20, 100);
+      const filters = parseItemFilters(req);
+      if (dataset === 'issues' && !filters.states?.length) {
+        filters.states = ['OPEN'];
+      }
+
+      const items: Array<RoadmapItem | AKSIssue> = dataset === 'roadmap' ? loadRoadmapItems(source.id, filters) : loadAKSIssues(source.id, filters);
+      res.json(items
+        .filter(item => item.demand)
+        .sort((a, b) => b.demand!.score - a.demand!.score)
+        .slice(0, Math.max(limit, 1))
+        .map(item => ({
+          id: item.id,
+          title: item.title,
+          url: item.url,
+          state: item.state,
+          status: 'status' in item ? item.status : undefined,
+          labels: item.labels,
+          reactions: item.reactions,
+          demand: item.demand
+        })));
+    } catch (error) {
+      console.error('Error ranking items by demand:', error);
+      res.status(500).json({ error: 'Failed to rank items by demand' });
+    }
+  };
+}
+
+app.get('/api/roadmap/top-requested', handleTopRequested('roadmap'));
+app.get('/api/aks-issues/top-requested', handleTopRequested('issues'));
+
+// Start a refresh job for `dataset` ('roadmap' or 'issues'), or join the one already
+// running for it. Parameters come from the JSON body or the query string.
+app.post('/api/jobs', (req, res) => {
+  try {
+    const params = { ...req.query, ...req.body };
+    const sourceId = params.source || defaultSource.id;
+    const source = sources.find(s => s.id === sourceId);
+    if (!source) {
+      return res.status(404).json({ error: `Unknown source: ${sourceId}` });
+    }
+    if (params.dataset !== 'roadmap' && params.dataset !== 'issues') {
+      return res.status(400).json({ error: `Unknown dataset: ${params.dataset} (expected roadmap or issues)` });
+    }
+
+    const full = params.full === true || params.full === 'true';
+    const { job, joined } = startRefreshJob(source, params.dataset, full, 'manual');
+    res.status(joined ? 200 : 202).json({ ...job, joined });
+  } catch (error) {
+    console.error('Error starting refresh job:', error);
+    res.status(500).json({ error: 'Failed to start refresh job' });
+  }
+});
+
+// Job history, most recent first
+app.get('/api/jobs', (req, res) => {
+  try {
+    const dataset = req.query.dataset as string | undefined;
+    if (dataset && dataset !== 'roadmap' && dataset !== 'issues') {
+      return res.status(400).json({ error: `Unknown dataset: ${dataset}` });
+    }
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 500);
+    res.json(listJobs({ sourceId: req.query.source as string | undefined, dataset: dataset as Dataset | undefined, limit }));
+  } catch (error) {
+    console.error('Error listing refresh jobs:', error);
+    res.status(500).json({ error: 'Failed to list refresh jobs' });
+  }
+});
+
+app.get('/api/jobs/:id', (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: `Unknown job: ${req.params.id}` });
+  }
+  res.json(job);
+});
+
+// Cancel a running job. It stops while paging or after the current batch; nothing from the cancelled
+// run is saved, but cached pages and AI results are reused by the next refresh.
+app.delete('/api/jobs/:id', (req, res) => {
+  const job = cancelJob(req.params.id);
+  if (job) {
+    console.log(`Cancelling refresh job ${job.id}`);
+    return res.status(202).json(job);
+  }
+  const finished = getJob(req.params.id);
+  if (!finished) {
+    return res.status(404).json({ error: `Unknown job: ${req.params.id}` });
+  }
+  res.status(409).json({ error: `Job ${finished.id} already ${finished.status}`, job: finished });
+});
+
+// Requests made on the server's own machine. The socket address is used rather than
+// X-Forwarded-For, which any client can set.
+function isLocalRequest(req: express.Request): boolean {
+  return ['127.0.0.1', '::1', '::ffff:127.0.0.1'].includes(req.socket.remoteAddress || '');
+}
+
+// Admin endpoints change or delete cached data, so require ADMIN_TOKEN when one is configured.
+// Without one, purging and expiring only work from the server's own machine.
+app.use('/api/admin', (req, res, next) => {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (adminToken) {
+    if (req.headers.authorization !== `Bearer ${adminToken}`) {
+      return res.status(401).json({ error: 'Admin token required' });
+    }
+  } else if (req.method !== 'GET' && !isLocalRequest(req)) {
+    return res.status(403).json({ error: 'Set ADMIN_TOKEN to change the cache from another machine' });
+  }
+  next();
+});
+
+app.get('/api/admin/cache/stats', (req, res) => {
+  try {
+    res.json(getCacheStats());
+  } catch (error) {
+    console.error('Error computing cache statistics:', error);
+    res.status(500).json({ error: 'Failed to compute cache statistics' });
+  }
+});
+
+// Parse the :target path parameter and the scope query parameters shared by purge and expire
+function parseCacheRequest(req: express.Request, res: express.Response): { target: CacheTarget; scope: CacheScope } | null {
+  const target = req.params.target as CacheTarget;
+  if (!CACHE_TARGETS.includes(target)) {
+    res.status(400).json({ error: `Unknown cache target: ${target} (expected ${CACHE_TARGETS.join(', ')})` });
+    return null;
+  }
+
+  const dataset = req.query.dataset as string | undefined;
+  if (dataset && dataset !== 'roadmap' && dataset !== 'issues') {
+    res.status(400).json({ error: `Unknown dataset: ${dataset}` });
+    return null;
+  }
+
+  const olderThanHours = req.query.olderThanHours ? parseFloat(req.query.olderThanHours as string) : undefined;
+  if (olderThanHours !== undefined && (isNaN(olderThanHours) || olderThanHours < 0)) {
+    res.status(400).json({ error: `Invalid olderThanHours value: ${req.query.olderThanHours}` });
+    return null;
+  }
+
+  return {
+    target,
+    scope: {
+      source: req.query.source as string | undefined,
+      dataset: dataset as Dataset | undefined,
+      kind: req.query.kind as string | undefined,
+      prefix: req.query.prefix as string | undefined,
+      itemId: req.query.item as string | undefined,
+      failedOnly: req.query.failed === 'true',
+      olderThan: olderThanHours !== undefined ? olderThanHours * 60 * 60 * 1000 : undefined
+    }
+  };
+}
+
+app.delete('/api/admin/cache/:target', (req, res) => {
+  try {
+    const request = parseCacheRequest(req, res);
+    if (!request) return;
+
+    const affected = purgeCache(request.target, request.scope);
+    console.log(`Purged ${affected} ${request.target} cache row(s)`, request.scope);
+    res.json({ target: request.target, action: 'purge', affected });
+  } catch (error) {
+    console.error('Error purging cache:', error);
+    res.status(500).json({ error: 'Failed to purge cache' });
+  }
+});
+
+app.post('/api/admin/cache/:target/expire', (req, res) => {
+  try {
+    const request = parseCacheRequest(req, res);
+    if (!request) return;
+    if (!EXPIRABLE_TARGETS.includes(request.target)) {
+      return res.status(400).json({ error: `Only ${EXPIRABLE_TARGETS.join(' and ')} can be expired` });
+    }
+
+    const affected = expireCache(request.target, request.scope);
+    console.log(`Expired ${affected} ${request.target} cache row(s)`, request.scope);
+    res.json({ target: request.target, action: 'expire', affected });
+  } catch (error) {
+    console.error('Error expiring cache:', error);
+    res.status(500).json({ error: 'Failed to expire cache' });
+  }
+});
+
+// Status transitions per roadmap item, optionally for a single item via `id`
+app.get('/api/roadmap/history', (req, res) => {
+  try {
+    const source = resolveSource(req, res);
+    if (!source) return;
+
+    const history = getStatusHistory(source.id, req.query.id as string | undefined);
+    res.json(Object.fromEntries(history));
+  } catch (error) {
+    console.error('Error loading status history:', error);
+    res.status(500).json({ error: 'Failed to load status history' });
+  }
+});
+
+app.get('/api/roadmap/stage-stats', (req, res) => {
+  try {
+    const source = resolveSource(req, res);
+    if (!source) return;
+
+    res.json(getStageStats(source.id));
+  } catch (error) {
+    console.error('Error computing stage statistics:', error);
+    res.status(500).json({ error: 'Failed to compute stage statistics' });
+  }
+});
+
+// ETA slips for items on the board, newest first; `since` defaults to 30 days ago
+app.get('/api/roadmap/slips', (req, res) => {
+  try {
+    const source = resolveSource(req, res);
+    if (!source) return;
+
+    const since = parseSince(req.query.since as string | undefined, 30);
+    if (isNaN(since)) {
+      return res.status(400).json({ error: `Invalid since value: ${req.query.since}` });
+    }
+
+    res.json(getRecentSlips(source.id, since));
+  } catch (error) {
+    console.error('Error listing ETA slips:', error);
+    res.status(500).json({ error: 'Failed to list ETA slips' });
+  }
+});
+
+// Pull requests linked to an issue: those that will close it when merged, and those that
+// mention it or were connected to it, most recent last
+const PULL_REQUEST_REF_FIELDS = `
+                      id
+                      number
+                      title
+                      url
+                      state
+                      mergedAt
+                      repository {
+                        nameWithOwner
+                      }
+`;
+
+const LINKED_PULL_REQUEST_FIELDS = `
+                      closedByPullRequestsReferences(first: 10, includeClosedPrs: true) {
+                        nodes {
+                          ${PULL_REQUEST_REF_FIELDS}
+                        }
+                      }
+                      timelineItems(last: 25, itemTypes: [CROSS_REFERENCED_EVENT, CONNECTED_EVENT]) {
+                        nodes {
+                          ... on CrossReferencedEvent {
+                            source {
+                              ... on PullRequest {
+                                ${PULL_REQUEST_REF_FIELDS}
+                              }
+                            }
+                          }
+                          ... on ConnectedEvent {
+                            subject {
+                              ... on PullRequest {
+                                ${PULL_REQUEST_REF_FIELDS}
+                              }
+                            }
+                          }
+                        }
+                      }
+`;
+
+// One entry per pull request from the fields above
+function toLinkedPullRequests(issue: any): LinkedPullRequest[] {
+  const closing = new Set<string>((issue.closedByPullRequestsReferences?.nodes || []).map((pr: any) => pr.id));
+  const candidates = [
+    ...(issue.closedByPullRequestsReferences?.nodes || []),
+    ...(issue.timelineItems?.nodes || []).map((event: any) => event.source || event.subject)
+  ];
+
+  const pullRequests = new Map<string, LinkedPullRequest>();
+  for (const pr of candidates) {
+    // Events whose other side is an issue come back as empty objects
+    if (!pr?.id || pullRequests.has(pr.id)) continue;
+    pullRequests.set(pr.id, {
+      id: pr.id,
+      number: pr.number,
+      title: pr.title,
+      url: pr.url,
+      state: pr.state,
+      mergedAt: pr.mergedAt || null,
+      repository: pr.repository?.nameWithOwner || '',
+      closesIssue: closing.has(pr.id)
+    });
+  }
+  return [...pullRequests.values()];
+}
+
+const RELATED_ISSUE_FIELDS = `
+                      id
+                      number
+                      title
+                      url
+                      state
+                      repository {
+                        nameWithOwner
+                      }
+                      assignees(first: 5) {
+                        nodes {
+                          login
+                          name
+                          avatarUrl
+                        }
+                      }
+`;
+
+// Parent, sub-issues and the issues tracked in the item's task lists
+const ISSUE_HIERARCHY_FIELDS = `
+                      parent {
+                        ${RELATED_ISSUE_FIELDS}
+                      }
+                      subIssues(first: 50) {
+                        nodes {
+                          ${RELATED_ISSUE_FIELDS}
+                        }
+                      }
+                      trackedIssues(first: 50) {
+                        nodes {
+                          ${RELATED_ISSUE_FIELDS}
+                        }
+                      }
+`;
+
+function toRelatedIssue(issue: any): RelatedIssue {
+  return {
+    id: issue.id,
+    number: issue.number,
+    title: issue.title,
+    url: issue.url,
+    state: issue.state,
+    repository: issue.repository?.nameWithOwner || '',
+    assignees: (issue.assignees?.nodes || []).map((assignee: any) => ({
+      login: assignee.login,
+      name: assignee.name || null,
+      avatarUrl: assignee.avatarUrl
+    }))
+  };
+}
+
+// Parent and children from the fields above; an issue that is both a sub-issue and in a
+// task list is listed once, as a sub-issue
+function toIssueHierarchy(issue: any): { parent: RelatedIssue | null; children: ChildIssue[] } {
+  const children = new Map<string, ChildIssue>();
+  for (const child of issue.subIssues?.nodes || []) {
+    if (child?.id) children.set(child.id, { ...toRelatedIssue(child), relation: 'SUB_ISSUE' });
+  }
+  for (const child of issue.trackedIssues?.nodes || []) {
+    if (child?.id && !children.has(child.id)) children.set(child.id, { ...toRelatedIssue(child), relation: 'TRACKED' });
+  }
+  return {
+    parent: issue.parent ? toRelatedIssue(issue.parent) : null,
+    children: [...children.values()]
+  };
+}
+
+// Content fields shared by issues and pull requests on the board
+const ISSUE_LIKE_FIELDS = `
+                      id
+                      title
+                      url
+                      body
+                      state
+                      createdAt
+                      updatedAt
+                      lastEditedAt
+                      ${REACTION_GROUP_FIELDS}
+                      labels(first: 20) {
+                        nodes {
+                          name
+                          color
+                        }
+                      }
+                      assignees(first: 10) {
+                        nodes {
+                          login
+                          name
+                          avatarUrl
+                        }
+                      }
+                      comments(first: 5) {
+                        pageInfo {
+                          hasNextPage
+                          endCursor
+                        }
+                        nodes {
+                          id
+                          createdAt
+                          body
+                          author {
+                            login
+                            ... on User {
+                              name
+                            }
+                          }
+                          url
+                          ${REACTION_GROUP_FIELDS}
+                        }
+                      }
+`;
+
+// Fields fetched for every project item, shared by the full and the incremental sync.
+// Draft issues only exist on the board: they have no URL, labels or comments.
+const PROJECT_ITEM_FIELDS = `
+                  id
+                  content {
+                    __typename
+                    ... on Issue {
+                      ${ISSUE_LIKE_FIELDS}
+                      ${LINKED_PULL_REQUEST_FIELDS}
+                      ${ISSUE_HIERARCHY_FIELDS}
+                    }
+                    ... on PullRequest {
+                      ${ISSUE_LIKE_FIELDS}
+                    }
+                    ... on DraftIssue {
+                      id
+                      title
+                      body
+                      createdAt
+                      updatedAt
+                      assignees(first: 10) {
+                        nodes {
+                          login
+                          name
+                          avatarUrl
+                        }
+                      }
+                    }
+                  }
+                  fieldValues(first: 50) {
+                    nodes {
+                      ... on ProjectV2ItemFieldSingleSelectValue {
+                        name
+                        optionId
+                        field {
+                          ... on ProjectV2FieldCommon {
+                            name
+                            dataType
+                          }
+                        }
+                      }
+                      ... on ProjectV2ItemFieldIterationValue {
+                        title
+                        startDate
+                        duration
+                        field {
+                          ... on ProjectV2FieldCommon {
+                            name
+                            dataType
+                          }
+                        }
+                      }
+                      ... on ProjectV2ItemFieldDateValue {
+                        date
+                        field {
+                          ... on ProjectV2FieldCommon {
+                            name
+                            dataType
+                          }
+                        }
+                      }
+                      ... on ProjectV2ItemFieldNumberValue {
+                        number
+                        field {
+                          ... on ProjectV2FieldCommon {
+                            name
+                            dataType
+                          }
+                        }
+                      }
+                      ... on ProjectV2ItemFieldTextValue {
+                        text
+                        field {
+                          ... on ProjectV2FieldCommon {
+                            name
+                            dataType
+                          }
+                        }
+                      }
+                    }
+                  }
+`;
+
+// Custom field values of a project item keyed by field name. The built-in Title field and
+// the label, assignee and other value types the query does not ask for are left out.
+function toProjectFields(fieldValues: any[]): Record<string, ProjectFieldValue> {
+  const fields: Record<string, ProjectFieldValue> = {};
+  for (const field of fieldValues) {
+    const name = field.field?.name;
+    switch (field.field?.dataType) {
+      case 'SINGLE_SELECT':
+        if (field.name) fields[name] = { type: 'SINGLE_SELECT', value: field.name };
+        break;
+      case 'ITERATION':
+        if (field.title) fields[name] = { type: 'ITERATION', value: field.title, startDate: field.startDate, duration: field.duration };
+        break;
+      case 'DATE':
+        if (field.date) fields[name] = { type: 'DATE', value: field.date };
+        break;
+      case 'NUMBER':
+        if (field.number !== null && field.number !== undefined) fields[name] = { type: 'NUMBER', value: field.number };
+        break;
+      case 'TEXT':
+        if (field.text) fields[name] = { type: 'TEXT', value: field.text };
+        break;
+    }
+  }
+  return fields;
+}
+
+// Fetch every item on the board with its full content
+async function fetchProjectItems(source: DataSource, signal?: AbortSignal): Promise<PaginationResult<any>> {
+  let totalPages: number | null = null;
+  const result = await paginate<any>(source.id, 'roadmap:items', async (cursor, page) => {
+    sendProgress(`Fetching GitHub data (page ${page}${totalPages ? `/${totalPages}` : ''})`, page, totalPages || page + 1, 'roadmap', source.id);
+    const query = `
+      query($org: String!, $projectNumber: Int!, $cursor: String) {
+        organization(login: $org) {
+          projectV2(number: $projectNumber) {
+            id
+            title
+            items(first: 50, after: $cursor) {
+              totalCount
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              nodes {
+                ${PROJECT_ITEM_FIELDS}
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const response: any = await graphqlWithAuth(query, { org: source.org, projectNumber: source.projectNumber, cursor });
     
-    const roadmapItems: RoadmapItem[] = [];
-    const CONCURRENCY_LIMIT = 8; // Process 8 items in parallel
+    if (!response?.organization?.projectV2) {
+      throw new Error('Failed to fetch project data from GitHub API');
+    }
     
-    // Process items in batches
-    for (let i = 0; i < validItems.length; i += CONCURRENCY_LIMIT) {
-      const batch = validItems.slice(i, i + CONCURRENCY_LIMIT);
-      const batchPromises = batch.map(async (item: any, batchIndex: number) => {
-        const globalIndex = i + batchIndex;
-        const issue = item.content;
-        
-        sendProgress(`Processing AI extraction (${globalIndex + 1}/${validItems.length})`, globalIndex + 1, validItems.length, 'roadmap');
-        
-        if (!issue || !issue.title) {
-          console.log(`Skipping item ${globalIndex + 1}/${validItems.length} with no title:`, JSON.stringify(item, null, 2));
-          return null;
+    const items = response.organization.projectV2.items;
+    totalPages = Math.ceil(items.totalCount / 50);
+    return items;
+  }, { signal });
+  
+  console.log(`Total items fetched: ${result.nodes.length}${result.pageLimit ? ` (stopped at ${result.pageLimit} pages)` : ''}`);
+  return result;
+}
+
+// Board membership in order, with when each item or its issue last changed. Much smaller
+// than the full fetch, so an incremental sync can find what changed and what left the board.
+async function fetchProjectItemIndex(source: DataSource, signal?: AbortSignal): Promise<PaginationResult<{ itemId: string; issueId: string; updatedAt: string }>> {
+  return paginate(source.id, 'roadmap:index', async (cursor, page) => {
+    sendProgress(`Checking board for changes (page ${page})`, Math.min(page * 5, 45), 100, 'roadmap', source.id);
+    const query = `
+      query($org: String!, $projectNumber: Int!, $cursor: String) {
+        organization(login: $org) {
+          projectV2(number: $projectNumber) {
+            items(first: 100, after: $cursor) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              nodes {
+                id
+                updatedAt
+                content {
+                  ... on Issue {
+                    id
+                    updatedAt
+                  }
+                  ... on PullRequest {
+                    id
+                    updatedAt
+                  }
+                  ... on DraftIssue {
+                    id
+                    updatedAt
+                  }
+                }
+              }
+            }
+          }
         }
-        
-        console.log(`Processing ${globalIndex + 1}/${validItems.length}: ${issue.title}`);
-        
-        // Find status field
-        const statusField = item.fieldValues.nodes.find(
-          (field: any) => field.field?.name === 'Status'
-        );
-        
-        // Use AI extraction with caching and retry system
-        const extractedDate = await extractAvailabilityDateWithAI(issue.body || '', issue.title);
-        
-        // If extraction failed, add to retry queue
-        if (extractedDate === 'OpenAI extraction failed') {
-          addToRetryQueue(issue.title, issue.body || '');
+      }
+    `;
+
+    const response: any = await graphqlWithAuth(query, { org: source.org, projectNumber: source.projectNumber, cursor });
+    const items = response?.organization?.projectV2?.items;
+    if (!items) {
+      throw new Error('Failed to fetch project data from GitHub API');
+    }
+
+    return {
+      // Field changes such as Status update the item; edits and comments update the issue
+      nodes: items.nodes
+        .filter((item: any) => item.content?.id)
+        .map((item: any) => ({
+          itemId: item.id,
+          issueId: item.content.id,
+          updatedAt: item.updatedAt > item.content.updatedAt ? item.updatedAt : item.content.updatedAt
+        })),
+      pageInfo: items.pageInfo
+    };
+  }, { signal });
+}
+
+// Fetch full content for specific project items, 50 per request
+async function fetchProjectItemsById(source: DataSource, itemIds: string[], signal?: AbortSignal): Promise<any[]> {
+  const items: any[] = [];
+  for (let i = 0; i < itemIds.length; i += 50) {
+    signal?.throwIfAborted();
+    const query = `
+      query($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on ProjectV2Item {
+            ${PROJECT_ITEM_FIELDS}
+          }
         }
-        
-        // Fetch all comments if there are more than 100
-        let allComments = issue.comments.nodes;
-        if (issue.comments.pageInfo.hasNextPage) {
-          console.log(`Issue ${issue.title} has more than 100 comments, fetching all...`);
+      }
+    `;
+    const response: any = await graphqlWithAuth(query, { ids: itemIds.slice(i, i + 50) });
+    items.push(...(response?.nodes || []).filter(Boolean));
+  }
+  return items;
+}
+
+// Board content types by GraphQL __typename
+const ITEM_TYPES: Record<string, ItemType> = {
+  Issue: 'ISSUE',
+  PullRequest: 'PULL_REQUEST',
+  DraftIssue: 'DRAFT_ISSUE'
+};
+
+// Run AI extraction on project items and turn them into roadmap items. `complete` is false
+// when an item had to be left out because its comments could not all be fetched.
+async function processProjectItems(source: DataSource, allItems: any[], signal?: AbortSignal): Promise<{ roadmapItems: RoadmapItem[]; itemDetails: Map<string, ItemDetails>; complete: boolean }> {
+  sendProgress('Processing items for AI extraction', 0, allItems.length, 'roadmap', source.id);
+
+  const validItems = allItems.filter((item: any) => item.content);
+  
+  console.log(`Processing ${validItems.length} valid items for AI extraction...`);
+  
+  const roadmapItems: RoadmapItem[] = [];
+  const itemDetails = new Map<string, ItemDetails>();
+  let complete = true;
+  const CONCURRENCY_LIMIT = 8; // Process 8 items in parallel
+  
+  // Process items in batches
+  for (let i = 0; i < validItems.length; i += CONCURRENCY_LIMIT) {
+    signal?.throwIfAborted();
+    const batch = validItems.slice(i, i + CONCURRENCY_LIMIT);
+    const batchPromises = batch.map(async (item: any, batchIndex: number) => {
+      const globalIndex = i + batchIndex;
+      const issue = item.content;
+      
+      sendProgress(`Processing AI extraction (${globalIndex + 1}/${validItems.length})`, globalIndex + 1, validItems.length, 'roadmap', source.id);
+      
+      if (!issue || !issue.title) {
+        console.log(`Skipping item ${globalIndex + 1}/${validItems.length} with no title:`, JSON.stringify(item, null, 2));
+        return null;
+      }
+      
+      console.log(`Processing ${globalIndex + 1}/${validItems.length}: ${issue.title}`);
+      
+      // Every custom field value, including Status
+      const fields = toProjectFields(item.fieldValues.nodes);
+      
+      // Use AI extraction with caching and retry system
+      const extractedDate = await extractAvailabilityDateWithAI(source.id, issue.id, issue.body || '', issue.title);
+      
+      // If extraction failed, add to retry queue
+      if (extractedDate === 'OpenAI extraction failed') {
+        addToRetryQueue(source.id, issue.id, issue.title, issue.body || '');
+      }
+      
+      // Fetch all comments if there are more than 100; draft issues have none
+      let allComments = issue.comments?.nodes || [];
+      if (issue.comments?.pageInfo.hasNextPage) {
+        console.log(`Issue ${issue.title} has more than 100 comments, fetching all...`);
+        try {
           allComments = await fetchAllComments(issue.id, issue.comments.nodes, issue.comments.pageInfo.hasNextPage, issue.comments.pageInfo.endCursor);
+        } catch (error) {
+          // Leave the stored copy in place and mark the refresh partial
+          console.error(`Error fetching all comments for ${issue.title}, skipping it:`, error);
+          complete = false;
+          return null;
         }
-        
-        // Extract ETA from Microsoft assignees' comments
-        const allAssigneeLogins = issue.assignees.nodes.map((assignee: any) => assignee.login);
-        const extractedEta = await extractEtaFromComments(allComments, allAssigneeLogins, issue.title);
-        
-        // Get last comment info (sort all comments by date)
-        const sortedComments = allComments
-          .filter((comment: any) => comment.author)
-          .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-        
-        const lastComment = sortedComments.length > 0 ? {
-          createdAt: sortedComments[0].createdAt,
-          author: {
-            login: sortedComments[0].author.login,
-            name: sortedComments[0].author.name || null
-          }
-        } : null;
-        
-        // Determine if needs response from team
-        const needsResponse = lastComment ? !allAssigneeLogins.includes(lastComment.author.login) : false;
-        
-        const roadmapItem: RoadmapItem = {
-          id: issue.id,
-          title: issue.title,
-          url: issue.url,
-          body: issue.body,
-          createdAt: issue.createdAt,
-          updatedAt: issue.updatedAt,
-          lastEditedAt: issue.lastEditedAt,
-          status: statusField?.name || 'Unknown',
-          labels: issue.labels.nodes.map((label: any) => ({
-            name: label.name,
-            color: label.color
-          })),
-          assignees: issue.assignees.nodes.map((assignee: any) => ({
-            login: assignee.login,
-            name: assignee.name,
-            avatarUrl: assignee.avatarUrl
-          })),
-          extractedDate,
-          extractedEta,
-          lastComment,
-          needsResponse
-        };
-        
-        return roadmapItem;
-      });
+      }
       
-      // Wait for all items in the batch to complete
-      const batchResults = await Promise.all(batchPromises);
+      // Extract ETA from Microsoft assignees' comments
+      const allAssigneeLogins = issue.assignees.nodes.map((assignee: any) => assignee.login);
+      const extractedEta = await extractEtaFromComments(source.id, issue.id, allComments, allAssigneeLogins, issue.title);
       
-      // Add valid results to roadmapItems
-      batchResults.forEach(item => {
-        if (item) roadmapItems.push(item);
-      });
+      // Get last comment info (sort all comments by date)
+      const sortedComments = allComments
+        .filter((comment: any) => comment.author)
+        .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
       
-      console.log(`Completed batch ${Math.floor(i / CONCURRENCY_LIMIT) + 1}/${Math.ceil(validItems.length / CONCURRENCY_LIMIT)}, processed ${roadmapItems.length}/${validItems.length} items`);
-    }
+      const lastComment = sortedComments.length > 0 ? {
+        createdAt: sortedComments[0].createdAt,
+        author: {
+          login: sortedComments[0].author.login,
+          name: sortedComments[0].author.name || null
+        }
+      } : null;
+      
+      // Determine if needs response from team
+      const needsResponse = lastComment ? !allAssigneeLogins.includes(lastComment.author.login) : false;
+      
+      // Keep comments and the field values for the normalized tables
+      itemDetails.set(issue.id, { comments: allComments.map(withReactions), fieldValues: fields });
+      
+      const roadmapItem: RoadmapItem = {
+        id: issue.id,
+        type: ITEM_TYPES[issue.__typename] || 'ISSUE',
+        title: issue.title,
+        url: issue.url || '',
+        body: issue.body,
+        createdAt: issue.createdAt,
+        updatedAt: issue.updatedAt,
+        lastEditedAt: issue.lastEditedAt || null,
+        state: issue.state || null,
+        status: fields.Status ? String(fields.Status.value) : 'Unknown',
+        labels: (issue.labels?.nodes || []).map((label: any) => ({
+          name: label.name,
+          color: label.color
+        })),
+        assignees: issue.assignees.nodes.map((assignee: any) => ({
+          login: assignee.login,
+          name: assignee.name,
+          avatarUrl: assignee.avatarUrl
+        })),
+        extractedDate,
+        extractedEta,
+        lastComment,
+        needsResponse,
+        fields,
+        linkedPullRequests: toLinkedPullRequests(issue),
+        reactions: toReactionCounts(issue.reactionGroups),
+        ...toIssueHierarchy(issue)
+      };
+      
+      return roadmapItem;
+    });
     
-    console.log(`Completed processing ${roadmapItems.length} items with AI extraction.`);
-    sendProgress('Saving to cache', roadmapItems.length, roadmapItems.length, 'roadmap');
+    // Wait for all items in the batch to complete
+    const batchResults = await Promise.all(batchPromises);
+    
+    // Add valid results to roadmapItems
+    batchResults.forEach(item => {
+      if (item) roadmapItems.push(item);
+    });
+    
+    console.log(`Completed batch ${Math.floor(i / CONCURRENCY_LIMIT) + 1}/${Math.ceil(validItems.length / CONCURRENCY_LIMIT)}, processed ${roadmapItems.length}/${validItems.length} items`);
+  }
+  
+  console.log(`Completed processing ${roadmapItems.length} items with AI extraction.`);
+  return { roadmapItems, itemDetails, complete };
+}
+
+// Result of a roadmap refresh, before it is saved
+interface RoadmapSync {
+  roadmapItems: RoadmapItem[];
+  itemDetails: Map<string, ItemDetails>;
+  complete: boolean;
+  pageLimit: number | null;
+  startedAt: string;
+}
+
+// Refetch only items that changed since the last sync and keep stored results for the rest.
+// Items that left the board are dropped because the index lists the current board.
+async function syncProjectItemsIncrementally(source: DataSource, syncedAt: string, signal?: AbortSignal): Promise<RoadmapSync> {
+  const { nodes: index, complete, pageLimit, startedAt } = await fetchProjectItemIndex(source, signal);
+  const stored = new Map(loadRoadmapItems(source.id).map(item => [item.id, item]));
+  const since = Date.parse(syncedAt);
+  const changed = index.filter(entry => Date.parse(entry.updatedAt) >= since || !stored.has(entry.issueId));
+  console.log(`Incremental sync for ${source.id}: ${changed.length} of ${index.length} items changed since ${syncedAt}`);
+
+  sendProgress(`Fetching ${changed.length} changed items`, 50, 100, 'roadmap', source.id);
+  const processed = await processProjectItems(source, await fetchProjectItemsById(source, changed.map(entry => entry.itemId), signal), signal);
+  const updated = new Map(processed.roadmapItems.map(item => [item.id, item]));
+
+  // Keep board order; unchanged items are rewritten from storage with their stored comments
+  const roadmapItems: RoadmapItem[] = [];
+  for (const { issueId } of index) {
+    const item = updated.get(issueId) || stored.get(issueId);
+    if (!item) continue;
+    roadmapItems.push(item);
+    if (!updated.has(issueId)) {
+      processed.itemDetails.set(issueId, { comments: getComments(source.id, issueId) });
+    }
+  }
+  return { roadmapItems, itemDetails: processed.itemDetails, complete: complete && processed.complete, pageLimit, startedAt };
+}
+
+// The earliest of several ISO timestamps
+function earliest(...timestamps: string[]): string {
+  return timestamps.reduce((min, timestamp) => Date.parse(timestamp) < Date.parse(min) ? timestamp : min);
+}
+
+// The body is the item list, so what is known about the data goes in response headers:
+// X-Data-Stale when it is due for a refresh, X-Refreshing while a job runs and X-Page-Limit
+// when GITHUB_MAX_PAGES cut the last refresh short
+function setDatasetHeaders(res: express.Response, sourceId: string, dataset: Dataset): void {
+  const pageLimit = getDatasetInfo(sourceId, dataset)?.pageLimit;
+  if (pageLimit) {
+    res.setHeader('X-Page-Limit', String(pageLimit));
+  }
+  res.setHeader('X-Data-Stale', String(!isDatasetFresh(sourceId, dataset)));
+  res.setHeader('X-Refreshing', String(!!getActiveJob(sourceId, dataset)));
+}
 
-    // Save the processed data to GitHub cache
-    saveGitHubCache(roadmapItems);
-    
-    sendProgress('Complete', roadmapItems.length, roadmapItems.length, 'roadmap');
+// Incremental unless a full refresh is asked for or the dataset has never been synced
+function getIncrementalSince(sourceId: string, dataset: Dataset, full: boolean): string | null {
+  if (full) return null;
+  return getDatasetInfo(sourceId, dataset)?.syncedAt || null;
+}
 
-    res.json(roadmapItems);
-  } catch (error) {
-    console.error('Error fetching roadmap:', error);
-    res.status(500).json({ error: 'Failed to fetch roadmap data' });
+// Start a refresh job for a dataset, or join the one already running. Open pages are told
+// when it stores new data.
+function startRefreshJob(source: DataSource, dataset: Dataset, full: boolean, trigger: JobTrigger) {
+  return startJob(source.id, dataset, { full, trigger }, async signal => {
+    const outcome = dataset === 'roadmap'
+      ? await refreshRoadmap(source, full, signal)
+      : await refreshAKSIssues(source, full, signal);
+    notifyDatasetRefreshed(source.id, dataset);
+    return outcome;
+  });
+}
+
+// Run a refresh job to the end; throws when it fails or is cancelled
+async function refreshDataset(source: DataSource, dataset: Dataset, full: boolean, trigger: JobTrigger): Promise<void> {
+  const job = await startRefreshJob(source, dataset, full, trigger).done;
+  if (job.status !== 'succeeded') {
+    throw new Error(`Refresh job ${job.id} ${job.status}: ${job.error}`);
   }
-});
+}
 
-// Background retry system for failed AI extractions
-async function retryFailedExtractions() {
-  const stmt = db.prepare(`
-    SELECT cache_key, result, timestamp 
-    FROM ai_timeline_cache 
-    WHERE failed = 1 AND timestamp <= ?
-  `);
+// Make sure a dataset request can be answered from storage. Only the first request for a
+// dataset, `refresh=true` and `full=true` wait for GitHub; stale data is served as it is
+// while a refresh runs in the background.
+async function serveOrRefresh(req: express.Request, source: DataSource, dataset: Dataset): Promise<void> {
+  const requestType = dataset === 'roadmap' ? 'roadmap' : 'aks';
+  const full = req.query.full === 'true';
+  if (full || req.query.refresh === 'true' || !getDatasetInfo(source.id, dataset)) {
+    await refreshDataset(source, dataset, full, 'request');
+    return;
+  }
+
+  if (!isDatasetFresh(source.id, dataset)) {
+    console.log(`Serving stale ${dataset} data for ${source.id} while it refreshes`);
+    startRefreshJob(source, dataset, false, 'request');
+  } else {
+    console.log(`Serving ${dataset} data for ${source.id} from cache`);
+  }
+  // Close any waiting progress EventSource connections
+  sendProgress('Loaded from cache', 100, 100, requestType, source.id);
+}
+
+// Fetch the roadmap from GitHub, run AI extraction and save it. Nothing is saved when
+// `signal` aborts the refresh.
+async function refreshRoadmap(source: DataSource, full: boolean, signal?: AbortSignal): Promise<RefreshOutcome> {
+  console.log(`Refreshing roadmap for ${source.id}${full ? ' (full)' : ''}...`);
   
-  const oneMinuteAgo = Date.now() - (60 * 1000);
-  const failedItems = stmt.all(oneMinuteAgo) as Array<{cache_key: string, result: string | null, timestamp: number}>;
+  sendProgress('Fetching GitHub data', 0, 100, 'roadmap', source.id);
   
-  if (failedItems.length > 0) {
-    console.log(`Found ${failedItems.length} failed AI extractions to retry...`);
-    
-    // Process one failed item at a time to avoid overwhelming the API
-    for (const item of failedItems.slice(0, 5)) { // Limit to 5 retries per minute
-      try {
-        console.log(`Background retry for cache key: ${item.cache_key.substring(0, 50)}...`);
-        
-        // Extract title and body from cache key (simple approach)
-        const parts = item.cache_key.split('_');
-        if (parts.length >= 2) {
-          const title = parts[0].replace(/_/g, ' ');
-          const body = ''; // We don't have the body in the key, but we can try anyway
-          await extractAvailabilityDateWithAI(body, title);
-        }
-        
-        await new Promise(resolve => setTimeout(resolve, 2000)); // 2 second delay between retries
-      } catch (error) {
-        console.error(`Background retry failed for ${item.cache_key}:`, error);
-      }
-    }
+  // Taken before fetching so changes made while the sync runs are picked up next time
+  const syncStartedAt = new Date().toISOString();
+  const incrementalSince = getIncrementalSince(source.id, 'roadmap', full);
+  let sync: RoadmapSync;
+  if (incrementalSince) {
+    sync = await syncProjectItemsIncrementally(source, incrementalSince, signal);
+  } else {
+    const { nodes, complete, pageLimit, startedAt } = await fetchProjectItems(source, signal);
+    const processed = await processProjectItems(source, nodes, signal);
+    sync = { ...processed, complete: complete && processed.complete, pageLimit, startedAt };
   }
+  signal?.throwIfAborted();
+  const { roadmapItems, itemDetails, complete, pageLimit } = sync;
+  
+  sendProgress('Saving to cache', roadmapItems.length, roadmapItems.length, 'roadmap', source.id);
+
+  // Save the processed data to the normalized tables. A resumed fetch started earlier
+  // than this refresh, so its start is the sync point.
+  saveRoadmapItems(source.id, roadmapItems, itemDetails, {
+    syncedAt: earliest(syncStartedAt, sync.startedAt),
+    partial: !complete,
+    pageLimit
+  });
+  
+  sendProgress('Complete', roadmapItems.length, roadmapItems.length, 'roadmap', source.id);
+  return { items: roadmapItems.length, partial: !complete };
 }
 
-// Store failed items for background retry (better approach)
-let failedExtractionQueue: Array<{title: string, body: string}> = [];
+app.get('/api/roadmap', async (req, res) => {
+  const source = resolveSource(req, res);
+  if (!source) return;
+  
+  try {
+    await serveOrRefresh(req, source, 'roadmap');
+    setDatasetHeaders(res, source.id, 'roadmap');
+    res.json(loadRoadmapItems(source.id, parseItemFilters(req)));
+  } catch (error) {
+    console.error('Error fetching roadmap:', error);
+    res.status(500).json({ error: 'Failed to fetch roadmap data' });
+  }
+});
+
+// Store failed items for background retry
+let failedExtractionQueue: Array<{sourceId: string, issueId: string, title: string, body: string}> = [];
 
 // Modified function to add items to retry queue
-function addToRetryQueue(title: string, body: string) {
-  failedExtractionQueue.push({title, body});
+function addToRetryQueue(sourceId: string, issueId: string, title: string, body: string) {
+  failedExtractionQueue.push({sourceId, issueId, title, body});
 }
 
 // Background retry worker
@@ -949,7 +1540,7 @@ async function processRetryQueue() {
   for (const item of itemsToProcess) {
     try {
       console.log(`Background retry for: ${item.title.substring(0, 50)}...`);
-      const result = await extractAvailabilityDateWithAI(item.body, item.title);
+      const result = await extractAvailabilityDateWithAI(item.sourceId, item.issueId, item.body, item.title);
       
       if (result === 'OpenAI extraction failed') {
         // Add back to queue for another retry
@@ -969,18 +1560,21 @@ async function processRetryQueue() {
 }
 
 // Function to analyze issue with AI for summary and classification
-async function analyzeIssueWithAI(title: string, body: string, comments: any[]): Promise<{
-  currentStatus: string;
-  nextSteps: string;
-  analysis: {
-    isKnownIssue: boolean;
-    isExpectedBehaviour: boolean;
-    shouldClose: boolean;
-  };
-} | null> {
+async function analyzeIssueWithAI(sourceId: string, issueId: string, title: string, body: string, comments: any[]): Promise<IssueAnalysis | null> {
   if (!body || body.trim().length === 0) return null;
   
-  const cacheKey = `analysis_${title.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 30)}_${body.length}_${comments.length}`;
+  // Limit to recent comments to avoid token limit
+  const recentComments = comments
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(0, 10)
+    .map(comment => ({
+      author: comment.author?.login || 'Unknown',
+      createdAt: comment.createdAt,
+      body: comment.body
+    }));
+  const analysisInput = { title, body, comments: recentComments };
+
+  const cacheKey = getAICacheKey(sourceId, 'analysis', analysisInput);
   const cached = loadAICache(cacheKey);
   
   if (cached && isCacheValid(cached)) {
@@ -1004,116 +1598,58 @@ async function analyzeIssueWithAI(title: string, body: string, comments: any[]):
     }
   }
   
+  const validationErrors: string[][] = [];
   try {
-    // Prepare comments text (limit to recent comments to avoid token limit)
-    const recentComments = comments
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-      .slice(0, 10)
-      .map((comment, index) => `Comment ${index + 1} by ${comment.author?.login || 'Unknown'} (${comment.createdAt}):\n${comment.body}`)
-      .join('\n\n---\n\n');
-
-    const prompt = `You are analyzing Azure AKS GitHub issues to provide helpful insights. Please analyze this issue and provide:
-
-1. Current Status: A brief 1-paragraph summary of what's happening with this issue
-2. Next Steps: A brief 1-paragraph summary of what should happen next
-3. Analysis: Three true/false determinations:
-   - Is this a known issue? (true if it's a commonly reported problem or duplicate)
-   - Is this expected behaviour? (true if this is working as designed, not a bug)
-   - Should we close this issue? (true if it appears resolved, duplicate, or not actionable)
-
-Issue Title: ${title}
-
-Issue Body:
-${body}
-
-Recent Comments:
-${recentComments}
-
-Please respond with ONLY a JSON object in this exact format:
-{
-  "currentStatus": "Brief paragraph about current status",
-  "nextSteps": "Brief paragraph about next steps",
-  "analysis": {
-    "isKnownIssue": false,
-    "isExpectedBehaviour": false,
-    "shouldClose": false
-  }
-}`;
-
     console.log(`AI analysis for: ${title.substring(0, 50)}...`);
-    const response = await openai.chat.completions.create({
-      model: process.env.AZURE_OPENAI_DEPLOYMENT_NAME!,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a helpful assistant that analyzes GitHub issues. Always respond with valid JSON only.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 500,
-      temperature: 0.1
-    });
-
-    const result = response.choices[0]?.message?.content?.trim();
+    const parsed = await llm.analyzeIssue(analysisInput, { onInvalid: errors => validationErrors.push(errors) });
     
-    if (!result) {
-      saveAICache(cacheKey, null, false);
-      return null;
-    }
+    // Save result to cache (null when the model gave no answer)
+    saveAICache(cacheKey, 'analysis', issueId, parsed ? JSON.stringify(parsed) : null, false, validationErrors);
     
-    try {
-      // Remove markdown code blocks if present
-      let cleanResult = result.trim();
-      if (cleanResult.startsWith('```json')) {
-        cleanResult = cleanResult.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (cleanResult.startsWith('```')) {
-        cleanResult = cleanResult.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      const parsed = JSON.parse(cleanResult);
-      
-      if (!parsed.currentStatus || !parsed.nextSteps || !parsed.analysis) {
-        saveAICache(cacheKey, null, false);
-        return null;
-      }
-      
-      // Save successful result to cache
-      saveAICache(cacheKey, JSON.stringify(parsed), false);
-      
-      return parsed;
-    } catch (parseError) {
-      console.error('Failed to parse analysis result:', parseError, 'Result:', result);
-      saveAICache(cacheKey, null, true);
-      return null;
-    }
+    return parsed;
   } catch (error) {
     console.error('Issue analysis failed:', error);
-    saveAICache(cacheKey, null, true);
+    saveAICache(cacheKey, 'analysis', issueId, null, true, validationErrors);
     return null;
   }
 }
 
-// Function to fetch all open issues from Azure/AKS repository
-async function fetchAKSOpenIssues(): Promise<AKSIssue[]> {
-  const issues: AKSIssue[] = [];
-  let hasNextPage = true;
-  let cursor: string | null = null;
-  let pageCount = 0;
-  const MAX_PAGES = 20; // Limit to first ~1000 issues
-
-  while (hasNextPage && pageCount < MAX_PAGES) {
-    pageCount++;
-    const progressPercent = Math.round(5 + (pageCount / MAX_PAGES) * 15); // 5% to 20%
-    sendProgress(`Fetching AKS issues (page ${pageCount}/${MAX_PAGES})`, progressPercent, 100, 'aks');
-    console.log(`Fetching AKS issues page ${pageCount}...`);
+// Closed issues are fetched when they were updated (which includes being closed) in this window
+const CLOSED_ISSUES_DAYS = parseInt(process.env.CLOSED_ISSUES_DAYS || '90', 10);
+
+// Starts at midnight UTC so an interrupted fetch of the window can be resumed the same day
+function getClosedWindowStart(): number {
+  return new Date(Date.now() - CLOSED_ISSUES_DAYS * 24 * 60 * 60 * 1000).setUTCHours(0, 0, 0, 0);
+}
+
+// The issues dataset holds open issues and those closed within the CLOSED_ISSUES_DAYS window,
+// whether they arrive through a refresh or a webhook delivery
+function isWithinClosedWindow(issue: { state?: string | null; closedAt?: string | null }, windowStart = getClosedWindowStart()): boolean {
+  return issue.state !== 'CLOSED' || (!!issue.closedAt && Date.parse(issue.closedAt) >= windowStart);
+}
+
+// Function to fetch open or closed issues from the source's repository, optionally only
+// those updated since an ISO timestamp. With allowPartial, a failed page ends the fetch
+// with what was collected so far and `complete` false; incremental syncs pass false so
+// they never skip changes.
+async function fetchAKSIssues(source: DataSource, state: 'OPEN' | 'CLOSED', since?: string, allowPartial = true, signal?: AbortSignal): Promise<PaginationResult<AKSIssue>> {
+  const label = state === 'OPEN' ? 'open' : 'closed';
+  // Open issues report progress from 5% to 15%, closed ones from 15% to 20%
+  const [progressStart, progressSpan] = state === 'OPEN' ? [5, 10] : [15, 5];
+  let totalPages: number | null = null;
+
+  const result = await paginate<AKSIssue>(source.id, `issues:${label}:${since || 'all'}`, async (cursor, page) => {
+    const progressPercent = Math.round(progressStart + (totalPages ? Math.min(page / totalPages, 1) : 0) * progressSpan);
+    sendProgress(`Fetching ${label} AKS issues (page ${page}${totalPages ? `/${totalPages}` : ''})`, progressPercent, 100, 'aks', source.id);
+    console.log(`Fetching ${label} AKS issues page ${page}...`);
     
+    // With `since`, only issues updated since then, most recently updated first.
+    // Closed issues come with their latest comments rather than their first ones.
     const query = `
-      query($cursor: String) {
-        repository(owner: "Azure", name: "AKS") {
-          issues(first: 50, after: $cursor, states: OPEN) {
+      query($owner: String!, $name: String!, $cursor: String${since ? ', $since: DateTime' : ''}) {
+        repository(owner: $owner, name: $name) {
+          issues(first: 50, after: $cursor, states: ${state}${since ? ', orderBy: {field: UPDATED_AT, direction: DESC}, filterBy: {since: $since}' : ''}) {
+            totalCount
             pageInfo {
               hasNextPage
               endCursor
@@ -1126,6 +1662,10 @@ async function fetchAKSOpenIssues(): Promise<AKSIssue[]> {
               createdAt
               updatedAt
               state
+              closedAt
+              stateReason
+              ${LINKED_PULL_REQUEST_FIELDS}
+              ${REACTION_GROUP_FIELDS}
               labels(first: 20) {
                 nodes {
                   name
@@ -1139,7 +1679,7 @@ async function fetchAKSOpenIssues(): Promise<AKSIssue[]> {
                   avatarUrl
                 }
               }
-              comments(first: 10) {
+              comments(${state === 'OPEN' ? 'first' : 'last'}: 10) {
                 totalCount
                 pageInfo {
                   hasNextPage
@@ -1156,6 +1696,7 @@ async function fetchAKSOpenIssues(): Promise<AKSIssue[]> {
                     }
                   }
                   url
+                  ${REACTION_GROUP_FIELDS}
                 }
               }
             }
@@ -1164,243 +1705,591 @@ async function fetchAKSOpenIssues(): Promise<AKSIssue[]> {
       }
     `;
 
-    try {
-      const response: any = await graphqlWithAuth(query, { cursor });
-      
-      if (!response?.repository?.issues) {
-        throw new Error('Failed to fetch issues from Azure/AKS repository');
-      }
-      
-      const issuesData = response.repository.issues;
-      const fetchedIssues = issuesData.nodes.map((issue: any) => ({
-        id: issue.id,
-        title: issue.title,
-        url: issue.url,
-        body: issue.body || '',
-        createdAt: issue.createdAt,
-        updatedAt: issue.updatedAt,
-        state: issue.state,
-        labels: issue.labels.nodes.map((label: any) => ({
-          name: label.name,
-          color: label.color
-        })),
-        assignees: issue.assignees.nodes.map((assignee: any) => ({
-          login: assignee.login,
-          name: assignee.name,
-          avatarUrl: assignee.avatarUrl
-        })),
-        comments: issue.comments.totalCount,
-        commentsData: issue.comments, // Preserve the full comments structure for processing
-        aiSummary: null // Will be populated by AI analysis
-      }));
-      
-      issues.push(...fetchedIssues);
-      hasNextPage = issuesData.pageInfo.hasNextPage;
-      cursor = issuesData.pageInfo.endCursor;
-      
-      console.log(`Fetched ${fetchedIssues.length} issues (total: ${issues.length})`);
-      
-      // Add delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 200));
-    } catch (error) {
-      console.error('Error fetching AKS issues:', error);
-      break;
+    const variables: Record<string, any> = { owner: source.repoOwner, name: source.repoName, cursor };
+    if (since) {
+      variables.since = since;
     }
-  }
+    const response: any = await graphqlWithAuth(query, variables);
+    
+    if (!response?.repository?.issues) {
+      throw new Error(`Failed to fetch issues from ${source.repoOwner}/${source.repoName} repository`);
+    }
+    
+    const issuesData = response.repository.issues;
+    totalPages = Math.ceil(issuesData.totalCount / 50);
+    const fetchedIssues = issuesData.nodes.map((issue: any) => ({
+      id: issue.id,
+      title: issue.title,
+      url: issue.url,
+      body: issue.body || '',
+      createdAt: issue.createdAt,
+      updatedAt: issue.updatedAt,
+      state: issue.state,
+      closedAt: issue.closedAt || null,
+      closeReason: issue.stateReason || null,
+      labels: issue.labels.nodes.map((label: any) => ({
+        name: label.name,
+        color: label.color
+      })),
+      assignees: issue.assignees.nodes.map((assignee: any) => ({
+        login: assignee.login,
+        name: assignee.name,
+        avatarUrl: assignee.avatarUrl
+      })),
+      comments: issue.comments.totalCount,
+      linkedPullRequests: toLinkedPullRequests(issue),
+      reactions: toReactionCounts(issue.reactionGroups),
+      commentsData: issue.comments, // Preserve the full comments structure for processing
+      aiSummary: null // Will be populated by AI analysis
+    }));
+    
+    console.log(`Fetched ${fetchedIssues.length} ${label} issues on page ${page}`);
+    return { nodes: fetchedIssues, pageInfo: issuesData.pageInfo };
+  }, { allowPartial, signal });
   
-  return issues;
+  if (result.pageLimit) {
+    console.log(`Stopped fetching ${label} AKS issues at ${result.pageLimit} pages`);
+  }
+  // Issues updated while a fetch was interrupted move to the top of an updatedAt ordering
+  // and push the rest down, so a resumed fetch can see an issue twice
+  return { ...result, nodes: [...new Map(result.nodes.map(issue => [issue.id, issue])).values()] };
 }
 
-// Function to get roadmap issue IDs to filter them out
-async function getRoadmapIssueIds(): Promise<Set<string>> {
-  try {
-    const issueIds = new Set<string>();
-    let hasNextPage = true;
-    let cursor: string | null = null;
-    let pageCount = 0;
-    const MAX_PAGES = 20; // Safety limit
-
-    while (hasNextPage && pageCount < MAX_PAGES) {
-      pageCount++;
-      const query = `
-        query($cursor: String) {
-          organization(login: "Azure") {
-            projectV2(number: 685) {
-              items(first: 100, after: $cursor) {
-                pageInfo {
-                  hasNextPage
-                  endCursor
-                }
-                nodes {
-                  content {
-                    ... on Issue {
-                      id
-                      url
-                    }
+// Function to get roadmap issue IDs to filter them out. Without these ids board items
+// would leak into the issues dataset, so errors fail the refresh and the cached data is
+// served instead.
+async function getRoadmapIssueIds(source: DataSource, signal?: AbortSignal): Promise<PaginationResult<string>> {
+  const result = await paginate<string>(source.id, 'issues:roadmap-ids', async (cursor, page) => {
+    const query = `
+      query($org: String!, $projectNumber: Int!, $cursor: String) {
+        organization(login: $org) {
+          projectV2(number: $projectNumber) {
+            items(first: 100, after: $cursor) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              nodes {
+                content {
+                  ... on Issue {
+                    id
+                    url
                   }
                 }
               }
             }
           }
         }
-      `;
-      
-      const response: any = await graphqlWithAuth(query, { cursor });
-      const projectData = response?.organization?.projectV2?.items;
-      
-      if (!projectData) {
-        console.log('No more roadmap project data found');
-        break;
       }
-      
-      const roadmapItems = projectData.nodes || [];
-      
-      roadmapItems.forEach((item: any) => {
-        if (item.content?.id) {
-          issueIds.add(item.content.id);
-        }
-      });
-      
-      hasNextPage = projectData.pageInfo.hasNextPage;
-      cursor = projectData.pageInfo.endCursor;
-      
-      console.log(`Fetched roadmap page ${pageCount}, found ${roadmapItems.length} items (total IDs: ${issueIds.size})`);
-      
-      // Add delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
+    `;
     
-    console.log(`Found ${issueIds.size} roadmap issue IDs to filter out (${pageCount} pages)`);
-    return issueIds;
-  } catch (error) {
-    console.error('Error fetching roadmap issue IDs:', error);
-    return new Set();
-  }
-}
-
-app.get('/api/aks-issues', async (req, res) => {
-  try {
-    const forceRefresh = req.query.refresh === 'true';
+    const response: any = await graphqlWithAuth(query, { org: source.org, projectNumber: source.projectNumber, cursor });
+    const projectData = response?.organization?.projectV2?.items;
     
-    // Check AKS issues cache first (unless force refresh)
-    if (!forceRefresh) {
-      const cachedData = loadAKSIssuesCache();
-      if (cachedData) {
-        console.log('Serving AKS issues data from cache');
-        // Send progress update for cache hit to close any waiting EventSource connections
-        sendProgress('Loaded from cache', 100, 100, 'aks');
-        return res.json(cachedData.data);
-      }
+    if (!projectData) {
+      throw new Error('Failed to fetch roadmap issue IDs from GitHub API');
     }
     
-    console.log(forceRefresh ? 'Force refresh requested for AKS issues, fetching fresh data...' : 'AKS issues cache miss, fetching fresh data...');
-    
-    sendProgress('Starting AKS issues fetch', 0, 100, 'aks');
-    
-    // Get roadmap issue IDs to filter out
-    sendProgress('Fetching roadmap issue IDs to filter', 2, 100, 'aks');
-    const roadmapIssueIds = await getRoadmapIssueIds();
-    
-    // Fetch all AKS open issues (this will send its own progress updates from 5% to 20%)
-    sendProgress('Starting to fetch AKS open issues', 5, 100, 'aks');
-    const allIssues = await fetchAKSOpenIssues();
-    
-    sendProgress(`Filtering out ${roadmapIssueIds.size} roadmap issues from ${allIssues.length} total issues`, 22, 100, 'aks');
-    
-    // Filter out roadmap issues
-    const filteredIssues = allIssues.filter(issue => !roadmapIssueIds.has(issue.id));
-    
-    console.log(`Filtered out ${allIssues.length - filteredIssues.length} roadmap issues, processing ${filteredIssues.length} remaining issues`);
-    console.log(`Total open issues in repo: ${allIssues.length}, Issues after filtering roadmap items: ${filteredIssues.length}`);
-    
-    sendProgress(`Starting AI analysis of ${filteredIssues.length} issues (${allIssues.length} total issues fetched)`, 25, 100, 'aks');
+    const issueIds: string[] = (projectData.nodes || [])
+      .filter((item: any) => item.content?.id)
+      .map((item: any) => item.content.id);
+    console.log(`Fetched roadmap page ${page}, found ${issueIds.length} issues`);
+    return { nodes: issueIds, pageInfo: projectData.pageInfo };
+  }, { signal });
+  
+  console.log(`Found ${result.nodes.length} roadmap issue IDs to filter out`);
+  return result;
+}
+
+// Fetch repository issues from GitHub, leaving out roadmap items, run AI analysis and save
+// them. Nothing is saved when `signal` aborts the refresh.
+async function refreshAKSIssues(source: DataSource, full: boolean, signal?: AbortSignal): Promise<RefreshOutcome> {
+  console.log(`Refreshing issues for ${source.id}${full ? ' (full)' : ''}...`);
+  
+  sendProgress('Starting AKS issues fetch', 0, 100, 'aks', source.id);
+  
+  // Taken before fetching so changes made while the sync runs are picked up next time
+  const syncStartedAt = new Date().toISOString();
+  const incrementalSince = getIncrementalSince(source.id, 'issues', full);
+  const closedWindowStart = getClosedWindowStart();
+  if (incrementalSince) {
+    console.log(`Incremental sync for ${source.id} issues: fetching changes since ${incrementalSince}`);
+  }
+  
+  // Get roadmap issue IDs to filter out
+  sendProgress('Fetching roadmap issue IDs to filter', 2, 100, 'aks', source.id);
+  const roadmapFetch = await getRoadmapIssueIds(source, signal);
+  const roadmapIssueIds = new Set(roadmapFetch.nodes);
+  
+  // Fetch all AKS open issues (this will send its own progress updates from 5% to 15%)
+  sendProgress('Starting to fetch AKS open issues', 5, 100, 'aks', source.id);
+  const openFetch = await fetchAKSIssues(source, 'OPEN', incrementalSince || undefined, !incrementalSince, signal);
+  const allIssues = openFetch.nodes;
+  
+  // Recently closed issues feed the resolution statistics (progress from 15% to 20%)
+  const closedSince = incrementalSince && Date.parse(incrementalSince) > closedWindowStart
+    ? incrementalSince
+    : new Date(closedWindowStart).toISOString();
+  const closedFetch = await fetchAKSIssues(source, 'CLOSED', closedSince, !incrementalSince, signal);
+  const closedIssues = closedFetch.nodes;
+  
+  sendProgress(`Filtering out ${roadmapIssueIds.size} roadmap issues from ${allIssues.length + closedIssues.length} total issues`, 22, 100, 'aks', source.id);
+  
+  // Filter out roadmap issues
+  const filteredIssues = allIssues.filter(issue => !roadmapIssueIds.has(issue.id));
+  // Issues updated in the window but closed before it are left out
+  const filteredClosedIssues = closedIssues.filter(issue => !roadmapIssueIds.has(issue.id) && isWithinClosedWindow(issue, closedWindowStart));
+  
+  console.log(`Filtered out ${allIssues.length - filteredIssues.length} roadmap issues, processing ${filteredIssues.length} remaining issues`);
+  console.log(`Total open issues in repo: ${allIssues.length}, Issues after filtering roadmap items: ${filteredIssues.length}`);
+  console.log(`Closed issues in the last ${CLOSED_ISSUES_DAYS} days: ${filteredClosedIssues.length}`);
+  
+  sendProgress(`Starting AI analysis of ${filteredIssues.length} issues (${allIssues.length} total issues fetched)`, 25, 100, 'aks', source.id);
+  
+  // Process AI analysis in batches
+  const CONCURRENCY_LIMIT = 5; // Process 5 issues in parallel
+  const processedIssues: AKSIssue[] = [];
+  const itemDetails = new Map<string, ItemDetails>();
+  const totalIssues = filteredIssues.length;
+  // False once an issue is left out because its comments could not all be fetched
+  let commentsComplete = true;
+  
+  for (let i = 0; i < filteredIssues.length; i += CONCURRENCY_LIMIT) {
+    signal?.throwIfAborted();
+    const batch = filteredIssues.slice(i, i + CONCURRENCY_LIMIT);
     
-    // Process AI analysis in batches
-    const CONCURRENCY_LIMIT = 5; // Process 5 issues in parallel
-    const processedIssues: AKSIssue[] = [];
-    const totalIssues = filteredIssues.length;
+    // Update progress for the batch
+    const progressPercent = Math.round(25 + ((i / totalIssues) * 70)); // 25% to 95%
+    sendProgress(`Analyzing batch ${Math.floor(i / CONCURRENCY_LIMIT) + 1}/${Math.ceil(totalIssues / CONCURRENCY_LIMIT)} (${i + 1}-${Math.min(i + CONCURRENCY_LIMIT, totalIssues)} of ${totalIssues} issues, ${allIssues.length} total)`, progressPercent, 100, 'aks', source.id);
     
-    for (let i = 0; i < filteredIssues.length; i += CONCURRENCY_LIMIT) {
-      const batch = filteredIssues.slice(i, i + CONCURRENCY_LIMIT);
+    const batchPromises = batch.map(async (issue, batchIndex) => {
+      const globalIndex = i + batchIndex;
       
-      // Update progress for the batch
-      const progressPercent = Math.round(25 + ((i / totalIssues) * 70)); // 25% to 95%
-      sendProgress(`Analyzing batch ${Math.floor(i / CONCURRENCY_LIMIT) + 1}/${Math.ceil(totalIssues / CONCURRENCY_LIMIT)} (${i + 1}-${Math.min(i + CONCURRENCY_LIMIT, totalIssues)} of ${totalIssues} issues, ${allIssues.length} total)`, progressPercent, 100, 'aks');
+      console.log(`Processing AI analysis for issue ${globalIndex + 1}/${filteredIssues.length}: ${issue.title.substring(0, 50)}...`);
       
-      const batchPromises = batch.map(async (issue, batchIndex) => {
-        const globalIndex = i + batchIndex;
-        
-        console.log(`Processing AI analysis for issue ${globalIndex + 1}/${filteredIssues.length}: ${issue.title.substring(0, 50)}...`);
-        
-        // Fetch all comments if there are more than 10
-        let allComments = issue.commentsData?.nodes || [];
-        if (issue.commentsData?.pageInfo?.hasNextPage && issue.commentsData.nodes && issue.commentsData.pageInfo.endCursor) {
-          console.log(`Issue ${issue.title} has more than 10 comments, fetching all...`);
+      // Fetch all comments if there are more than 10
+      let allComments = issue.commentsData?.nodes || [];
+      if (issue.commentsData?.pageInfo?.hasNextPage && issue.commentsData.nodes && issue.commentsData.pageInfo.endCursor) {
+        console.log(`Issue ${issue.title} has more than 10 comments, fetching all...`);
+        try {
           allComments = await fetchAllComments(issue.id, issue.commentsData.nodes, issue.commentsData.pageInfo.hasNextPage, issue.commentsData.pageInfo.endCursor);
+        } catch (error) {
+          // Leave the stored copy in place and mark the refresh partial
+          console.error(`Error fetching all comments for ${issue.title}, skipping it:`, error);
+          commentsComplete = false;
+          return null;
         }
-        
-        // Get last comment info (sort all comments by date)
-        const sortedComments = allComments
-          .filter((comment: any) => comment.author)
-          .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-        
-        const lastComment = sortedComments.length > 0 ? {
-          createdAt: sortedComments[0].createdAt,
-          author: {
-            login: sortedComments[0].author.login,
-            name: sortedComments[0].author.name || null
-          }
-        } : null;
-        
-        // Determine if needs response from team (if last comment is not from an assignee)
-        const allAssigneeLogins = issue.assignees.map((assignee: any) => assignee.login);
-        const needsResponse = lastComment ? !allAssigneeLogins.includes(lastComment.author.login) : false;
-        
-        // Use recent comments for AI analysis (limit to 10 most recent for performance)
-        const recentComments = sortedComments.slice(0, 10);
-        const aiSummary = await analyzeIssueWithAI(issue.title, issue.body, recentComments);
-        
-        const { commentsData, ...cleanIssue } = issue;
-        return {
-          ...cleanIssue,
-          lastComment,
-          needsResponse,
-          aiSummary
-        };
-      });
+      }
       
-      const batchResults = await Promise.all(batchPromises);
-      processedIssues.push(...batchResults);
+      // Get last comment info (sort all comments by date)
+      const sortedComments = allComments
+        .filter((comment: any) => comment.author)
+        .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
       
-      const batchNumber = Math.floor(i / CONCURRENCY_LIMIT) + 1;
-      const totalBatches = Math.ceil(filteredIssues.length / CONCURRENCY_LIMIT);
-      console.log(`Completed batch ${batchNumber}/${totalBatches}`);
+      const lastComment = sortedComments.length > 0 ? {
+        createdAt: sortedComments[0].createdAt,
+        author: {
+          login: sortedComments[0].author.login,
+          name: sortedComments[0].author.name || null
+        }
+      } : null;
       
-      // Add delay between batches to avoid overwhelming the AI service
-      if (i + CONCURRENCY_LIMIT < filteredIssues.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-    }
+      // Determine if needs response from team (if last comment is not from an assignee)
+      const allAssigneeLogins = issue.assignees.map((assignee: any) => assignee.login);
+      const needsResponse = lastComment ? !allAssigneeLogins.includes(lastComment.author.login) : false;
+      
+      // Use recent comments for AI analysis (limit to 10 most recent for performance)
+      const recentComments = sortedComments.slice(0, 10);
+      const aiSummary = await analyzeIssueWithAI(source.id, issue.id, issue.title, issue.body, recentComments);
+      
+      itemDetails.set(issue.id, { comments: allComments.map(withReactions) });
+      
+      const { commentsData, ...cleanIssue } = issue;
+      return {
+        ...cleanIssue,
+        lastComment,
+        needsResponse,
+        aiSummary
+      };
+    });
     
-    sendProgress('Saving to cache', 95, 100, 'aks');
+    const batchResults = await Promise.all(batchPromises);
+    batchResults.forEach(issue => {
+      if (issue) processedIssues.push(issue);
+    });
     
-    // Save the processed data to AKS issues cache
-    saveAKSIssuesCache(processedIssues);
+    const batchNumber = Math.floor(i / CONCURRENCY_LIMIT) + 1;
+    const totalBatches = Math.ceil(filteredIssues.length / CONCURRENCY_LIMIT);
+    console.log(`Completed batch ${batchNumber}/${totalBatches}`);
     
-    console.log(`Completed processing ${processedIssues.length} AKS issues`);
+    // Add delay between batches to avoid overwhelming the AI service
+    if (i + CONCURRENCY_LIMIT < filteredIssues.length) {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+  }
+  
+  // Closed issues are kept for resolution statistics only: no AI analysis and nothing awaiting a response
+  for (const issue of filteredClosedIssues) {
+    const comments = issue.commentsData?.nodes || [];
+    const lastComment = comments
+      .filter((comment: any) => comment.author)
+      .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
     
-    sendProgress('Complete', 100, 100, 'aks');
+    // Only the latest comments are fetched for closed issues, so older stored ones are kept
+    itemDetails.set(issue.id, {
+      comments: comments.map(withReactions),
+      partialComments: comments.length < (issue.commentsData?.totalCount ?? 0)
+    });
     
-    res.json(processedIssues);
+    const { commentsData, ...cleanIssue } = issue;
+    processedIssues.push({
+      ...cleanIssue,
+      lastComment: lastComment ? {
+        createdAt: lastComment.createdAt,
+        author: { login: lastComment.author.login, name: lastComment.author.name || null }
+      } : null,
+      needsResponse: false,
+      aiSummary: null
+    });
+  }
+  
+  // Keep stored issues that did not change, dropping any that moved onto the roadmap
+  // and closed ones that fell out of the CLOSED_ISSUES_DAYS window
+  if (incrementalSince) {
+    const updatedIds = new Set(processedIssues.map(issue => issue.id));
+    const unchanged = loadAKSIssues(source.id).filter(issue =>
+      !updatedIds.has(issue.id) &&
+      !roadmapIssueIds.has(issue.id) &&
+      isWithinClosedWindow(issue, closedWindowStart)
+    );
+    console.log(`Merged ${processedIssues.length} updated issues with ${unchanged.length} unchanged ones`);
+    processedIssues.push(...unchanged);
+  }
+  
+  signal?.throwIfAborted();
+  sendProgress('Saving to cache', 95, 100, 'aks', source.id);
+  
+  // Save the processed data to the normalized tables. Resumed fetches started earlier
+  // than this refresh, so the earliest start is the sync point.
+  const fetches = [roadmapFetch, openFetch, closedFetch];
+  const partial = !commentsComplete || fetches.some(fetch => !fetch.complete);
+  saveAKSIssues(source.id, processedIssues, itemDetails, {
+    syncedAt: earliest(syncStartedAt, ...fetches.map(fetch => fetch.startedAt)),
+    partial,
+    pageLimit: fetches.find(fetch => fetch.pageLimit)?.pageLimit ?? null
+  });
+  
+  console.log(`Completed processing ${processedIssues.length} AKS issues`);
+  
+  sendProgress('Complete', 100, 100, 'aks', source.id);
+  return { items: processedIssues.length, partial };
+}
+
+app.get('/api/aks-issues', async (req, res) => {
+  const source = resolveSource(req, res);
+  if (!source) return;
+  
+  try {
+    await serveOrRefresh(req, source, 'issues');
+    setDatasetHeaders(res, source.id, 'issues');
+    res.json(loadAKSIssues(source.id, parseItemFilters(req)));
   } catch (error) {
     console.error('Error fetching AKS issues:', error);
     res.status(500).json({ error: 'Failed to fetch AKS issues' });
   }
 });
 
+// Webhook follow-up work: AI re-analysis of changed items and refetching board items.
+// Jobs are keyed so a burst of events for one item runs the work once.
+type WebhookJob =
+  | { type: 'reanalyze'; sourceId: string; dataset: Dataset; issueId: string }
+  | { type: 'project-item'; org: string; projectNodeId: string; itemNodeId: string; issueId: string; removed: boolean };
+
+const webhookQueue = new Map<string, WebhookJob>();
+let webhookQueueRunning = false;
+
+function queueWebhookJob(job: WebhookJob) {
+  const key = job.type === 'reanalyze' ? `${job.sourceId}:${job.dataset}:${job.issueId}` : `project:${job.itemNodeId}`;
+  webhookQueue.set(key, job);
+}
+
+// A running refresh saves data it fetched partly before a delivery arrived, overwriting what
+// the delivery changed. Deliveries that arrive during a refresh are applied again, in
+// order, once every running refresh has finished.
+let deliveriesToReapply: Array<{ event: string; payload: any }> = [];
+
+function reapplyAfterRefresh(event: string, payload: any) {
+  deliveriesToReapply.push({ event, payload });
+  if (deliveriesToReapply.length > 1) return;
+
+  whenJobsIdle().then(() => {
+    const deliveries = deliveriesToReapply;
+    deliveriesToReapply = [];
+    for (const delivery of deliveries) {
+      try {
+        handleWebhookEvent(delivery.event, delivery.payload);
+      } catch (error) {
+        console.error(`Error re-applying ${delivery.event} webhook:`, error);
+      }
+    }
+    console.log(`Re-applied ${deliveries.length} webhook deliveries received during a refresh`);
+  });
+}
+
+// Sources whose repository sent the event
+function getRepositorySources(repository: any): DataSource[] {
+  const fullName = String(repository?.full_name || '').toLowerCase();
+  return sources.filter(source => `${source.repoOwner}/${source.repoName}`.toLowerCase() === fullName);
+}
+
+// Apply a verified delivery to storage right away and queue the slower follow-up work.
+// Returns how many stored items were touched.
+function handleWebhookEvent(event: string, payload: any): number {
+  switch (event) {
+    case 'issues':
+    case 'issue_comment':
+      return applyIssueEvent(event, payload);
+    case 'label':
+      return applyLabelEvent(payload);
+    case 'projects_v2_item':
+      return applyProjectItemEvent(payload);
+    default:
+      return 0;
+  }
+}
+
+function applyIssueEvent(event: string, payload: any): number {
+  if (!payload.issue?.node_id) return 0;
+  const issue = toWebhookIssue(payload.issue);
+  // Pull requests are only tracked as board items; the issues dataset holds issues only
+  const isPullRequest = !!payload.issue.pull_request;
+  const repositorySources = getRepositorySources(payload.repository);
+  let affected = 0;
+
+  for (const source of sources) {
+    const datasets = getItemDatasets(source.id, issue.id);
+    const fromRepository = repositorySources.includes(source) && !isPullRequest;
+    if (datasets.length === 0 && !fromRepository) continue;
+
+    if (event === 'issues' && (payload.action === 'deleted' || payload.action === 'transferred')) {
+      for (const dataset of datasets) {
+        removeItem(source.id, dataset, issue.id);
+        notifyItemChange(source.id, dataset, issue.id);
+        affected++;
+      }
+      continue;
+    }
+
+    // Keep display names we already know; payloads only carry logins
+    const withAssigneeNames = (stored: Array<{ login: string; name: string | null }>) => issue.assignees.map(assignee => ({
+      ...assignee,
+      name: stored.find(s => s.login === assignee.login)?.name || null
+    }));
+
+    let dataset: Dataset;
+    if (datasets.includes('roadmap')) {
+      const stored = loadRoadmapItems(source.id, { ids: [issue.id] })[0];
+      upsertRoadmapItem(source.id, {
+        ...stored,
+        title: issue.title,
+        url: issue.url,
+        body: issue.body,
+        state: issue.state,
+        updatedAt: issue.updatedAt,
+        labels: issue.labels,
+        reactions: issue.reactions,
+        assignees: withAssigneeNames(stored.assignees)
+      });
+      dataset = 'roadmap';
+    } else {
+      // Closed before the window: dropped, as the next refresh would
+      if (!isWithinClosedWindow(issue)) {
+        if (datasets.includes('issues')) {
+          removeItem(source.id, 'issues', issue.id);
+          notifyItemChange(source.id, 'issues', issue.id);
+          affected++;
+        }
+        continue;
+      }
+      const stored = loadAKSIssues(source.id, { ids: [issue.id] })[0];
+      upsertAKSIssue(source.id, {
+        lastComment: null,
+        needsResponse: false,
+        aiSummary: null,
+        ...stored,
+        ...issue,
+        assignees: withAssigneeNames(stored?.assignees || [])
+      });
+      dataset = 'issues';
+    }
+
+    if (event === 'issue_comment') {
+      if (payload.action === 'deleted') {
+        deleteComment(source.id, payload.comment.node_id);
+      } else {
+        saveComment(source.id, issue.id, toWebhookComment(payload.comment));
+      }
+    }
+
+    notifyItemChange(source.id, dataset, issue.id);
+    queueWebhookJob({ type: 'reanalyze', sourceId: source.id, dataset, issueId: issue.id });
+    affected++;
+  }
+  return affected;
+}
+
+function applyLabelEvent(payload: any): number {
+  if (payload.action !== 'edited' && payload.action !== 'deleted') return 0;
+  let affected = 0;
+
+  for (const source of getRepositorySources(payload.repository)) {
+    const issueIds = payload.action === 'deleted'
+      ? deleteLabel(source.id, payload.label.name)
+      : updateLabel(source.id, payload.changes?.name?.from || payload.label.name, payload.label.name, payload.label.color);
+
+    for (const issueId of issueIds) {
+      for (const dataset of getItemDatasets(source.id, issueId)) {
+        notifyItemChange(source.id, dataset, issueId);
+      }
+    }
+    affected += issueIds.length;
+  }
+  return affected;
+}
+
+// Board events only name the project by node id, so the matching source is found when the job runs
+function applyProjectItemEvent(payload: any): number {
+  const item = payload.projects_v2_item;
+  if (!item?.content_node_id || !(item.content_type in ITEM_TYPES)) return 0;
+  const org = payload.organization?.login;
+  if (!sources.some(source => source.org === org)) return 0;
+
+  queueWebhookJob({
+    type: 'project-item',
+    org,
+    projectNodeId: item.project_node_id,
+    itemNodeId: item.node_id,
+    issueId: item.content_node_id,
+    removed: payload.action === 'deleted' || payload.action === 'archived'
+  });
+  return 1;
+}
+
+const projectNodeIds = new Map<string, string>();
+
+async function getProjectNodeId(source: DataSource): Promise<string | null> {
+  if (!projectNodeIds.has(source.id)) {
+    const response: any = await graphqlWithAuth(`
+      query($org: String!, $projectNumber: Int!) {
+        organization(login: $org) {
+          projectV2(number: $projectNumber) {
+            id
+          }
+        }
+      }
+    `, { org: source.org, projectNumber: source.projectNumber });
+    const id = response?.organization?.projectV2?.id;
+    if (!id) return null;
+    projectNodeIds.set(source.id, id);
+  }
+  return projectNodeIds.get(source.id)!;
+}
+
+function getLastComment(comments: GitHubComment[]): RoadmapItem['lastComment'] {
+  const latest = comments
+    .filter(comment => comment.author)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+  return latest ? { createdAt: latest.createdAt, author: { login: latest.author!.login, name: latest.author!.name } } : null;
+}
+
+async function runWebhookJob(job: WebhookJob) {
+  if (job.type === 'project-item') {
+    for (const source of sources.filter(s => s.org === job.org)) {
+      if (await getProjectNodeId(source) !== job.projectNodeId) continue;
+
+      if (job.removed) {
+        removeItem(source.id, 'roadmap', job.issueId);
+      } else {
+        const items = await fetchProjectItemsById(source, [job.itemNodeId]);
+        const { roadmapItems, itemDetails } = await processProjectItems(source, items);
+        for (const item of roadmapItems) {
+          upsertRoadmapItem(source.id, item, itemDetails.get(item.id));
+        }
+      }
+      notifyItemChange(source.id, 'roadmap', job.issueId);
+    }
+    return;
+  }
+
+  const { sourceId, dataset, issueId } = job;
+  const comments = getComments(sourceId, issueId);
+  const lastComment = getLastComment(comments);
+
+  if (dataset === 'roadmap') {
+    const item = loadRoadmapItems(sourceId, { ids: [issueId] })[0];
+    if (!item) return;
+    const assigneeLogins = item.assignees.map(assignee => assignee.login);
+    const extractedDate = await extractAvailabilityDateWithAI(sourceId, issueId, item.body || '', item.title);
+    if (extractedDate === 'OpenAI extraction failed') {
+      addToRetryQueue(sourceId, issueId, item.title, item.body || '');
+    }
+    const extractedEta = await extractEtaFromComments(sourceId, issueId, comments, assigneeLogins, item.title);
+    upsertRoadmapItem(sourceId, {
+      ...item,
+      extractedDate,
+      extractedEta,
+      lastComment,
+      needsResponse: lastComment ? !assigneeLogins.includes(lastComment.author.login) : false
+    }, { comments });
+  } else {
+    const issue = loadAKSIssues(sourceId, { ids: [issueId] })[0];
+    if (!issue) return;
+    // Closed issues are kept for resolution statistics only, as in a full refresh
+    const open = issue.state !== 'CLOSED';
+    const assigneeLogins = issue.assignees.map(assignee => assignee.login);
+    upsertAKSIssue(sourceId, {
+      ...issue,
+      lastComment,
+      needsResponse: open && lastComment ? !assigneeLogins.includes(lastComment.author.login) : false,
+      aiSummary: open ? await analyzeIssueWithAI(sourceId, issueId, issue.title, issue.body, comments) : null
+    });
+  }
+  notifyItemChange(sourceId, dataset, issueId);
+}
+
+// Waits while refreshes run, as they would overwrite what the jobs save
+async function processWebhookQueue() {
+  if (webhookQueueRunning || webhookQueue.size === 0 || hasActiveJobs()) return;
+  webhookQueueRunning = true;
+
+  try {
+    while (webhookQueue.size > 0) {
+      const [key, job] = webhookQueue.entries().next().value!;
+      webhookQueue.delete(key);
+      try {
+        await runWebhookJob(job);
+      } catch (error) {
+        console.error(`Webhook job ${key} failed:`, error);
+      }
+    }
+  } finally {
+    webhookQueueRunning = false;
+  }
+}
+
+// Work through webhook jobs every few seconds
+setInterval(processWebhookQueue, 5 * 1000);
+
 // Start background retry process - runs every minute
 setInterval(processRetryQueue, 60 * 1000);
 
+// Keep every dataset refreshed in the background
+startScheduler(
+  sources.flatMap(source => (['roadmap', 'issues'] as Dataset[]).map(dataset => ({ sourceId: source.id, dataset }))),
+  (sourceId, dataset) => !isDatasetFresh(sourceId, dataset) && !getActiveJob(sourceId, dataset),
+  (sourceId, dataset) => refreshDataset(sources.find(source => source.id === sourceId)!, dataset, false, 'scheduled')
+);
+
 // Catch-all handler: send back React's index.html file for any non-API routes
 app.get('*', (req, res) => {
   // Don't serve index.html for API routes or static assets
@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+import { db } from './db.js';
+import { Dataset } from './types.js';
+
+// Dataset refreshes run as jobs. A dataset has at most one running job: starting another
+// one joins it, so two people pressing Refresh share one pipeline. Jobs are recorded in
+// refresh_jobs for history; progress is only kept in memory while a job runs.
+
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// What started the job: the jobs API, a request for stale data or the scheduler
+export type JobTrigger = 'manual' | 'request' | 'scheduled';
+
+export interface RefreshJob {
+  id: string;
+  source: string;
+  dataset: Dataset;
+  full: boolean;
+  trigger: JobTrigger;
+  status: JobStatus;
+  // Set when cancellation was asked for and the job has not reached a checkpoint yet
+  cancelRequested: boolean;
+  step: string | null;
+  current: number;
+  total: number;
+  // Items saved by a job that succeeded
+  items: number | null;
+  // The refresh stopped early after GitHub errors and saved what it had
+  partial: boolean;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface RefreshOutcome {
+  items: number;
+  partial: boolean;
+}
+
+interface ActiveJob {
+  job: RefreshJob;
+  controller: AbortController;
+  done: Promise<RefreshJob>;
+}
+
+interface JobRow {
+  id: string;
+  source: string;
+  dataset: Dataset;
+  full: number;
+  triggered_by: JobTrigger;
+  status: JobStatus;
+  step: string | null;
+  items: number | null;
+  partial: number;
+  error: string | null;
+  started_at: number;
+  finished_at: number | null;
+}
+
+// Finished jobs are kept this long
+const HISTORY_RETENTION = 30 * 24 * 60 * 60 * 1000;
+
+const active = new Map<string, ActiveJob>();
+
+function activeKey(sourceId: string, dataset: Dataset): string {
+  return `${sourceId}:${dataset}`;
+}
+
+function toJob(row: JobRow): RefreshJob {
+  return {
+    id: row.id,
+    source: row.source,
+    dataset: row.dataset,
+    full: row.full === 1,
+    trigger: row.triggered_by,
+    status: row.status,
+    cancelRequested: false,
+    step: row.step,
+    current: 0,
+    total: 0,
+    items: row.items,
+    partial: row.partial === 1,
+    error: row.error,
+    startedAt: new Date(row.started_at).toISOString(),
+    finishedAt: row.finished_at ? new Date(row.finished_at).toISOString() : null
+  };
+}
+
+function findActive(jobId: string): ActiveJob | undefined {
+  return [...active.values()].find(entry => entry.job.id === jobId);
+}
+
+export function getActiveJob(sourceId: string, dataset: Dataset): RefreshJob | null {
+  return active.get(activeKey(sourceId, dataset))?.job || null;
+}
+
+export function hasActiveJobs(): boolean {
+  return active.size > 0;
+}
+
+// Resolves once no job is running, including jobs started while waiting
+export async function whenJobsIdle(): Promise<void> {
+  while (active.size > 0) {
+    await Promise.all([...active.values()].map(entry => entry.done));
+  }
+}
+
+export function getJob(jobId: string): RefreshJob | null {
+  const running = findActive(jobId);
+  if (running) return running.job;
+  const row = db.prepare('SELECT * FROM refresh_jobs WHERE id = ?').get(jobId) as JobRow | undefined;
+  return row ? toJob(row) : null;
+}
+
+// Most recent first, running ones included
+export function listJobs({ sourceId, dataset, limit = 50 }: { sourceId?: string; dataset?: Dataset; limit?: number } = {}): RefreshJob[] {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (sourceId) {
+    conditions.push('source = ?');
+    params.push(sourceId);
+  }
+  if (dataset) {
+    conditions.push('dataset = ?');
+    params.push(dataset);
+  }
+  const rows = db.prepare(`
+    SELECT * FROM refresh_jobs ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY started_at DESC LIMIT ?
+  `).all(...params, limit) as JobRow[];
+  return rows.map(row => findActive(row.id)?.job || toJob(row));
+}
+
+// Start a job running `run`, or return the job already running for the dataset. `run`
+// should stop with signal.reason once the signal is aborted. The returned promise
+// resolves with the finished job whatever its outcome.
+export function startJob(
+  sourceId: string,
+  dataset: Dataset,
+  { full = false, trigger }: { full?: boolean; trigger: JobTrigger },
+  run: (signal: AbortSignal) => Promise<RefreshOutcome>
+): { job: RefreshJob; joined: boolean; done: Promise<RefreshJob> } {
+  const key = activeKey(sourceId, dataset);
+  const existing = active.get(key);
+  if (existing) {
+    return { job: existing.job, joined: true, done: existing.done };
+  }
+
+  const now = Date.now();
+  const job: RefreshJob = {
+    id: crypto.randomUUID(),
+    source: sourceId,
+    dataset,
+    full,
+    trigger,
+    status: 'running',
+    cancelRequested: false,
+    step: null,
+    current: 0,
+    total: 0,
+    items: null,
+    partial: false,
+    error: null,
+    startedAt: new Date(now).toISOString(),
+    finishedAt: null
+  };
+  db.prepare('DELETE FROM refresh_jobs WHERE finished_at < ?').run(now - HISTORY_RETENTION);
+  db.prepare(`
+    INSERT INTO refresh_jobs (id, source, dataset, full, triggered_by, status, started_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(job.id, sourceId, dataset, full ? 1 : 0, trigger, job.status, now);
+  console.log(`Started ${trigger} refresh job ${job.id} for ${sourceId} ${dataset}${full ? ' (full)' : ''}`);
+
+  const controller = new AbortController();
+  const done = (async () => {
+    try {
+      const outcome = await run(controller.signal);
+      job.status = 'succeeded';
+      job.items = outcome.items;
+      job.partial = outcome.partial;
+    } catch (error) {
+      job.status = controller.signal.aborted ? 'cancelled' : 'failed';
+      job.error = controller.signal.aborted ? 'Cancelled' : (error instanceof Error ? error.message : String(error));
+      if (!controller.signal.aborted) {
+        console.error(`Refresh job ${job.id} for ${sourceId} ${dataset} failed:`, error);
+      }
+    } finally {
+      job.finishedAt = new Date().toISOString();
+      active.delete(key);
+      db.prepare(`
+        UPDATE refresh_jobs SET status = ?, step = ?, items = ?, partial = ?, error = ?, finished_at = ? WHERE id = ?
+      `).run(job.status, job.step, job.items, job.partial ? 1 : 0, job.error, Date.parse(job.finishedAt), job.id);
+      console.log(`Refresh job ${job.id} ${job.status}`);
+    }
+    return job;
+  })();
+  active.set(key, { job, controller, done });
+  return { job, joined: false, done };
+}
+
+// Ask a running job to stop at its next checkpoint; null when there is no such job
+export function cancelJob(jobId: string): RefreshJob | null {
+  const running = findActive(jobId);
+  if (!running) return null;
+  running.job.cancelRequested = true;
+  running.controller.abort(new Error('Refresh job cancelled'));
+  return running.job;
+}
+
+export function updateJobProgress(sourceId: string, dataset: Dataset, step: string, current: number, total: number): void {
+  const running = active.get(activeKey(sourceId, dataset));
+  if (!running) return;
+  running.job.step = step;
+  running.job.current = current;
+  running.job.total = total;
+}
+
+// Jobs still marked running were cut off by a restart
+export function markInterruptedJobs(): number {
+  return db.prepare(`
+    UPDATE refresh_jobs SET status = 'failed', error = 'Interrupted by a server restart', finished_at = ? WHERE status = 'running'
+  `).run(Date.now()).changes;
+}
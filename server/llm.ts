@@ -0,0 +1,285 @@
+import OpenAI from 'openai';
+import {
+  AvailabilityInput,
+  EtaInput,
+  AnalysisInput,
+  ChatPrompt,
+  buildAvailabilityPrompt,
+  buildEtaPrompt,
+  buildAnalysisPrompt,
+  JsonPrompt,
+  buildRepairMessage
+} from './prompts.js';
+import { NamedSchema, validateJson } from './schema.js';
+
+export interface EtaResult {
+  date: string;
+  // The sentence or phrase containing the date, used to find the source comment
+  text: string;
+}
+
+export interface IssueAnalysis {
+  currentStatus: string;
+  nextSteps: string;
+  analysis: {
+    isKnownIssue: boolean;
+    isExpectedBehaviour: boolean;
+    shouldClose: boolean;
+  };
+}
+
+export interface LlmCallOptions {
+  // Called with the problems found whenever a JSON answer fails validation, including
+  // answers that a repair attempt then fixed
+  onInvalid?: (errors: string[]) => void;
+}
+
+// Every provider answers the same three questions. Methods resolve to null when there is
+// no answer and throw when the provider fails or keeps answering outside the schema, so
+// callers can cache the failure for retry.
+export interface LlmProvider {
+  name: string;
+  model: string;
+  extractAvailabilityDate(input: AvailabilityInput): Promise<string | null>;
+  extractEta(input: EtaInput, options?: LlmCallOptions): Promise<EtaResult | null>;
+  analyzeIssue(input: AnalysisInput, options?: LlmCallOptions): Promise<IssueAnalysis | null>;
+}
+
+// Strip markdown code fences some models wrap around JSON, then parse and check the answer
+// against the schema. Returns the problems found, or none and the parsed value.
+export function parseJsonResponse(result: string, schema: NamedSchema): { value?: any; errors: string[] } {
+  let cleanResult = result.trim();
+  if (cleanResult.startsWith('```json')) {
+    cleanResult = cleanResult.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  } else if (cleanResult.startsWith('```')) {
+    cleanResult = cleanResult.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(cleanResult);
+  } catch (error) {
+    return { errors: [`not valid JSON (${error instanceof Error ? error.message : error}): ${result.substring(0, 200)}`] };
+  }
+  const errors = validateJson(schema.schema, value);
+  return errors.length > 0 ? { errors } : { value, errors };
+}
+
+// Shared implementation for anything speaking the OpenAI chat completions API
+function createChatProvider(name: string, client: OpenAI, model: string): LlmProvider {
+  // Prompts with a schema ask for structured output unless LLM_STRUCTURED_OUTPUT=false. It is
+  // turned off for the rest of the run when the server rejects it, and the prompt alone
+  // asks for JSON.
+  let structuredOutput = process.env.LLM_STRUCTURED_OUTPUT !== 'false';
+
+  // `repair` continues the conversation after an answer that failed validation
+  const complete = async (prompt: ChatPrompt, repair?: { answer: string; errors: string[] }): Promise<string | null> => {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      { role: 'system', content: prompt.system },
+      { role: 'user', content: prompt.user }
+    ];
+    if (repair && prompt.schema) {
+      messages.push(
+        { role: 'assistant', content: repair.answer },
+        { role: 'user', content: buildRepairMessage(prompt.schema, repair.errors) }
+      );
+    }
+    const request = { model, messages, max_tokens: prompt.maxTokens, temperature: 0.1 };
+
+    let response: OpenAI.Chat.ChatCompletion;
+    if (prompt.schema && structuredOutput) {
+      try {
+        response = await client.chat.completions.create({
+          ...request,
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: prompt.schema.name, schema: prompt.schema.schema, strict: true }
+          }
+        });
+      } catch (error) {
+        if (!(error instanceof OpenAI.BadRequestError) || !/response_format|json_schema/i.test(error.message)) throw error;
+        console.warn(`${name} (${model}) does not support structured output, relying on the prompt: ${error.message}`);
+        structuredOutput = false;
+        response = await client.chat.completions.create(request);
+      }
+    } else {
+      response = await client.chat.completions.create(request);
+    }
+    return response.choices[0]?.message?.content?.trim() || null;
+  };
+
+  // Ask for a JSON answer matching the prompt's schema. An answer that does not parse or
+  // match gets one repair attempt showing the model what was wrong; if that fails too,
+  // throw with the problems found.
+  const completeJson = async (prompt: JsonPrompt, options?: LlmCallOptions): Promise<any | null> => {
+    const answer = await complete(prompt);
+    if (!answer) return null;
+
+    const first = parseJsonResponse(answer, prompt.schema);
+    if (first.errors.length === 0) return first.value;
+    options?.onInvalid?.(first.errors);
+    console.warn(`Invalid ${prompt.schema.name} answer from ${name}, asking for a repair: ${first.errors.join('; ')}`);
+
+    const repaired = await complete(prompt, { answer, errors: first.errors });
+    const second = repaired ? parseJsonResponse(repaired, prompt.schema) : { errors: ['empty response'] };
+    if (second.errors.length === 0) return second.value;
+    options?.onInvalid?.(second.errors);
+    throw new Error(`Invalid ${prompt.schema.name} answer from ${name} after a repair attempt: ${second.errors.join('; ')}`);
+  };
+
+  return {
+    name,
+    model,
+
+    async extractAvailabilityDate(input) {
+      const result = await complete(buildAvailabilityPrompt(input));
+      if (!result || result.toLowerCase() === 'none' || result.toLowerCase().includes('no timeline')) {
+        return null;
+      }
+      return result;
+    },
+
+    async extractEta(input, options) {
+      const parsed = await completeJson(buildEtaPrompt(input), options);
+      if (!parsed || !parsed.date || parsed.date === 'None' || !parsed.text || parsed.text === 'None') {
+        return null;
+      }
+      return { date: parsed.date, text: parsed.text };
+    },
+
+    async analyzeIssue(input, options) {
+      return completeJson(buildAnalysisPrompt(input), options);
+    }
+  };
+}
+
+function createAzureOpenAIProvider(): LlmProvider {
+  const deployment = process.env.AZURE_OPENAI_DEPLOYMENT_NAME!;
+  const client = new OpenAI({
+    apiKey: process.env.AZURE_OPENAI_API_KEY!,
+    baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}openai/deployments/${deployment}`,
+    defaultQuery: { 'api-version': '2024-08-01-preview' },
+    defaultHeaders: {
+      'api-key': process.env.AZURE_OPENAI_API_KEY!,
+    },
+  });
+  return createChatProvider('azure-openai', client, deployment);
+}
+
+// Any server exposing /v1/chat/completions (Ollama, LM Studio, vLLM, llama.cpp, ...)
+function createOpenAICompatibleProvider(): LlmProvider {
+  if (!process.env.LLM_BASE_URL || !process.env.LLM_MODEL) {
+    throw new Error('LLM_BASE_URL and LLM_MODEL must be set for the openai-compatible provider');
+  }
+  const client = new OpenAI({
+    apiKey: process.env.LLM_API_KEY || 'not-needed',
+    baseURL: process.env.LLM_BASE_URL,
+  });
+  return createChatProvider('openai-compatible', client, process.env.LLM_MODEL);
+}
+
+const MONTHS = 'January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec';
+const TIMELINE_PATTERN = new RegExp(
+  [
+    `(?:Q[1-4]|H[12])\\s*(?:CY|FY)?\\s*'?\\d{2,4}`,
+    `(?:${MONTHS})\\.?\\s+\\d{4}`,
+    `(?:early|mid|late|end of|summer|spring|fall|autumn|winter)\\s+\\d{4}`,
+    `(?:next|this|the coming)\\s+(?:quarter|month|year)`,
+    `(?:later|end of|by the end of)\\s+this\\s+year`
+  ].map(pattern => `\\b${pattern}\\b`).join('|'),
+  'i'
+);
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+|\n+/).map(sentence => sentence.trim()).filter(Boolean);
+}
+
+// Find the first sentence mentioning a timeline and label it with a release stage if one is named
+function findTimeline(text: string): EtaResult | null {
+  for (const sentence of splitSentences(text)) {
+    const match = sentence.match(TIMELINE_PATTERN);
+    if (!match) continue;
+
+    let date = match[0];
+    if (/\bpreview\b/i.test(sentence)) {
+      date = `Preview ${date}`;
+    } else if (/\b(?:GA|general availability|generally available)\b/i.test(sentence)) {
+      date = `GA ${date}`;
+    }
+    return { date, text: sentence };
+  }
+  return null;
+}
+
+// Deterministic keyword and pattern matching; needs no credentials or network,
+// so the whole pipeline can run locally and in tests with stable output
+function createRuleBasedProvider(): LlmProvider {
+  return {
+    name: 'rule-based',
+    model: 'rules-v1',
+
+    async extractAvailabilityDate({ body }) {
+      return findTimeline(body)?.date.substring(0, 50) || null;
+    },
+
+    async extractEta({ comments }) {
+      for (const comment of comments) {
+        const timeline = findTimeline(comment.body);
+        if (timeline) return timeline;
+      }
+      return null;
+    },
+
+    async analyzeIssue({ body, comments }) {
+      const allText = [body, ...comments.map(comment => comment.body)].join('\n').toLowerCase();
+      const recentText = comments.slice(0, 3).map(comment => comment.body).join('\n').toLowerCase();
+
+      const isKnownIssue = /known issue|duplicate of|same issue as|also (?:seeing|hitting|affected)/.test(allText);
+      const isExpectedBehaviour = /by design|expected behaviou?r|working as (?:designed|intended)/.test(allText);
+      const shouldClose = /\b(?:fixed in|has been fixed|resolved|duplicate of|closing this|can be closed|no longer reproduc)/.test(recentText);
+
+      const latest = comments[0];
+      const currentStatus = latest
+        ? `The issue has ${comments.length} recent comment(s); the latest is from ${latest.author} on ${latest.createdAt.substring(0, 10)}.`
+        : 'The issue has no comments yet and has not been triaged.';
+
+      let nextSteps = 'Follow up on the latest comment and confirm whether the problem still occurs.';
+      if (shouldClose) {
+        nextSteps = 'Confirm the resolution with the reporter and close the issue.';
+      } else if (isExpectedBehaviour) {
+        nextSteps = 'Explain the expected behaviour and close the issue or convert it into a feature request.';
+      } else if (!latest) {
+        nextSteps = 'Triage the issue and respond to the reporter.';
+      }
+
+      return {
+        currentStatus,
+        nextSteps,
+        analysis: { isKnownIssue, isExpectedBehaviour, shouldClose }
+      };
+    }
+  };
+}
+
+// Pick the provider from LLM_PROVIDER, defaulting to Azure OpenAI when its key is configured
+export function createLlmProvider(): LlmProvider {
+  const providerName = process.env.LLM_PROVIDER || (process.env.AZURE_OPENAI_API_KEY ? 'azure-openai' : 'rule-based');
+
+  let provider: LlmProvider;
+  switch (providerName) {
+    case 'azure-openai':
+      provider = createAzureOpenAIProvider();
+      break;
+    case 'openai-compatible':
+      provider = createOpenAICompatibleProvider();
+      break;
+    case 'rule-based':
+      provider = createRuleBasedProvider();
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}" (expected azure-openai, openai-compatible or rule-based)`);
+  }
+
+  console.log(`Using LLM provider ${provider.name} (model: ${provider.model})`);
+  return provider;
+}
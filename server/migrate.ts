@@ -0,0 +1,38 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { getMigrationStatus, migrations, runMigrations } from './migrations.js';
+
+// Usage: tsx server/migrate.ts [status|up] [path/to/cache.db]
+// The server applies pending migrations on boot; this command shows or applies them without starting it.
+
+const command = process.argv[2] || 'status';
+const dbPath = process.argv[3] || process.env.DB_PATH || path.join(process.cwd(), 'cache.db');
+
+if (command !== 'status' && command !== 'up') {
+  console.error(`Unknown command "${command}" (expected status or up)`);
+  process.exit(1);
+}
+
+if (command === 'status' && !fs.existsSync(dbPath)) {
+  console.log(`${dbPath} does not exist yet; all ${migrations.length} migration(s) are pending`);
+  process.exit(0);
+}
+
+const db = new Database(dbPath);
+
+try {
+  if (command === 'up') {
+    runMigrations(db);
+  }
+
+  const status = getMigrationStatus(db);
+  const pending = status.filter(migration => !migration.appliedAt).length;
+  console.log(`Database: ${dbPath}`);
+  for (const migration of status) {
+    console.log(`  ${String(migration.version).padStart(3, '0')} ${migration.name.padEnd(24)} ${migration.appliedAt ? `applied ${migration.appliedAt}` : 'pending'}`);
+  }
+  console.log(pending === 0 ? 'Schema is up to date' : `${pending} migration(s) pending`);
+} finally {
+  db.close();
+}
@@ -0,0 +1,429 @@
+import Database from 'better-sqlite3';
+import { normalizeEta } from './timelines.js';
+
+// Numbered schema migrations for cache.db. Each runs once, in its own transaction, and is
+// recorded in schema_version. Never edit a released migration; add a new one instead.
+// The first five use IF NOT EXISTS because they describe tables that databases created
+// before versioning may already have.
+
+export interface Migration {
+  version: number;
+  name: string;
+  // SQL to execute, or a function for migrations that need to transform data
+  up: string | ((db: Database.Database) => void);
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'ai-cache',
+    up: `
+    CREATE TABLE IF NOT EXISTS ai_timeline_cache (
+      cache_key TEXT PRIMARY KEY,
+      result TEXT,
+      timestamp INTEGER,
+      failed INTEGER DEFAULT 0
+    );
+    `
+  },
+  {
+    version: 2,
+    name: 'normalized-tables',
+    up: `
+    -- When each dataset ('roadmap' or 'issues') of a source was last refreshed
+    CREATE TABLE IF NOT EXISTS datasets (
+      source TEXT NOT NULL,
+      dataset TEXT NOT NULL,
+      timestamp INTEGER,
+      last_updated TEXT,
+      PRIMARY KEY (source, dataset)
+    );
+
+    -- GitHub issue content, shared by every dataset of a source
+    CREATE TABLE IF NOT EXISTS issues (
+      source TEXT NOT NULL,
+      id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      url TEXT,
+      body TEXT,
+      state TEXT,
+      created_at TEXT,
+      updated_at TEXT,
+      last_edited_at TEXT,
+      comment_count INTEGER DEFAULT 0,
+      PRIMARY KEY (source, id)
+    );
+
+    -- Membership of an issue in a dataset, plus everything derived for it during a refresh
+    CREATE TABLE IF NOT EXISTS items (
+      source TEXT NOT NULL,
+      dataset TEXT NOT NULL,
+      issue_id TEXT NOT NULL,
+      position INTEGER,
+      status TEXT,
+      extracted_date TEXT,
+      extracted_eta TEXT,
+      ai_summary TEXT,
+      last_comment_at TEXT,
+      last_comment_login TEXT,
+      last_comment_name TEXT,
+      needs_response INTEGER DEFAULT 0,
+      PRIMARY KEY (source, dataset, issue_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS comments (
+      source TEXT NOT NULL,
+      id TEXT NOT NULL,
+      issue_id TEXT NOT NULL,
+      author_login TEXT,
+      author_name TEXT,
+      body TEXT,
+      created_at TEXT,
+      url TEXT,
+      PRIMARY KEY (source, id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_comments_issue ON comments (source, issue_id);
+
+    CREATE TABLE IF NOT EXISTS labels (
+      source TEXT NOT NULL,
+      issue_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      color TEXT,
+      PRIMARY KEY (source, issue_id, name)
+    );
+    CREATE INDEX IF NOT EXISTS idx_labels_name ON labels (source, name);
+
+    CREATE TABLE IF NOT EXISTS assignees (
+      source TEXT NOT NULL,
+      issue_id TEXT NOT NULL,
+      login TEXT NOT NULL,
+      name TEXT,
+      avatar_url TEXT,
+      PRIMARY KEY (source, issue_id, login)
+    );
+    CREATE INDEX IF NOT EXISTS idx_assignees_login ON assignees (source, login);
+
+    CREATE TABLE IF NOT EXISTS project_field_values (
+      source TEXT NOT NULL,
+      issue_id TEXT NOT NULL,
+      field_name TEXT NOT NULL,
+      value TEXT,
+      PRIMARY KEY (source, issue_id, field_name)
+    );
+    `
+  },
+  {
+    version: 3,
+    name: 'snapshots',
+    up: `
+    -- One snapshot per dataset refresh, with a copy of each item's tracked state
+    CREATE TABLE IF NOT EXISTS snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source TEXT NOT NULL,
+      dataset TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      item_count INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS idx_snapshots_lookup ON snapshots (source, dataset, timestamp);
+
+    CREATE TABLE IF NOT EXISTS snapshot_items (
+      snapshot_id INTEGER NOT NULL,
+      issue_id TEXT NOT NULL,
+      title TEXT,
+      url TEXT,
+      status TEXT,
+      labels TEXT,
+      assignees TEXT,
+      comment_count INTEGER,
+      PRIMARY KEY (snapshot_id, issue_id)
+    );
+    `
+  },
+  {
+    version: 4,
+    name: 'status-transitions',
+    up: `
+    -- Roadmap Status changes in the order they were observed; kept after an item leaves the board
+    CREATE TABLE IF NOT EXISTS status_transitions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source TEXT NOT NULL,
+      issue_id TEXT NOT NULL,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      observed_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_status_transitions_issue ON status_transitions (source, issue_id, observed_at);
+    `
+  },
+  {
+    version: 5,
+    name: 'eta-history',
+    up: `
+    -- Every distinct ETA seen for a roadmap item, with the comment it came from when there is one
+    CREATE TABLE IF NOT EXISTS eta_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source TEXT NOT NULL,
+      issue_id TEXT NOT NULL,
+      eta TEXT NOT NULL,
+      origin TEXT NOT NULL,
+      author TEXT,
+      comment_text TEXT,
+      url TEXT,
+      comment_at TEXT,
+      observed_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_eta_history_issue ON eta_history (source, issue_id, observed_at);
+
+    `
+  },
+  {
+    version: 6,
+    name: 'hashed-ai-cache-keys',
+    // Old keys were built from a truncated title and input lengths and cannot be mapped to
+    // the new content hashes, so those entries are dropped and recomputed on the next refresh
+    up: `
+    DELETE FROM ai_timeline_cache;
+    ALTER TABLE ai_timeline_cache ADD COLUMN kind TEXT;
+    ALTER TABLE ai_timeline_cache ADD COLUMN prompt_version TEXT;
+    ALTER TABLE ai_timeline_cache ADD COLUMN provider TEXT;
+    ALTER TABLE ai_timeline_cache ADD COLUMN model TEXT;
+    `
+  },
+  {
+    version: 7,
+    name: 'ai-cache-issue-id',
+    up: `
+    ALTER TABLE ai_timeline_cache ADD COLUMN issue_id TEXT;
+    CREATE INDEX IF NOT EXISTS idx_ai_cache_issue ON ai_timeline_cache (issue_id);
+    `
+  },
+  {
+    version: 8,
+    name: 'closed-issues',
+    up: `
+    ALTER TABLE issues ADD COLUMN closed_at TEXT;
+    ALTER TABLE issues ADD COLUMN state_reason TEXT;
+    `
+  },
+  {
+    // GitHub time the last successful sync started from; incremental syncs ask for changes since then
+    version: 9,
+    name: 'dataset-sync-time',
+    up: 'ALTER TABLE datasets ADD COLUMN synced_at TEXT'
+  },
+  {
+    // Set when a refresh stopped early, so truncated data is not served as a complete dataset
+    version: 10,
+    name: 'partial-datasets',
+    up: 'ALTER TABLE datasets ADD COLUMN partial INTEGER NOT NULL DEFAULT 0'
+  },
+  {
+    // Pages fetched by a sync that has not finished yet, so it can resume from the last
+    // cursor; and the GITHUB_MAX_PAGES limit when it cut the last refresh short
+    version: 11,
+    name: 'sync-progress',
+    up: `
+      CREATE TABLE IF NOT EXISTS sync_progress (
+        source TEXT NOT NULL,
+        stream TEXT NOT NULL,
+        page INTEGER NOT NULL,
+        end_cursor TEXT,
+        nodes TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        fetched_at INTEGER NOT NULL,
+        PRIMARY KEY (source, stream, page)
+      );
+      ALTER TABLE datasets ADD COLUMN page_limit INTEGER;
+    `
+  },
+  {
+    // Iteration, date, number and text fields next to the single-select values; rows
+    // stored before this were all single-select
+    version: 12,
+    name: 'project-field-types',
+    up: `
+      ALTER TABLE project_field_values ADD COLUMN field_type TEXT NOT NULL DEFAULT 'SINGLE_SELECT';
+      ALTER TABLE project_field_values ADD COLUMN start_date TEXT;
+      ALTER TABLE project_field_values ADD COLUMN duration INTEGER;
+    `
+  },
+  {
+    // Roadmap boards also hold draft issues and pull requests
+    version: 13,
+    name: 'content-types',
+    up: `ALTER TABLE issues ADD COLUMN content_type TEXT NOT NULL DEFAULT 'ISSUE'`
+  },
+  {
+    // Pull requests that reference, are connected to or close an issue
+    version: 14,
+    name: 'linked-pull-requests',
+    up: `
+      CREATE TABLE IF NOT EXISTS linked_pull_requests (
+        source TEXT NOT NULL,
+        issue_id TEXT NOT NULL,
+        pr_id TEXT NOT NULL,
+        number INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        url TEXT NOT NULL,
+        state TEXT NOT NULL,
+        merged_at TEXT,
+        repository TEXT NOT NULL,
+        closes_issue INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (source, issue_id, pr_id)
+      );
+    `
+  },
+  {
+    // Reaction counts per content (THUMBS_UP, HEART, ...) on issues and their comments;
+    // subject_id is the issue id for reactions on the issue itself, otherwise the comment id
+    version: 15,
+    name: 'reactions',
+    up: `
+      CREATE TABLE IF NOT EXISTS reactions (
+        source TEXT NOT NULL,
+        issue_id TEXT NOT NULL,
+        subject_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        count INTEGER NOT NULL,
+        PRIMARY KEY (source, subject_id, content)
+      );
+      CREATE INDEX IF NOT EXISTS idx_reactions_issue ON reactions (source, issue_id);
+    `
+  },
+  {
+    // Parent, sub-issues and tracked issues of roadmap items. Related issues need not be
+    // stored items themselves, so each row keeps what the dashboard shows about them.
+    version: 16,
+    name: 'related-issues',
+    up: `
+      CREATE TABLE IF NOT EXISTS related_issues (
+        source TEXT NOT NULL,
+        issue_id TEXT NOT NULL,
+        related_id TEXT NOT NULL,
+        relation TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        number INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        url TEXT NOT NULL,
+        state TEXT NOT NULL,
+        repository TEXT NOT NULL,
+        assignees TEXT NOT NULL,
+        PRIMARY KEY (source, issue_id, related_id, relation)
+      );
+    `
+  },
+  {
+    // History of dataset refresh jobs started through the jobs API, by requests and by the scheduler
+    version: 17,
+    name: 'refresh-jobs',
+    up: `
+      CREATE TABLE IF NOT EXISTS refresh_jobs (
+        id TEXT PRIMARY KEY,
+        source TEXT NOT NULL,
+        dataset TEXT NOT NULL,
+        full INTEGER NOT NULL DEFAULT 0,
+        triggered_by TEXT NOT NULL,
+        status TEXT NOT NULL,
+        step TEXT,
+        items INTEGER,
+        partial INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        started_at INTEGER NOT NULL,
+        finished_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_refresh_jobs_started ON refresh_jobs (source, dataset, started_at);
+    `
+  },
+  {
+    // Why a model answer failed schema validation, kept for repaired answers too
+    version: 18,
+    name: 'ai-validation-errors',
+    up: `
+      ALTER TABLE ai_timeline_cache ADD COLUMN validation_error TEXT;
+    `
+  },
+  {
+    // Extracted ETAs as JSON date ranges next to their text, filled in for existing items
+    version: 19,
+    name: 'eta-ranges',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE items ADD COLUMN extracted_date_range TEXT;
+        ALTER TABLE items ADD COLUMN extracted_eta_range TEXT;
+      `);
+      const rows = db.prepare(`
+        SELECT it.source, it.dataset, it.issue_id, it.extracted_date, it.extracted_eta, i.created_at FROM items it
+        JOIN issues i ON i.source = it.source AND i.id = it.issue_id
+        WHERE it.extracted_date IS NOT NULL OR it.extracted_eta IS NOT NULL
+      `).all() as Array<{ source: string; dataset: string; issue_id: string; extracted_date: string | null; extracted_eta: string | null; created_at: string }>;
+      const findCommentTime = db.prepare('SELECT created_at FROM comments WHERE source = ? AND issue_id = ? AND url = ?').pluck();
+      const update = db.prepare('UPDATE items SET extracted_date_range = ?, extracted_eta_range = ? WHERE source = ? AND dataset = ? AND issue_id = ?');
+      for (const row of rows) {
+        const eta = row.extracted_eta ? JSON.parse(row.extracted_eta) : null;
+        const dateRange = row.extracted_date ? normalizeEta(row.extracted_date, row.created_at) : null;
+        const etaRange = eta?.date ? normalizeEta(eta.date, findCommentTime.get(row.source, row.issue_id, eta.url) as string | undefined ?? row.created_at) : null;
+        update.run(dateRange && JSON.stringify(dateRange), etaRange && JSON.stringify(etaRange), row.source, row.dataset, row.issue_id);
+      }
+    }
+  }
+];
+
+function ensureVersionTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  ensureVersionTable(db);
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+// Apply every pending migration in order. A failing migration rolls back on its own and
+// stops the run, leaving the database at the last version that succeeded.
+export function runMigrations(db: Database.Database): void {
+  const currentVersion = getSchemaVersion(db);
+  const latestVersion = migrations[migrations.length - 1].version;
+  if (currentVersion > latestVersion) {
+    throw new Error(`Database schema is at version ${currentVersion}, newer than this build supports (${latestVersion})`);
+  }
+
+  const recordVersion = db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)');
+  for (const migration of migrations) {
+    if (migration.version <= currentVersion) continue;
+
+    console.log(`Applying database migration ${migration.version} (${migration.name})...`);
+    db.transaction(() => {
+      if (typeof migration.up === 'string') {
+        db.exec(migration.up);
+      } else {
+        migration.up(db);
+      }
+      recordVersion.run(migration.version, migration.name, new Date().toISOString());
+    })();
+  }
+}
+
+// Every known migration with the time it was applied, or null when it is still pending
+export function getMigrationStatus(db: Database.Database): MigrationStatus[] {
+  ensureVersionTable(db);
+  const applied = new Map((db.prepare('SELECT version, applied_at FROM schema_version').all() as Array<{ version: number; applied_at: string }>)
+    .map(row => [row.version, row.applied_at]));
+
+  return migrations.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.get(migration.version) || null
+  }));
+}
@@ -0,0 +1,131 @@
+import { db } from './db.js';
+
+// Resumable cursor pagination for GitHub connections. Every page is saved to sync_progress
+// together with the cursor after it, so a sync that fails or is interrupted by a restart
+// continues from the last saved page the next time instead of starting over. The saved
+// pages are deleted once the stream has been read to the end.
+
+export interface Page<T> {
+  nodes: T[];
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+}
+
+export interface PaginationResult<T> {
+  nodes: T[];
+  // False when a page failed and `allowPartial` let the fetch end early, or the page limit did
+  complete: boolean;
+  // GITHUB_MAX_PAGES when that limit stopped the fetch before the last page, otherwise null
+  pageLimit: number | null;
+  // When the first page was requested, which is earlier than this call when it resumed;
+  // changes made after this time may be missing from the pages read before them
+  startedAt: string;
+}
+
+// Optional safety limit on the pages read from one stream per fetch; unset or 0 reads
+// everything. A stream cut short by it resumes after its last page on the next fetch.
+export const MAX_PAGES = parseInt(process.env.GITHUB_MAX_PAGES || '0', 10) || 0;
+
+// Saved pages older than this are discarded rather than resumed, as they are out of date
+const RESUME_MAX_AGE = 60 * 60 * 1000;
+
+interface ProgressRow {
+  page: number;
+  end_cursor: string | null;
+  nodes: string;
+  started_at: number;
+  fetched_at: number;
+}
+
+function loadProgress(sourceId: string, stream: string): ProgressRow[] {
+  const rows = db.prepare('SELECT page, end_cursor, nodes, started_at, fetched_at FROM sync_progress WHERE source = ? AND stream = ? ORDER BY page')
+    .all(sourceId, stream) as ProgressRow[];
+  if (rows.length > 0 && Date.now() - rows[rows.length - 1].fetched_at > RESUME_MAX_AGE) {
+    clearProgress(sourceId, stream);
+    return [];
+  }
+  return rows;
+}
+
+function clearProgress(sourceId: string, stream: string): void {
+  db.prepare('DELETE FROM sync_progress WHERE source = ? AND stream = ?').run(sourceId, stream);
+}
+
+// Settle with `promise`, or reject with the signal's reason as soon as it is aborted, so a
+// page stuck in rate-limit waits and retries does not hold up a cancellation. The request
+// itself still runs to the end; its result is ignored.
+function unlessAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  signal.throwIfAborted();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// Drop unfinished syncs of a dataset; streams are named `<dataset>:<what>`
+export function clearSyncProgress(sourceId: string, dataset?: string): number {
+  return dataset
+    ? db.prepare(`DELETE FROM sync_progress WHERE source = ? AND stream LIKE ? || ':%'`).run(sourceId, dataset).changes
+    : db.prepare('DELETE FROM sync_progress WHERE source = ?').run(sourceId).changes;
+}
+
+// Read a connection page by page. `stream` identifies the query and its parameters: saved
+// progress is only resumed by a fetch with the same source and stream. A failed page
+// throws, or with `allowPartial` ends the fetch with what was collected; either way the
+// pages saved so far are kept for the next attempt. An aborted `signal` stops the fetch
+// right away with the signal's reason, also keeping the saved pages.
+export async function paginate<T>(
+  sourceId: string,
+  stream: string,
+  fetchPage: (cursor: string | null, page: number) => Promise<Page<T>>,
+  { allowPartial = false, signal }: { allowPartial?: boolean; signal?: AbortSignal } = {}
+): Promise<PaginationResult<T>> {
+  const saved = loadProgress(sourceId, stream);
+  const nodes: T[] = saved.flatMap(row => JSON.parse(row.nodes));
+  let cursor = saved.length > 0 ? saved[saved.length - 1].end_cursor : null;
+  let page = saved.length;
+  let pagesRead = 0;
+  let hasNextPage = true;
+  const startedAt = saved.length > 0 ? saved[0].started_at : Date.now();
+  if (saved.length > 0) {
+    console.log(`Resuming ${sourceId} ${stream} after page ${page} (${nodes.length} nodes saved)`);
+  }
+
+  const finish = (complete: boolean, pageLimit: number | null): PaginationResult<T> =>
+    ({ nodes, complete, pageLimit, startedAt: new Date(startedAt).toISOString() });
+  const saveProgress = db.prepare(`
+    INSERT OR REPLACE INTO sync_progress (source, stream, page, end_cursor, nodes, started_at, fetched_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  while (hasNextPage) {
+    signal?.throwIfAborted();
+    if (MAX_PAGES > 0 && pagesRead >= MAX_PAGES) {
+      console.log(`Stopped ${sourceId} ${stream} at the GITHUB_MAX_PAGES limit (${MAX_PAGES} pages), resuming after page ${page} next time`);
+      return finish(false, MAX_PAGES);
+    }
+
+    let result: Page<T>;
+    try {
+      result = await unlessAborted(fetchPage(cursor, page + 1), signal);
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      console.error(`Error fetching ${sourceId} ${stream} page ${page + 1}:`, error);
+      if (!allowPartial) throw error;
+      return finish(false, null);
+    }
+
+    page++;
+    pagesRead++;
+    nodes.push(...result.nodes);
+    hasNextPage = result.pageInfo.hasNextPage;
+    cursor = result.pageInfo.endCursor;
+    if (hasNextPage) {
+      saveProgress.run(sourceId, stream, page, cursor, JSON.stringify(result.nodes), startedAt, Date.now());
+    }
+  }
+
+  clearProgress(sourceId, stream);
+  return finish(true, null);
+}
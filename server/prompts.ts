@@ -0,0 +1,202 @@
+import { NamedSchema } from './schema.js';
+
+// Prompt builders for the chat-based LLM providers
+
+// Part of every AI cache key. Bump a version whenever its prompt changes so answers
+// produced by the old prompt are not served from the cache.
+export const PROMPT_VERSIONS = {
+  availability: 'availability-v1',
+  eta: 'eta-v2',
+  analysis: 'analysis-v2'
+} as const;
+
+export type PromptKind = keyof typeof PROMPT_VERSIONS;
+
+export interface LlmComment {
+  author: string;
+  createdAt: string;
+  body: string;
+}
+
+export interface AvailabilityInput {
+  title: string;
+  body: string;
+}
+
+export interface EtaInput {
+  title: string;
+  // Assignee comments, newest first
+  comments: LlmComment[];
+}
+
+export interface AnalysisInput {
+  title: string;
+  body: string;
+  // Most recent comments, newest first
+  comments: LlmComment[];
+}
+
+export interface ChatPrompt {
+  system: string;
+  user: string;
+  maxTokens: number;
+  // Shape of the JSON answer, for prompts that ask for one
+  schema?: NamedSchema;
+}
+
+// A prompt whose answer must be JSON matching `schema`
+export type JsonPrompt = ChatPrompt & { schema: NamedSchema };
+
+const ETA_SCHEMA: NamedSchema = {
+  name: 'eta',
+  schema: {
+    type: 'object',
+    properties: {
+      date: { type: 'string', description: 'The extracted date, or "None"' },
+      text: { type: 'string', description: 'The sentence or phrase containing the date, or "None"' }
+    },
+    required: ['date', 'text'],
+    additionalProperties: false
+  }
+};
+
+const ANALYSIS_SCHEMA: NamedSchema = {
+  name: 'issue_analysis',
+  schema: {
+    type: 'object',
+    properties: {
+      currentStatus: { type: 'string' },
+      nextSteps: { type: 'string' },
+      analysis: {
+        type: 'object',
+        properties: {
+          isKnownIssue: { type: 'boolean' },
+          isExpectedBehaviour: { type: 'boolean' },
+          shouldClose: { type: 'boolean' }
+        },
+        required: ['isKnownIssue', 'isExpectedBehaviour', 'shouldClose'],
+        additionalProperties: false
+      }
+    },
+    required: ['currentStatus', 'nextSteps', 'analysis'],
+    additionalProperties: false
+  }
+};
+
+export function buildAvailabilityPrompt({ title, body }: AvailabilityInput): ChatPrompt {
+  return {
+    system: 'You are a helpful assistant that extracts timeline information from technical roadmap documents. Be precise and concise.',
+    maxTokens: 100,
+    user: `You are analyzing Azure AKS roadmap items to extract customer timeline information.
+
+Task: Extract any dates or timeframes when this feature will be available to customers from the issue body text below.
+
+Look for:
+- Specific dates (e.g., "March 2024", "Q2 2024")
+- Relative timeframes (e.g., "next quarter", "later this year")
+- Release stages with timing (e.g., "preview in Q1", "GA in summer")
+- Any customer-facing availability information
+
+Issue Title: ${title}
+
+Issue Body:
+${body}
+
+Instructions:
+- Only extract information about when the feature will be available to customers
+- Return the most specific timeline mentioned
+- If multiple timelines are mentioned, prefer the most recent/final availability date
+- Return "None" if no customer timeline is mentioned
+- Keep your response concise (max 50 characters)
+
+Timeline:`
+  };
+}
+
+export function buildEtaPrompt({ title, comments }: EtaInput): JsonPrompt {
+  const combinedComments = comments
+    .map((comment, index) => `Comment ${index + 1} by ${comment.author} (${comment.createdAt}):\n${comment.body}`)
+    .join('\n\n---\n\n');
+
+  return {
+    system: 'You are a helpful assistant that extracts timeline information from technical discussions. Always respond with valid JSON only.',
+    maxTokens: 200,
+    schema: ETA_SCHEMA,
+    user: `You are analyzing Azure AKS roadmap issue comments to extract the most recent ETA/timeline from Microsoft team members.
+
+Task: Find the LATEST/MOST RECENT estimated timeline or delivery date mentioned by Microsoft team members in these comments.
+
+Look for:
+- Specific dates (e.g., "March 2024", "Q2 2024", "by end of year")
+- Relative timeframes (e.g., "next quarter", "later this year", "in a few months")
+- Release stages with timing (e.g., "preview in Q1", "GA in summer")
+- Target dates, delivery estimates, expected timelines
+
+Issue Title: ${title}
+
+Microsoft Team Comments (newest first):
+${combinedComments}
+
+Instructions:
+- Only extract information about when the feature will be available to customers
+- Return the MOST RECENT timeline mentioned (prefer newer comments over older ones)
+- If multiple timelines are mentioned in the same comment, prefer the most specific one
+- Return "None" if no timeline is mentioned
+- Respond with ONLY a JSON object in this exact format:
+{"date": "extracted date or None", "text": "the specific sentence/phrase containing the date or None"}
+
+Examples:
+{"date": "Q2 2024", "text": "We're targeting Q2 2024 for general availability"}
+{"date": "None", "text": "None"}
+
+JSON Response:`
+  };
+}
+
+export function buildAnalysisPrompt({ title, body, comments }: AnalysisInput): JsonPrompt {
+  const recentComments = comments
+    .map((comment, index) => `Comment ${index + 1} by ${comment.author} (${comment.createdAt}):\n${comment.body}`)
+    .join('\n\n---\n\n');
+
+  return {
+    system: 'You are a helpful assistant that analyzes GitHub issues. Always respond with valid JSON only.',
+    maxTokens: 500,
+    schema: ANALYSIS_SCHEMA,
+    user: `You are analyzing Azure AKS GitHub issues to provide helpful insights. Please analyze this issue and provide:
+
+1. Current Status: A brief 1-paragraph summary of what's happening with this issue
+2. Next Steps: A brief 1-paragraph summary of what should happen next
+3. Analysis: Three true/false determinations:
+   - Is this a known issue? (true if it's a commonly reported problem or duplicate)
+   - Is this expected behaviour? (true if this is working as designed, not a bug)
+   - Should we close this issue? (true if it appears resolved, duplicate, or not actionable)
+
+Issue Title: ${title}
+
+Issue Body:
+${body}
+
+Recent Comments:
+${recentComments}
+
+Please respond with ONLY a JSON object in this exact format:
+{
+  "currentStatus": "Brief paragraph about current status",
+  "nextSteps": "Brief paragraph about next steps",
+  "analysis": {
+    "isKnownIssue": false,
+    "isExpectedBehaviour": false,
+    "shouldClose": false
+  }
+}`
+  };
+}
+
+// Follow-up asking the model to fix an answer that did not match the prompt's schema
+export function buildRepairMessage(schema: NamedSchema, errors: string[]): string {
+  return `Your response is not valid:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with ONLY a JSON object matching this JSON schema, with no other text:
+${JSON.stringify(schema.schema)}`;
+}
@@ -0,0 +1,120 @@
+import { db } from './db.js';
+import { average, median } from './stats.js';
+
+// Resolution statistics for the issues dataset: how quickly issues get closed and what
+// share of the workload is being closed, overall and per label and assignee.
+
+export interface ResolutionStats {
+  // Issues closed within the window
+  closed: number;
+  // Issues open right now
+  open: number;
+  // Issues created within the window
+  opened: number;
+  // closed / (closed + open), or null when there is nothing to measure
+  closureRate: number | null;
+  averageDaysToClose: number | null;
+  medianDaysToClose: number | null;
+  // Closed issues per close reason (COMPLETED, NOT_PLANNED, DUPLICATE)
+  closeReasons: Record<string, number>;
+}
+
+export interface ResolutionReport {
+  since: string;
+  until: string;
+  overall: ResolutionStats;
+  byLabel: Array<ResolutionStats & { label: string }>;
+  byAssignee: Array<ResolutionStats & { assignee: string }>;
+}
+
+interface IssueRow {
+  id: string;
+  state: string | null;
+  created_at: string;
+  closed_at: string | null;
+  state_reason: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function summarize(rows: IssueRow[], since: number, until: number): ResolutionStats {
+  const inWindow = (value: string | null) => {
+    if (!value) return false;
+    const time = new Date(value).getTime();
+    return time >= since && time <= until;
+  };
+
+  const closed = rows.filter(row => row.state === 'CLOSED' && inWindow(row.closed_at));
+  const open = rows.filter(row => row.state !== 'CLOSED').length;
+  const daysToClose = closed.map(row => (new Date(row.closed_at!).getTime() - new Date(row.created_at).getTime()) / DAY_MS);
+
+  const closeReasons: Record<string, number> = {};
+  for (const row of closed) {
+    const reason = row.state_reason || 'UNKNOWN';
+    closeReasons[reason] = (closeReasons[reason] || 0) + 1;
+  }
+
+  return {
+    closed: closed.length,
+    open,
+    opened: rows.filter(row => inWindow(row.created_at)).length,
+    closureRate: closed.length + open > 0 ? Math.round(closed.length / (closed.length + open) * 1000) / 1000 : null,
+    averageDaysToClose: average(daysToClose),
+    medianDaysToClose: median(daysToClose),
+    closeReasons
+  };
+}
+
+// Group issues by each value they carry; an issue with two labels counts towards both
+function groupBy(rows: IssueRow[], values: Map<string, string[]>): Map<string, IssueRow[]> {
+  const groups = new Map<string, IssueRow[]>();
+  for (const row of rows) {
+    for (const value of values.get(row.id) || []) {
+      if (!groups.has(value)) groups.set(value, []);
+      groups.get(value)!.push(row);
+    }
+  }
+  return groups;
+}
+
+function loadValues(sql: string, sourceId: string): Map<string, string[]> {
+  const values = new Map<string, string[]>();
+  for (const row of db.prepare(sql).all(sourceId) as Array<{ issue_id: string; value: string }>) {
+    if (!values.has(row.issue_id)) values.set(row.issue_id, []);
+    values.get(row.issue_id)!.push(row.value);
+  }
+  return values;
+}
+
+export function getResolutionStats(sourceId: string, since: number, until: number = Date.now()): ResolutionReport {
+  const rows = db.prepare(`
+    SELECT i.id, i.state, i.created_at, i.closed_at, i.state_reason FROM items it
+    JOIN issues i ON i.source = it.source AND i.id = it.issue_id
+    WHERE it.source = ? AND it.dataset = 'issues'
+  `).all(sourceId) as IssueRow[];
+
+  const labels = loadValues(`
+    SELECT l.issue_id, l.name AS value FROM labels l
+    JOIN items it ON it.source = l.source AND it.issue_id = l.issue_id AND it.dataset = 'issues'
+    WHERE l.source = ?
+  `, sourceId);
+  const assignees = loadValues(`
+    SELECT a.issue_id, a.login AS value FROM assignees a
+    JOIN items it ON it.source = a.source AND it.issue_id = a.issue_id AND it.dataset = 'issues'
+    WHERE a.source = ?
+  `, sourceId);
+
+  const byClosed = (a: ResolutionStats, b: ResolutionStats) => b.closed - a.closed || b.open - a.open;
+
+  return {
+    since: new Date(since).toISOString(),
+    until: new Date(until).toISOString(),
+    overall: summarize(rows, since, until),
+    byLabel: [...groupBy(rows, labels)]
+      .map(([label, group]) => ({ label, ...summarize(group, since, until) }))
+      .sort(byClosed),
+    byAssignee: [...groupBy(rows, assignees)]
+      .map(([assignee, group]) => ({ assignee, ...summarize(group, since, until) }))
+      .sort(byClosed)
+  };
+}
@@ -0,0 +1,66 @@
+import { Dataset } from './types.js';
+
+// Scheduled dataset refreshes. A timer refreshes every dataset that is due so most
+// visitors never see stale data at all; requests for stale data start a refresh job of
+// their own (see jobs.ts), which the scheduler joins when it gets there.
+
+// Minutes between scheduled refreshes per dataset; 0 leaves refreshes to incoming requests
+export const REFRESH_MINUTES: Record<Dataset, number> = {
+  roadmap: parseRefreshMinutes(process.env.ROADMAP_REFRESH_MINUTES),
+  issues: parseRefreshMinutes(process.env.ISSUES_REFRESH_MINUTES)
+};
+
+// A failed scheduled refresh waits this long before the next attempt instead of the
+// next tick, so an outage is not hammered every minute
+const RETRY_AFTER_FAILURE = 15 * 60 * 1000;
+const TICK_MS = 60 * 1000;
+
+const failedAt = new Map<string, number>();
+
+function parseRefreshMinutes(value: string | undefined): number {
+  const minutes = parseInt(value ?? '60', 10);
+  return isNaN(minutes) || minutes < 0 ? 60 : minutes;
+}
+
+// Check every minute for datasets that are due (`isDue`) and refresh them one at a time,
+// so scheduled work never competes with itself for the GitHub rate limit or the model
+export function startScheduler(
+  targets: Array<{ sourceId: string; dataset: Dataset }>,
+  isDue: (sourceId: string, dataset: Dataset) => boolean,
+  refresh: (sourceId: string, dataset: Dataset) => Promise<void>
+): void {
+  const scheduled = targets.filter(({ dataset }) => REFRESH_MINUTES[dataset] > 0);
+  if (scheduled.length === 0) {
+    console.log('Scheduled refreshes are turned off');
+    return;
+  }
+  console.log(`Scheduled refreshes: roadmap every ${REFRESH_MINUTES.roadmap || '-'} min, issues every ${REFRESH_MINUTES.issues || '-'} min`);
+
+  let ticking = false;
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      for (const { sourceId, dataset } of scheduled) {
+        const key = `${sourceId}:${dataset}`;
+        const lastFailure = failedAt.get(key);
+        if (lastFailure && Date.now() - lastFailure < RETRY_AFTER_FAILURE) continue;
+        if (!isDue(sourceId, dataset)) continue;
+
+        console.log(`Scheduled refresh of ${sourceId} ${dataset}`);
+        try {
+          await refresh(sourceId, dataset);
+          failedAt.delete(key);
+        } catch (error) {
+          failedAt.set(key, Date.now());
+          console.error(`Scheduled refresh of ${sourceId} ${dataset} failed:`, error);
+        }
+      }
+    } finally {
+      ticking = false;
+    }
+  };
+
+  setInterval(tick, TICK_MS);
+  void tick();
+}
@@ -0,0 +1,51 @@
+// A small subset of JSON Schema for the AI outputs: objects with fixed properties, strings,
+// booleans and string enums. The same schema is sent to providers that support structured
+// output and checked against every response, so it sticks to what OpenAI strict mode
+// accepts: every property required and no additional properties.
+
+export type JsonSchema =
+  | { type: 'string'; enum?: string[]; description?: string }
+  | { type: 'boolean'; description?: string }
+  | { type: 'object'; properties: Record<string, JsonSchema>; required: string[]; additionalProperties: false; description?: string };
+
+export interface NamedSchema {
+  name: string;
+  schema: JsonSchema;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// Every way `value` breaks `schema`, as "path: problem" strings; empty when it is valid
+export function validateJson(schema: JsonSchema, value: unknown, path = '$'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected string, got ${describe(value)}`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: expected one of ${schema.enum.join(', ')}, got "${value}"`];
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describe(value)}`];
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected object, got ${describe(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required) {
+        if (!(key in record)) errors.push(`${path}.${key}: missing`);
+      }
+      for (const [key, propertyValue] of Object.entries(record)) {
+        const property = schema.properties[key];
+        if (!property) {
+          errors.push(`${path}.${key}: unexpected property`);
+        } else {
+          errors.push(...validateJson(property, propertyValue, `${path}.${key}`));
+        }
+      }
+      return errors;
+    }
+  }
+}
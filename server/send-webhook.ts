@@ -0,0 +1,37 @@
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { signPayload } from './webhooks.js';
+
+// Usage: tsx server/send-webhook.ts <event> <payload.json> [url]
+// Signs a payload with GITHUB_WEBHOOK_SECRET the way GitHub does and posts it to the local
+// webhook endpoint, so deliveries can be tested without exposing the server to GitHub.
+
+dotenv.config();
+
+const [event, payloadPath, url = `http://localhost:${process.env.PORT || 3001}/api/webhooks/github`] = process.argv.slice(2);
+const secret = process.env.GITHUB_WEBHOOK_SECRET;
+
+if (!event || !payloadPath) {
+  console.error('Usage: tsx server/send-webhook.ts <event> <payload.json> [url]');
+  process.exit(1);
+}
+if (!secret) {
+  console.error('GITHUB_WEBHOOK_SECRET is not set');
+  process.exit(1);
+}
+
+const body = fs.readFileSync(payloadPath);
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'X-GitHub-Event': event,
+    'X-GitHub-Delivery': `local-${Date.now()}`,
+    'X-Hub-Signature-256': signPayload(secret, body)
+  },
+  body
+});
+
+console.log(`${response.status} ${response.statusText}`);
+console.log(await response.text());
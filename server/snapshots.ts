@@ -0,0 +1,179 @@
+import { db } from './db.js';
+import { Dataset } from './types.js';
+
+// Every dataset refresh records a snapshot of each item's tracked state, so the
+// changes endpoints can tell what moved between two points in time.
+
+interface SnapshotRow {
+  id: number;
+  timestamp: number;
+}
+
+interface SnapshotItem {
+  issue_id: string;
+  title: string;
+  url: string;
+  status: string | null;
+  labels: string;
+  assignees: string;
+}
+
+export interface ItemRef {
+  id: string;
+  title: string;
+  url: string;
+}
+
+export interface ItemChanges {
+  since: string;
+  // The snapshots being compared; null when nothing has been recorded yet
+  from: string | null;
+  to: string | null;
+  added: ItemRef[];
+  removed: ItemRef[];
+  statusChanges: Array<ItemRef & { from: string | null; to: string | null }>;
+  labelChanges: Array<ItemRef & { added: string[]; removed: string[] }>;
+  assigneeChanges: Array<ItemRef & { added: string[]; removed: string[] }>;
+  newComments: Array<ItemRef & { count: number; latestAt: string }>;
+}
+
+// Called inside the dataset transaction after the items have been written
+export function recordSnapshot(sourceId: string, dataset: Dataset, timestamp: number): void {
+  const { lastInsertRowid } = db.prepare(`
+    INSERT INTO snapshots (source, dataset, timestamp, item_count)
+    VALUES (?, ?, ?, (SELECT COUNT(*) FROM items WHERE source = ? AND dataset = ?))
+  `).run(sourceId, dataset, timestamp, sourceId, dataset);
+
+  // Label and assignee names are stored as JSON arrays so a snapshot stays readable on its own.
+  // Roadmap items are tracked by board status, repository issues by OPEN/CLOSED state.
+  db.prepare(`
+    INSERT INTO snapshot_items (snapshot_id, issue_id, title, url, status, labels, assignees, comment_count)
+    SELECT ?, i.issue_id, iss.title, iss.url, CASE WHEN i.dataset = 'issues' THEN iss.state ELSE i.status END,
+      (SELECT json_group_array(name) FROM (SELECT name FROM labels WHERE source = i.source AND issue_id = i.issue_id ORDER BY name)),
+      (SELECT json_group_array(login) FROM (SELECT login FROM assignees WHERE source = i.source AND issue_id = i.issue_id ORDER BY login)),
+      iss.comment_count
+    FROM items i
+    JOIN issues iss ON iss.source = i.source AND iss.id = i.issue_id
+    WHERE i.source = ? AND i.dataset = ?
+  `).run(lastInsertRowid, sourceId, dataset);
+
+  const retentionDays = parseInt(process.env.SNAPSHOT_RETENTION_DAYS || '90', 10);
+  if (retentionDays > 0) {
+    pruneSnapshots(sourceId, dataset, timestamp - retentionDays * 24 * 60 * 60 * 1000);
+  }
+}
+
+// Drop snapshots older than the cutoff, always keeping the most recent one before it as a baseline
+function pruneSnapshots(sourceId: string, dataset: Dataset, cutoff: number): void {
+  const baseline = db.prepare(`
+    SELECT id FROM snapshots WHERE source = ? AND dataset = ? AND timestamp < ?
+    ORDER BY timestamp DESC LIMIT 1
+  `).get(sourceId, dataset, cutoff) as { id: number } | undefined;
+  if (!baseline) return;
+
+  const staleIds = `SELECT id FROM snapshots WHERE source = ? AND dataset = ? AND timestamp < ? AND id != ?`;
+  db.prepare(`DELETE FROM snapshot_items WHERE snapshot_id IN (${staleIds})`).run(sourceId, dataset, cutoff, baseline.id);
+  db.prepare(`DELETE FROM snapshots WHERE id IN (${staleIds})`).run(sourceId, dataset, cutoff, baseline.id);
+}
+
+function loadSnapshotItems(snapshotId: number): Map<string, SnapshotItem> {
+  const rows = db.prepare(`
+    SELECT issue_id, title, url, status, labels, assignees
+    FROM snapshot_items WHERE snapshot_id = ?
+  `).all(snapshotId) as SnapshotItem[];
+  return new Map(rows.map(row => [row.issue_id, row]));
+}
+
+function toRef(item: SnapshotItem): ItemRef {
+  return { id: item.issue_id, title: item.title, url: item.url };
+}
+
+function diffLists(before: string, after: string): { added: string[]; removed: string[] } {
+  const oldList: string[] = JSON.parse(before || '[]');
+  const newList: string[] = JSON.parse(after || '[]');
+  return {
+    added: newList.filter(name => !oldList.includes(name)),
+    removed: oldList.filter(name => !newList.includes(name))
+  };
+}
+
+// Compare the latest snapshot with the state at `since`. When no snapshot is that old,
+// the earliest one is used as the baseline instead.
+export function getChanges(sourceId: string, dataset: Dataset, since: number): ItemChanges {
+  const changes: ItemChanges = {
+    since: new Date(since).toISOString(),
+    from: null,
+    to: null,
+    added: [],
+    removed: [],
+    statusChanges: [],
+    labelChanges: [],
+    assigneeChanges: [],
+    newComments: []
+  };
+
+  const latest = db.prepare(`
+    SELECT id, timestamp FROM snapshots WHERE source = ? AND dataset = ?
+    ORDER BY timestamp DESC, id DESC LIMIT 1
+  `).get(sourceId, dataset) as SnapshotRow | undefined;
+  if (!latest) return changes;
+
+  const baseline = (db.prepare(`
+    SELECT id, timestamp FROM snapshots WHERE source = ? AND dataset = ? AND timestamp <= ?
+    ORDER BY timestamp DESC, id DESC LIMIT 1
+  `).get(sourceId, dataset, since) || db.prepare(`
+    SELECT id, timestamp FROM snapshots WHERE source = ? AND dataset = ?
+    ORDER BY timestamp ASC, id ASC LIMIT 1
+  `).get(sourceId, dataset)) as SnapshotRow;
+
+  changes.from = new Date(baseline.timestamp).toISOString();
+  changes.to = new Date(latest.timestamp).toISOString();
+
+  const before = loadSnapshotItems(baseline.id);
+  const after = loadSnapshotItems(latest.id);
+
+  for (const [issueId, item] of after) {
+    const previous = before.get(issueId);
+    if (!previous) {
+      changes.added.push(toRef(item));
+      continue;
+    }
+
+    if (previous.status !== item.status) {
+      changes.statusChanges.push({ ...toRef(item), from: previous.status, to: item.status });
+    }
+    const labelDiff = diffLists(previous.labels, item.labels);
+    if (labelDiff.added.length || labelDiff.removed.length) {
+      changes.labelChanges.push({ ...toRef(item), ...labelDiff });
+    }
+    const assigneeDiff = diffLists(previous.assignees, item.assignees);
+    if (assigneeDiff.added.length || assigneeDiff.removed.length) {
+      changes.assigneeChanges.push({ ...toRef(item), ...assigneeDiff });
+    }
+  }
+
+  for (const [issueId, item] of before) {
+    if (!after.has(issueId)) {
+      changes.removed.push(toRef(item));
+    }
+  }
+
+  // Comments are stored with their creation time, so new ones come straight from the comments table
+  const commentRows = db.prepare(`
+    SELECT c.issue_id, COUNT(*) AS count, MAX(c.created_at) AS latest_at
+    FROM comments c
+    JOIN items i ON i.source = c.source AND i.issue_id = c.issue_id AND i.dataset = ?
+    WHERE c.source = ? AND c.created_at > ?
+    GROUP BY c.issue_id
+    ORDER BY latest_at DESC
+  `).all(dataset, sourceId, changes.since) as Array<{ issue_id: string; count: number; latest_at: string }>;
+
+  for (const row of commentRows) {
+    const item = after.get(row.issue_id);
+    if (item) {
+      changes.newComments.push({ ...toRef(item), count: row.count, latestAt: row.latest_at });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+
+// A data source is one GitHub project board plus the repository whose issues we analyze
+export interface DataSource {
+  id: string;
+  name: string;
+  org: string;
+  projectNumber: number;
+  repoOwner: string;
+  repoName: string;
+}
+
+// Used when no sources file or SOURCES env var is provided
+const DEFAULT_SOURCES: DataSource[] = [
+  {
+    id: 'aks',
+    name: 'Azure AKS',
+    org: 'Azure',
+    projectNumber: 685,
+    repoOwner: 'Azure',
+    repoName: 'AKS'
+  }
+];
+
+// Source ids are the first segment of dashboard paths (/<id>/roadmap), so they cannot take
+// the paths of the Cache page, the API or the built assets
+const RESERVED_IDS = ['admin', 'api', 'assets'];
+
+function parseSource(raw: any, index: number): DataSource {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Source #${index + 1} must be an object`);
+  }
+
+  // Accept either "repo": "owner/name" or separate repoOwner/repoName fields
+  let repoOwner = raw.repoOwner;
+  let repoName = raw.repoName;
+  if (typeof raw.repo === 'string') {
+    [repoOwner, repoName] = raw.repo.split('/');
+  }
+
+  const source: DataSource = {
+    id: String(raw.id || '').trim(),
+    name: String(raw.name || raw.id || '').trim(),
+    org: String(raw.org || '').trim(),
+    projectNumber: Number(raw.projectNumber),
+    repoOwner: String(repoOwner || '').trim(),
+    repoName: String(repoName || '').trim()
+  };
+
+  if (!/^[a-zA-Z0-9_-]+$/.test(source.id)) {
+    throw new Error(`Source #${index + 1} needs an "id" made of letters, digits, "-" or "_"`);
+  }
+  if (RESERVED_IDS.includes(source.id.toLowerCase())) {
+    throw new Error(`Source id "${source.id}" is reserved (${RESERVED_IDS.join(', ')} are used by the dashboard)`);
+  }
+  if (!source.org) {
+    throw new Error(`Source "${source.id}" is missing "org"`);
+  }
+  if (!Number.isInteger(source.projectNumber) || source.projectNumber <= 0) {
+    throw new Error(`Source "${source.id}" needs a positive integer "projectNumber"`);
+  }
+  if (!source.repoOwner || !source.repoName) {
+    throw new Error(`Source "${source.id}" needs "repo" in the form "owner/name"`);
+  }
+
+  return source;
+}
+
+// Load sources from the SOURCES env var (inline JSON), the file named by SOURCES_FILE,
+// or sources.json in the working directory, falling back to the Azure AKS defaults
+export function loadSources(): DataSource[] {
+  let raw: string | null = null;
+  let origin = 'defaults';
+
+  if (process.env.SOURCES) {
+    raw = process.env.SOURCES;
+    origin = 'SOURCES env var';
+  } else {
+    const filePath = process.env.SOURCES_FILE || path.join(process.cwd(), 'sources.json');
+    if (fs.existsSync(filePath)) {
+      raw = fs.readFileSync(filePath, 'utf8');
+      origin = filePath;
+    } else if (process.env.SOURCES_FILE) {
+      throw new Error(`Sources file not found: ${filePath}`);
+    }
+  }
+
+  if (raw === null) {
+    console.log('Using default data source configuration');
+    return DEFAULT_SOURCES;
+  }
+
+  const parsed = JSON.parse(raw);
+  const list = Array.isArray(parsed) ? parsed : parsed.sources;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error(`No sources defined in ${origin}`);
+  }
+
+  const sources = list.map(parseSource);
+  const ids = new Set<string>();
+  for (const source of sources) {
+    if (ids.has(source.id)) {
+      throw new Error(`Duplicate source id "${source.id}" in ${origin}`);
+    }
+    ids.add(source.id);
+  }
+
+  console.log(`Loaded ${sources.length} data source(s) from ${origin}: ${sources.map(s => s.id).join(', ')}`);
+  return sources;
+}
@@ -0,0 +1,766 @@
+import { db } from './db.js';
+import { AKSIssue, ChildIssue, Dataset, EtaRange, GitHubComment, ItemType, LinkedPullRequest, ProjectFieldValue, ReactionCounts, RelatedIssue, RoadmapItem } from './types.js';
+import { recordSnapshot } from './snapshots.js';
+import { getStatusHistory, recordStatusTransitions } from './transitions.js';
+import { getSlips, recordEtaHistory } from './eta.js';
+import { normalizeEta } from './timelines.js';
+import { clearSyncProgress } from './pagination.js';
+import { getDemand } from './demand.js';
+
+// Repository layer over the normalized tables in db.ts. The API routes read and write
+// datasets through these functions instead of touching SQL directly.
+
+export interface DatasetInfo {
+  timestamp: number;
+  lastUpdated: string;
+  // When the last successful sync started; null for data saved before incremental sync existed
+  syncedAt: string | null;
+  // The last refresh stopped early and the dataset may be missing items
+  partial: boolean;
+  // The GITHUB_MAX_PAGES limit when it cut the last refresh short, otherwise null
+  pageLimit: number | null;
+}
+
+export interface SaveOptions {
+  // When the data was saved; defaults to now
+  timestamp?: number;
+  // When the fetch that produced the data started; the next incremental sync asks GitHub
+  // for everything updated since then
+  syncedAt?: string | null;
+  // The fetch stopped early after GitHub errors
+  partial?: boolean;
+  // The GITHUB_MAX_PAGES limit when the fetch stopped there
+  pageLimit?: number | null;
+}
+
+// Optional SQL-side filters; empty or missing lists match everything
+export interface ItemFilters {
+  // Issue node ids
+  ids?: string[];
+  statuses?: string[];
+  // Issue states (OPEN, CLOSED)
+  states?: string[];
+  // Content types (ISSUE, PULL_REQUEST, DRAFT_ISSUE)
+  types?: string[];
+  // Only open issues with a merged linked pull request
+  mergedPrOpen?: boolean;
+  labels?: string[];
+  assignees?: string[];
+}
+
+// Data fetched alongside an item that is stored but not part of the API response
+export interface ItemDetails {
+  comments: GitHubComment[];
+  // Set when `comments` holds only some of the item's comments (closed issues fetch the
+  // latest few); otherwise stored comments missing from it were deleted on GitHub
+  partialComments?: boolean;
+  fieldValues?: Record<string, ProjectFieldValue>;
+}
+
+interface IssueContent {
+  id: string;
+  type?: ItemType;
+  title: string;
+  url: string;
+  body: string;
+  state?: string | null;
+  closedAt?: string | null;
+  stateReason?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  lastEditedAt?: string | null;
+  commentCount?: number;
+  labels: Array<{ name: string; color: string }>;
+  assignees: Array<{ login: string; name: string | null; avatarUrl: string }>;
+  // Left as stored when undefined, e.g. for webhook payloads that do not carry them
+  linkedPullRequests?: LinkedPullRequest[];
+  reactions?: ReactionCounts;
+  parent?: RelatedIssue | null;
+  children?: ChildIssue[];
+}
+
+interface ItemRow {
+  issueId: string;
+  status?: string | null;
+  extractedDate?: string | null;
+  extractedEta?: RoadmapItem['extractedEta'];
+  aiSummary?: AKSIssue['aiSummary'];
+  lastComment?: RoadmapItem['lastComment'];
+  needsResponse?: boolean;
+}
+
+interface JoinedRow {
+  id: string;
+  content_type: ItemType;
+  title: string;
+  url: string;
+  body: string;
+  state: string | null;
+  closed_at: string | null;
+  state_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  last_edited_at: string | null;
+  comment_count: number;
+  status: string | null;
+  extracted_date: string | null;
+  extracted_eta: string | null;
+  extracted_date_range: string | null;
+  extracted_eta_range: string | null;
+  ai_summary: string | null;
+  last_comment_at: string | null;
+  last_comment_login: string | null;
+  last_comment_name: string | null;
+  needs_response: number;
+}
+
+export function getDatasetInfo(sourceId: string, dataset: Dataset): DatasetInfo | null {
+  const row = db.prepare('SELECT timestamp, last_updated, synced_at, partial, page_limit FROM datasets WHERE source = ? AND dataset = ?')
+    .get(sourceId, dataset) as { timestamp: number; last_updated: string; synced_at: string | null; partial: number; page_limit: number | null } | undefined;
+  return row ? {
+    timestamp: row.timestamp,
+    lastUpdated: row.last_updated,
+    syncedAt: row.synced_at,
+    partial: row.partial === 1,
+    pageLimit: row.page_limit
+  } : null;
+}
+
+// Replace the reaction counts of an issue or one of its comments
+function replaceReactions(sourceId: string, issueId: string, subjectId: string, reactions: ReactionCounts): void {
+  db.prepare('DELETE FROM reactions WHERE source = ? AND subject_id = ?').run(sourceId, subjectId);
+  const insertReaction = db.prepare('INSERT INTO reactions (source, issue_id, subject_id, content, count) VALUES (?, ?, ?, ?, ?)');
+  for (const [content, count] of Object.entries(reactions)) {
+    if (count > 0) insertReaction.run(sourceId, issueId, subjectId, content, count);
+  }
+}
+
+function insertRelatedIssue(sourceId: string, issueId: string, related: RelatedIssue, relation: string, position: number): void {
+  db.prepare(`
+    INSERT OR IGNORE INTO related_issues (source, issue_id, related_id, relation, position, number, title, url, state, repository, assignees)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    sourceId, issueId, related.id, relation, position, related.number, related.title, related.url,
+    related.state, related.repository, JSON.stringify(related.assignees)
+  );
+}
+
+// Insert or update one issue with its labels, assignees, fetched comments and project fields
+function upsertIssueContent(sourceId: string, issue: IssueContent, details?: ItemDetails): void {
+  db.prepare(`
+    INSERT INTO issues (source, id, content_type, title, url, body, state, closed_at, state_reason, created_at, updated_at, last_edited_at, comment_count)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (source, id) DO UPDATE SET
+      content_type = excluded.content_type,
+      title = excluded.title, url = excluded.url, body = excluded.body, state = excluded.state,
+      closed_at = excluded.closed_at, state_reason = excluded.state_reason,
+      created_at = excluded.created_at, updated_at = excluded.updated_at,
+      last_edited_at = excluded.last_edited_at, comment_count = excluded.comment_count
+  `).run(
+    sourceId, issue.id, issue.type || 'ISSUE', issue.title, issue.url, issue.body, issue.state || null,
+    issue.closedAt || null, issue.stateReason || null,
+    issue.createdAt, issue.updatedAt, issue.lastEditedAt || null,
+    issue.commentCount ?? details?.comments.length ?? 0
+  );
+
+  db.prepare('DELETE FROM labels WHERE source = ? AND issue_id = ?').run(sourceId, issue.id);
+  const insertLabel = db.prepare('INSERT OR IGNORE INTO labels (source, issue_id, name, color) VALUES (?, ?, ?, ?)');
+  for (const label of issue.labels) {
+    insertLabel.run(sourceId, issue.id, label.name, label.color);
+  }
+
+  db.prepare('DELETE FROM assignees WHERE source = ? AND issue_id = ?').run(sourceId, issue.id);
+  const insertAssignee = db.prepare('INSERT OR IGNORE INTO assignees (source, issue_id, login, name, avatar_url) VALUES (?, ?, ?, ?, ?)');
+  for (const assignee of issue.assignees) {
+    insertAssignee.run(sourceId, issue.id, assignee.login, assignee.name, assignee.avatarUrl);
+  }
+
+  if (issue.linkedPullRequests) {
+    db.prepare('DELETE FROM linked_pull_requests WHERE source = ? AND issue_id = ?').run(sourceId, issue.id);
+    const insertPullRequest = db.prepare(`
+      INSERT OR IGNORE INTO linked_pull_requests (source, issue_id, pr_id, number, title, url, state, merged_at, repository, closes_issue)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const pr of issue.linkedPullRequests) {
+      insertPullRequest.run(sourceId, issue.id, pr.id, pr.number, pr.title, pr.url, pr.state, pr.mergedAt, pr.repository, pr.closesIssue ? 1 : 0);
+    }
+  }
+
+  if (issue.reactions) {
+    replaceReactions(sourceId, issue.id, issue.id, issue.reactions);
+  }
+
+  if (issue.parent !== undefined) {
+    db.prepare(`DELETE FROM related_issues WHERE source = ? AND issue_id = ? AND relation = 'PARENT'`).run(sourceId, issue.id);
+    if (issue.parent) insertRelatedIssue(sourceId, issue.id, issue.parent, 'PARENT', 0);
+  }
+
+  if (issue.children) {
+    db.prepare(`DELETE FROM related_issues WHERE source = ? AND issue_id = ? AND relation != 'PARENT'`).run(sourceId, issue.id);
+    issue.children.forEach((child, position) => insertRelatedIssue(sourceId, issue.id, child, child.relation, position));
+  }
+
+  if (!details) return;
+
+  if (!details.partialComments) {
+    const fetchedIds = new Set(details.comments.map(comment => comment.id));
+    const storedIds = db.prepare('SELECT id FROM comments WHERE source = ? AND issue_id = ?').pluck().all(sourceId, issue.id) as string[];
+    const deleteComment = db.prepare('DELETE FROM comments WHERE source = ? AND id = ?');
+    const deleteReactions = db.prepare('DELETE FROM reactions WHERE source = ? AND subject_id = ?');
+    for (const id of storedIds.filter(id => !fetchedIds.has(id))) {
+      deleteComment.run(sourceId, id);
+      deleteReactions.run(sourceId, id);
+    }
+  }
+
+  const insertComment = db.prepare(`
+    INSERT OR REPLACE INTO comments (source, id, issue_id, author_login, author_name, body, created_at, url)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const comment of details.comments) {
+    insertComment.run(
+      sourceId, comment.id, issue.id, comment.author?.login || null, comment.author?.name || null,
+      comment.body, comment.createdAt, comment.url
+    );
+    if (comment.reactions) {
+      replaceReactions(sourceId, issue.id, comment.id, comment.reactions);
+    }
+  }
+
+  if (details.fieldValues) {
+    db.prepare('DELETE FROM project_field_values WHERE source = ? AND issue_id = ?').run(sourceId, issue.id);
+    const insertField = db.prepare(`
+      INSERT INTO project_field_values (source, issue_id, field_name, value, field_type, start_date, duration)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const [fieldName, field] of Object.entries(details.fieldValues)) {
+      insertField.run(sourceId, issue.id, fieldName, String(field.value), field.type, field.startDate || null, field.duration ?? null);
+    }
+  }
+}
+
+// The item's ETAs as date ranges. Relative timelines in the issue body are resolved against
+// when the issue was opened, those in comments against when the comment was written.
+function normalizeItemEtas(sourceId: string, row: ItemRow): { dateRange: EtaRange | null; etaRange: EtaRange | null } {
+  if (!row.extractedDate && !row.extractedEta) return { dateRange: null, etaRange: null };
+  const openedAt = db.prepare('SELECT created_at FROM issues WHERE source = ? AND id = ?').pluck()
+    .get(sourceId, row.issueId) as string | undefined;
+  const commentAt = row.extractedEta
+    ? db.prepare('SELECT created_at FROM comments WHERE source = ? AND issue_id = ? AND url = ?').pluck()
+      .get(sourceId, row.issueId, row.extractedEta.url) as string | undefined
+    : undefined;
+  return {
+    dateRange: row.extractedDate ? normalizeEta(row.extractedDate, openedAt ?? Date.now()) : null,
+    etaRange: row.extractedEta ? normalizeEta(row.extractedEta.date, commentAt ?? openedAt ?? Date.now()) : null
+  };
+}
+
+function upsertItemRow(sourceId: string, dataset: Dataset, row: ItemRow, position: number | null): void {
+  const { dateRange, etaRange } = normalizeItemEtas(sourceId, row);
+  db.prepare(`
+    INSERT INTO items (
+      source, dataset, issue_id, position, status, extracted_date, extracted_eta, extracted_date_range, extracted_eta_range,
+      ai_summary, last_comment_at, last_comment_login, last_comment_name, needs_response
+    ) VALUES (?, ?, ?, COALESCE(?, (SELECT COALESCE(MAX(position), -1) + 1 FROM items WHERE source = ? AND dataset = ?)), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (source, dataset, issue_id) DO UPDATE SET
+      status = excluded.status, extracted_date = excluded.extracted_date, extracted_eta = excluded.extracted_eta,
+      extracted_date_range = excluded.extracted_date_range, extracted_eta_range = excluded.extracted_eta_range,
+      ai_summary = excluded.ai_summary, last_comment_at = excluded.last_comment_at,
+      last_comment_login = excluded.last_comment_login, last_comment_name = excluded.last_comment_name,
+      needs_response = excluded.needs_response
+  `).run(
+    sourceId, dataset, row.issueId, position, sourceId, dataset,
+    row.status ?? null,
+    row.extractedDate ?? null,
+    row.extractedEta ? JSON.stringify(row.extractedEta) : null,
+    dateRange ? JSON.stringify(dateRange) : null,
+    etaRange ? JSON.stringify(etaRange) : null,
+    row.aiSummary ? JSON.stringify(row.aiSummary) : null,
+    row.lastComment?.createdAt || null,
+    row.lastComment?.author.login || null,
+    row.lastComment?.author.name || null,
+    row.needsResponse ? 1 : 0
+  );
+}
+
+// Remove issues (and their children) that no longer belong to any dataset of the source
+function pruneOrphans(sourceId: string): void {
+  const orphanFilter = 'source = ? AND issue_id NOT IN (SELECT issue_id FROM items WHERE source = ?)';
+  db.prepare(`DELETE FROM issues WHERE source = ? AND id NOT IN (SELECT issue_id FROM items WHERE source = ?)`).run(sourceId, sourceId);
+  for (const table of ['comments', 'labels', 'assignees', 'project_field_values', 'linked_pull_requests', 'reactions', 'related_issues']) {
+    db.prepare(`DELETE FROM ${table} WHERE ${orphanFilter}`).run(sourceId, sourceId);
+  }
+}
+
+function touchDataset(sourceId: string, dataset: Dataset, timestamp: number, syncedAt: string | null, partial: boolean, pageLimit: number | null): void {
+  db.prepare(`
+    INSERT OR REPLACE INTO datasets (source, dataset, timestamp, last_updated, synced_at, partial, page_limit)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(sourceId, dataset, timestamp, new Date(timestamp).toISOString(), syncedAt, partial ? 1 : 0, pageLimit);
+}
+
+// Replace the full contents of a dataset in one transaction. A partial refresh only
+// upserts what it fetched: the stored rows are the last complete copy and stay until a
+// complete refresh replaces them.
+function replaceDataset(
+  sourceId: string,
+  dataset: Dataset,
+  entries: Array<{ content: IssueContent; row: ItemRow }>,
+  details: Map<string, ItemDetails>,
+  { timestamp = Date.now(), syncedAt = null, partial = false, pageLimit = null }: SaveOptions
+): void {
+  db.transaction(() => {
+    if (!partial) {
+      db.prepare('DELETE FROM items WHERE source = ? AND dataset = ?').run(sourceId, dataset);
+    }
+    entries.forEach(({ content, row }, position) => {
+      upsertIssueContent(sourceId, content, details.get(content.id));
+      // Stored rows keep their place; new ones go to the end
+      upsertItemRow(sourceId, dataset, row, partial ? null : position);
+    });
+    if (!partial) {
+      pruneOrphans(sourceId);
+    }
+    // A partial refresh has no sync point (the next one starts over with a full fetch) and
+    // takes no snapshot, which would otherwise report the missing items as removed
+    touchDataset(sourceId, dataset, timestamp, partial ? null : syncedAt, partial, pageLimit);
+    if (dataset === 'roadmap') {
+      recordStatusTransitions(sourceId, timestamp);
+      recordEtaHistory(sourceId, timestamp);
+    }
+    if (!partial) {
+      recordSnapshot(sourceId, dataset, timestamp);
+    }
+  })();
+}
+
+function roadmapEntry(item: RoadmapItem): { content: IssueContent; row: ItemRow } {
+  return {
+    content: item,
+    row: {
+      issueId: item.id,
+      status: item.status,
+      extractedDate: item.extractedDate,
+      extractedEta: item.extractedEta,
+      lastComment: item.lastComment,
+      needsResponse: item.needsResponse
+    }
+  };
+}
+
+function issueEntry(issue: AKSIssue): { content: IssueContent; row: ItemRow } {
+  return {
+    content: { ...issue, commentCount: issue.comments, stateReason: issue.closeReason },
+    row: {
+      issueId: issue.id,
+      aiSummary: issue.aiSummary,
+      lastComment: issue.lastComment,
+      needsResponse: issue.needsResponse
+    }
+  };
+}
+
+export function saveRoadmapItems(sourceId: string, items: RoadmapItem[], details: Map<string, ItemDetails> = new Map(), options: SaveOptions = {}): void {
+  replaceDataset(sourceId, 'roadmap', items.map(roadmapEntry), details, options);
+  console.log(`Saved ${items.length} roadmap items for ${sourceId} to SQLite${options.partial ? ' (partial)' : ''}`);
+}
+
+export function saveAKSIssues(sourceId: string, issues: AKSIssue[], details: Map<string, ItemDetails> = new Map(), options: SaveOptions = {}): void {
+  replaceDataset(sourceId, 'issues', issues.map(issueEntry), details, options);
+  console.log(`Saved ${issues.length} issues for ${sourceId} to SQLite${options.partial ? ' (partial)' : ''}`);
+}
+
+// Insert or update a single roadmap item without touching the rest of the dataset
+export function upsertRoadmapItem(sourceId: string, item: RoadmapItem, details?: ItemDetails): void {
+  db.transaction(() => {
+    const { content, row } = roadmapEntry(item);
+    upsertIssueContent(sourceId, content, details);
+    upsertItemRow(sourceId, 'roadmap', row, null);
+    recordStatusTransitions(sourceId, Date.now(), item.id);
+    recordEtaHistory(sourceId, Date.now(), item.id);
+  })();
+}
+
+// Insert or update a single repository issue without touching the rest of the dataset
+export function upsertAKSIssue(sourceId: string, issue: AKSIssue, details?: ItemDetails): void {
+  db.transaction(() => {
+    const { content, row } = issueEntry(issue);
+    upsertIssueContent(sourceId, content, details);
+    upsertItemRow(sourceId, 'issues', row, null);
+  })();
+}
+
+export function removeItem(sourceId: string, dataset: Dataset, issueId: string): void {
+  db.transaction(() => {
+    db.prepare('DELETE FROM items WHERE source = ? AND dataset = ? AND issue_id = ?').run(sourceId, dataset, issueId);
+    pruneOrphans(sourceId);
+  })();
+}
+
+// Delete a dataset's items and refresh time; the next request fetches it from GitHub again
+export function clearDataset(sourceId: string, dataset: Dataset): number {
+  return db.transaction(() => {
+    const { changes } = db.prepare('DELETE FROM items WHERE source = ? AND dataset = ?').run(sourceId, dataset);
+    db.prepare('DELETE FROM datasets WHERE source = ? AND dataset = ?').run(sourceId, dataset);
+    clearSyncProgress(sourceId, dataset);
+    pruneOrphans(sourceId);
+    return changes;
+  })();
+}
+
+// Keep a dataset's rows but mark it stale so the next request refreshes it
+export function expireDataset(sourceId: string, dataset: Dataset): number {
+  return db.prepare('UPDATE datasets SET timestamp = 0 WHERE source = ? AND dataset = ?').run(sourceId, dataset).changes;
+}
+
+// Datasets of the source that contain the issue
+export function getItemDatasets(sourceId: string, issueId: string): Dataset[] {
+  return db.prepare('SELECT dataset FROM items WHERE source = ? AND issue_id = ?')
+    .pluck().all(sourceId, issueId) as Dataset[];
+}
+
+export function saveComment(sourceId: string, issueId: string, comment: GitHubComment): void {
+  db.transaction(() => {
+    db.prepare(`
+      INSERT OR REPLACE INTO comments (source, id, issue_id, author_login, author_name, body, created_at, url)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      sourceId, comment.id, issueId, comment.author?.login || null, comment.author?.name || null,
+      comment.body, comment.createdAt, comment.url
+    );
+    if (comment.reactions) {
+      replaceReactions(sourceId, issueId, comment.id, comment.reactions);
+    }
+  })();
+}
+
+export function deleteComment(sourceId: string, commentId: string): void {
+  db.transaction(() => {
+    db.prepare('DELETE FROM comments WHERE source = ? AND id = ?').run(sourceId, commentId);
+    db.prepare('DELETE FROM reactions WHERE source = ? AND subject_id = ?').run(sourceId, commentId);
+  })();
+}
+
+// Rename or recolor a repository label on every issue carrying it; returns the affected issue ids
+export function updateLabel(sourceId: string, name: string, newName: string, color: string): string[] {
+  return db.transaction(() => {
+    const issueIds = db.prepare('SELECT issue_id FROM labels WHERE source = ? AND name = ?').pluck().all(sourceId, name) as string[];
+    db.prepare('UPDATE OR REPLACE labels SET name = ?, color = ? WHERE source = ? AND name = ?').run(newName, color, sourceId, name);
+    return issueIds;
+  })();
+}
+
+// Remove a deleted repository label from every issue; returns the affected issue ids
+export function deleteLabel(sourceId: string, name: string): string[] {
+  return db.transaction(() => {
+    const issueIds = db.prepare('SELECT issue_id FROM labels WHERE source = ? AND name = ?').pluck().all(sourceId, name) as string[];
+    db.prepare('DELETE FROM labels WHERE source = ? AND name = ?').run(sourceId, name);
+    return issueIds;
+  })();
+}
+
+export function getComments(sourceId: string, issueId: string): GitHubComment[] {
+  const rows = db.prepare(`
+    SELECT id, author_login, author_name, body, created_at, url FROM comments
+    WHERE source = ? AND issue_id = ? ORDER BY created_at
+  `).all(sourceId, issueId) as Array<{ id: string; author_login: string | null; author_name: string | null; body: string; created_at: string; url: string }>;
+  const reactions = loadReactions(sourceId, 'subject_id IN (SELECT id FROM comments WHERE source = ? AND issue_id = ?)', [sourceId, issueId]);
+
+  return rows.map(row => ({
+    id: row.id,
+    createdAt: row.created_at,
+    body: row.body,
+    author: row.author_login ? { login: row.author_login, name: row.author_name } : null,
+    url: row.url,
+    reactions: reactions.get(row.id) || {}
+  }));
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+function queryItems(sourceId: string, dataset: Dataset, filters: ItemFilters): JoinedRow[] {
+  const conditions = ['it.source = ?', 'it.dataset = ?'];
+  const params: unknown[] = [sourceId, dataset];
+
+  if (filters.ids?.length) {
+    conditions.push(`it.issue_id IN (${placeholders(filters.ids)})`);
+    params.push(...filters.ids);
+  }
+  if (filters.statuses?.length) {
+    conditions.push(`it.status IN (${placeholders(filters.statuses)})`);
+    params.push(...filters.statuses);
+  }
+  if (filters.states?.length) {
+    conditions.push(`i.state IN (${placeholders(filters.states)})`);
+    params.push(...filters.states);
+  }
+  if (filters.types?.length) {
+    conditions.push(`i.content_type IN (${placeholders(filters.types)})`);
+    params.push(...filters.types);
+  }
+  if (filters.mergedPrOpen) {
+    conditions.push(`i.state = 'OPEN' AND EXISTS (SELECT 1 FROM linked_pull_requests p WHERE p.source = it.source AND p.issue_id = it.issue_id AND p.state = 'MERGED')`);
+  }
+  if (filters.labels?.length) {
+    conditions.push(`EXISTS (SELECT 1 FROM labels l WHERE l.source = it.source AND l.issue_id = it.issue_id AND l.name IN (${placeholders(filters.labels)}))`);
+    params.push(...filters.labels);
+  }
+  if (filters.assignees?.length) {
+    conditions.push(`EXISTS (SELECT 1 FROM assignees a WHERE a.source = it.source AND a.issue_id = it.issue_id AND (a.login IN (${placeholders(filters.assignees)}) OR a.name IN (${placeholders(filters.assignees)})))`);
+    params.push(...filters.assignees, ...filters.assignees);
+  }
+
+  return db.prepare(`
+    SELECT i.id, i.content_type, i.title, i.url, i.body, i.state, i.closed_at, i.state_reason, i.created_at, i.updated_at, i.last_edited_at, i.comment_count,
+           it.status, it.extracted_date, it.extracted_eta, it.extracted_date_range, it.extracted_eta_range, it.ai_summary,
+           it.last_comment_at, it.last_comment_login, it.last_comment_name, it.needs_response
+    FROM items it
+    JOIN issues i ON i.source = it.source AND i.id = it.issue_id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY it.position
+  `).all(...params) as JoinedRow[];
+}
+
+// Load labels and assignees for a whole dataset in two queries, grouped by issue id
+function loadPeopleAndLabels(sourceId: string, dataset: Dataset) {
+  const scope = 'source = ? AND issue_id IN (SELECT issue_id FROM items WHERE source = ? AND dataset = ?)';
+  const labels = new Map<string, Array<{ name: string; color: string }>>();
+  const assignees = new Map<string, Array<{ login: string; name: string | null; avatarUrl: string }>>();
+
+  const labelRows = db.prepare(`SELECT issue_id, name, color FROM labels WHERE ${scope} ORDER BY rowid`)
+    .all(sourceId, sourceId, dataset) as Array<{ issue_id: string; name: string; color: string }>;
+  for (const row of labelRows) {
+    if (!labels.has(row.issue_id)) labels.set(row.issue_id, []);
+    labels.get(row.issue_id)!.push({ name: row.name, color: row.color });
+  }
+
+  const assigneeRows = db.prepare(`SELECT issue_id, login, name, avatar_url FROM assignees WHERE ${scope} ORDER BY rowid`)
+    .all(sourceId, sourceId, dataset) as Array<{ issue_id: string; login: string; name: string | null; avatar_url: string }>;
+  for (const row of assigneeRows) {
+    if (!assignees.has(row.issue_id)) assignees.set(row.issue_id, []);
+    assignees.get(row.issue_id)!.push({ login: row.login, name: row.name, avatarUrl: row.avatar_url });
+  }
+
+  return { labels, assignees };
+}
+
+// Linked pull requests for a whole dataset, grouped by issue id, most recent first
+function loadLinkedPullRequests(sourceId: string, dataset: Dataset): Map<string, LinkedPullRequest[]> {
+  const pullRequests = new Map<string, LinkedPullRequest[]>();
+  const rows = db.prepare(`
+    SELECT issue_id, pr_id, number, title, url, state, merged_at, repository, closes_issue FROM linked_pull_requests
+    WHERE source = ? AND issue_id IN (SELECT issue_id FROM items WHERE source = ? AND dataset = ?)
+    ORDER BY merged_at IS NULL, merged_at DESC, number DESC
+  `).all(sourceId, sourceId, dataset) as Array<{
+    issue_id: string; pr_id: string; number: number; title: string; url: string; state: string; merged_at: string | null; repository: string; closes_issue: number
+  }>;
+  for (const row of rows) {
+    if (!pullRequests.has(row.issue_id)) pullRequests.set(row.issue_id, []);
+    pullRequests.get(row.issue_id)!.push({
+      id: row.pr_id,
+      number: row.number,
+      title: row.title,
+      url: row.url,
+      state: row.state,
+      mergedAt: row.merged_at,
+      repository: row.repository,
+      closesIssue: row.closes_issue === 1
+    });
+  }
+  return pullRequests;
+}
+
+// Parents and children of a whole dataset, grouped by issue id. Related issues that are
+// stored themselves report their stored state, which incremental syncs keep current even
+// when the item they belong to did not change.
+function loadRelatedIssues(sourceId: string, dataset: Dataset) {
+  const parents = new Map<string, RelatedIssue>();
+  const children = new Map<string, ChildIssue[]>();
+  const rows = db.prepare(`
+    SELECT r.issue_id, r.related_id, r.relation, r.number, r.title, r.url, COALESCE(i.state, r.state) AS state, r.repository, r.assignees
+    FROM related_issues r
+    LEFT JOIN issues i ON i.source = r.source AND i.id = r.related_id
+    WHERE r.source = ? AND r.issue_id IN (SELECT issue_id FROM items WHERE source = ? AND dataset = ?)
+    ORDER BY r.relation = 'TRACKED', r.position
+  `).all(sourceId, sourceId, dataset) as Array<{
+    issue_id: string; related_id: string; relation: string; number: number; title: string; url: string; state: string; repository: string; assignees: string
+  }>;
+  for (const row of rows) {
+    const related: RelatedIssue = {
+      id: row.related_id,
+      number: row.number,
+      title: row.title,
+      url: row.url,
+      state: row.state,
+      repository: row.repository,
+      assignees: JSON.parse(row.assignees)
+    };
+    if (row.relation === 'PARENT') {
+      parents.set(row.issue_id, related);
+      continue;
+    }
+    if (!children.has(row.issue_id)) children.set(row.issue_id, []);
+    children.get(row.issue_id)!.push({ ...related, relation: row.relation as ChildIssue['relation'] });
+  }
+  return { parents, children };
+}
+
+// Reaction counts grouped by subject (issue or comment id) for the rows matching `scope`
+function loadReactions(sourceId: string, scope: string, params: unknown[]): Map<string, ReactionCounts> {
+  const reactions = new Map<string, ReactionCounts>();
+  const rows = db.prepare(`SELECT subject_id, content, count FROM reactions WHERE source = ? AND ${scope}`)
+    .all(sourceId, ...params) as Array<{ subject_id: string; content: string; count: number }>;
+  for (const row of rows) {
+    if (!reactions.has(row.subject_id)) reactions.set(row.subject_id, {});
+    reactions.get(row.subject_id)![row.content] = row.count;
+  }
+  return reactions;
+}
+
+// Reactions on the issues themselves for a whole dataset, grouped by issue id
+function loadIssueReactions(sourceId: string, dataset: Dataset): Map<string, ReactionCounts> {
+  return loadReactions(sourceId, 'subject_id = issue_id AND issue_id IN (SELECT issue_id FROM items WHERE source = ? AND dataset = ?)', [sourceId, dataset]);
+}
+
+// Project field values for a whole dataset, grouped by issue id
+function loadFieldValues(sourceId: string, dataset: Dataset): Map<string, Record<string, ProjectFieldValue>> {
+  const fields = new Map<string, Record<string, ProjectFieldValue>>();
+  const rows = db.prepare(`
+    SELECT issue_id, field_name, value, field_type, start_date, duration FROM project_field_values
+    WHERE source = ? AND issue_id IN (SELECT issue_id FROM items WHERE source = ? AND dataset = ?)
+  `).all(sourceId, sourceId, dataset) as Array<{
+    issue_id: string; field_name: string; value: string; field_type: ProjectFieldValue['type']; start_date: string | null; duration: number | null
+  }>;
+  for (const row of rows) {
+    if (!fields.has(row.issue_id)) fields.set(row.issue_id, {});
+    const field: ProjectFieldValue = { type: row.field_type, value: row.field_type === 'NUMBER' ? Number(row.value) : row.value };
+    if (row.field_type === 'ITERATION') {
+      field.startDate = row.start_date || undefined;
+      field.duration = row.duration ?? undefined;
+    }
+    fields.get(row.issue_id)![row.field_name] = field;
+  }
+  return fields;
+}
+
+function toLastComment(row: JoinedRow): RoadmapItem['lastComment'] {
+  if (!row.last_comment_at) return null;
+  return {
+    createdAt: row.last_comment_at,
+    author: {
+      login: row.last_comment_login || '',
+      name: row.last_comment_name
+    }
+  };
+}
+
+export function loadRoadmapItems(sourceId: string, filters: ItemFilters = {}): RoadmapItem[] {
+  const rows = queryItems(sourceId, 'roadmap', filters);
+  const { labels, assignees } = loadPeopleAndLabels(sourceId, 'roadmap');
+  const fields = loadFieldValues(sourceId, 'roadmap');
+  const pullRequests = loadLinkedPullRequests(sourceId, 'roadmap');
+  const reactions = loadIssueReactions(sourceId, 'roadmap');
+  const demand = getDemand(sourceId, 'roadmap');
+  const { parents, children } = loadRelatedIssues(sourceId, 'roadmap');
+  const history = getStatusHistory(sourceId);
+  const slips = getSlips(sourceId);
+
+  return rows.map(row => {
+    const itemChildren = children.get(row.id) || [];
+    return {
+      id: row.id,
+      type: row.content_type,
+      title: row.title,
+      url: row.url,
+      body: row.body,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      lastEditedAt: row.last_edited_at,
+      state: row.state,
+      status: row.status || 'Unknown',
+      labels: labels.get(row.id) || [],
+      assignees: assignees.get(row.id) || [],
+      extractedDate: row.extracted_date,
+      extractedEta: row.extracted_eta ? JSON.parse(row.extracted_eta) : null,
+      extractedDateRange: row.extracted_date_range ? JSON.parse(row.extracted_date_range) : null,
+      extractedEtaRange: row.extracted_eta_range ? JSON.parse(row.extracted_eta_range) : null,
+      lastComment: toLastComment(row),
+      needsResponse: row.needs_response === 1,
+      statusHistory: history.get(row.id) || [],
+      etaSlip: slips.get(row.id)?.slice(-1)[0] || null,
+      fields: fields.get(row.id) || {},
+      linkedPullRequests: pullRequests.get(row.id) || [],
+      reactions: reactions.get(row.id) || {},
+      demand: demand.get(row.id),
+      parent: parents.get(row.id) || null,
+      children: itemChildren,
+      completion: itemChildren.length > 0
+        ? { closed: itemChildren.filter(child => child.state === 'CLOSED').length, total: itemChildren.length }
+        : null
+    };
+  });
+}
+
+export function loadAKSIssues(sourceId: string, filters: ItemFilters = {}): AKSIssue[] {
+  const rows = queryItems(sourceId, 'issues', filters);
+  const { labels, assignees } = loadPeopleAndLabels(sourceId, 'issues');
+  const pullRequests = loadLinkedPullRequests(sourceId, 'issues');
+  const reactions = loadIssueReactions(sourceId, 'issues');
+  const demand = getDemand(sourceId, 'issues');
+
+  return rows.map(row => ({
+    id: row.id,
+    title: row.title,
+    url: row.url,
+    body: row.body,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    state: row.state || 'OPEN',
+    closedAt: row.closed_at,
+    closeReason: row.state_reason,
+    labels: labels.get(row.id) || [],
+    assignees: assignees.get(row.id) || [],
+    comments: row.comment_count,
+    linkedPullRequests: pullRequests.get(row.id) || [],
+    reactions: reactions.get(row.id) || {},
+    demand: demand.get(row.id),
+    lastComment: toLastComment(row),
+    needsResponse: row.needs_response === 1,
+    aiSummary: row.ai_summary ? JSON.parse(row.ai_summary) : null
+  }));
+}
+
+// Earlier versions stored each dataset as one JSON blob per source in github_cache and
+// aks_issues_cache (originally a single row with id = 1). Import those rows once and drop the tables.
+export function importLegacyBlobCaches(defaultSourceId: string): void {
+  const legacyTables: Array<{ table: string; dataset: Dataset }> = [
+    { table: 'github_cache', dataset: 'roadmap' },
+    { table: 'aks_issues_cache', dataset: 'issues' }
+  ];
+
+  for (const { table, dataset } of legacyTables) {
+    const exists = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table);
+    if (!exists) continue;
+
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    const sourceColumn = columns.some(column => column.name === 'source') ? 'source' : `'${defaultSourceId}'`;
+    const rows = db.prepare(`SELECT ${sourceColumn} AS source, data, timestamp FROM ${table}`)
+      .all() as Array<{ source: string; data: string; timestamp: number }>;
+
+    console.log(`Importing ${rows.length} legacy ${table} row(s) into normalized tables...`);
+    db.transaction(() => {
+      for (const row of rows) {
+        if (getDatasetInfo(row.source, dataset)) continue;
+        const data = JSON.parse(row.data);
+        if (dataset === 'roadmap') {
+          saveRoadmapItems(row.source, data, new Map(), { timestamp: row.timestamp });
+        } else {
+          saveAKSIssues(row.source, data, new Map(), { timestamp: row.timestamp });
+        }
+      }
+      db.exec(`DROP TABLE ${table}`);
+    })();
+  }
+}
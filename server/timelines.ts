@@ -0,0 +1,200 @@
+import { EtaRange } from './types.js';
+
+// Normalise free-text timelines ("Q2 2024", "GA in summer", "later this year") into date
+// ranges. Relative timelines are resolved against the date the text was written, so
+// "next quarter" in a comment from May 2024 means July to September 2024.
+
+const MONTH_INDEX: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11
+};
+
+// Full and abbreviated month names only, so words like "decision" or "marketing" are not months
+const MONTH_PATTERN = '(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec)\\b\\.?';
+
+function monthIndex(name: string): number {
+  return MONTH_INDEX[name.substring(0, 3)];
+}
+
+// First and last month of seasons and parts of a year. The last months also decide which
+// ETA is later when comparing them, so they lean late: "early 2025" runs until April.
+// Winter runs from December into February of the next year.
+const PERIOD_MONTHS: Record<string, [number, number]> = {
+  early: [0, 3],
+  spring: [2, 4],
+  mid: [4, 7],
+  summer: [5, 7],
+  fall: [8, 10],
+  autumn: [8, 10],
+  late: [8, 11],
+  winter: [11, 13],
+  'end of': [9, 11]
+};
+
+const PERIOD_PATTERN = '(early|mid|late|end of|spring|summer|fall|autumn|winter)';
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, nine: 9, twelve: 12
+};
+
+function toYear(value: string): number {
+  const year = parseInt(value, 10);
+  return year < 100 ? 2000 + year : year;
+}
+
+// YYYY-MM-DD of a UTC date; month indexes outside 0-11 roll into the previous or next year
+function isoDate(year: number, monthIndex: number, day: number): string {
+  return new Date(Date.UTC(year, monthIndex, day)).toISOString().substring(0, 10);
+}
+
+// A range from the first day of `startMonth` to the last day of `endMonth`
+function monthRange(year: number, startMonth: number, endMonth: number, precision: EtaRange['precision']): Omit<EtaRange, 'stage'> {
+  return { start: isoDate(year, startMonth, 1), end: isoDate(year, endMonth + 1, 0), precision };
+}
+
+export function getEtaStage(eta: string): 'preview' | 'ga' | null {
+  if (/\bpreview\b/i.test(eta)) return 'preview';
+  if (/\b(?:GA|general availability|generally available)\b/i.test(eta)) return 'ga';
+  return null;
+}
+
+// Quarters, halves and years, calendar or fiscal. Microsoft fiscal years start in July, so
+// FY25 Q1 is July to September 2024.
+function parseFiscalPeriod(text: string): Omit<EtaRange, 'stage'> | null {
+  const quarterRange = (quarter: number, calendar: string | undefined, year: number) => calendar === 'fy'
+    ? monthRange(year - 1, quarter * 3 + 3, quarter * 3 + 5, 'quarter')
+    : monthRange(year, quarter * 3 - 3, quarter * 3 - 1, 'quarter');
+
+  let match = text.match(/\bq([1-4])\s*(cy|fy)?\s*'?(\d{2,4})\b/);
+  if (match) {
+    return quarterRange(parseInt(match[1], 10), match[2], toYear(match[3]));
+  }
+
+  match = text.match(/\b(cy|fy)\s*'?(\d{2,4})\s*q([1-4])\b/);
+  if (match) {
+    return quarterRange(parseInt(match[3], 10), match[1], toYear(match[2]));
+  }
+
+  match = text.match(/\bh([12])\s*(cy|fy)?\s*'?(\d{2,4})\b/);
+  if (match) {
+    const half = parseInt(match[1], 10);
+    const year = toYear(match[3]);
+    return match[2] === 'fy'
+      ? monthRange(year - 1, half * 6, half * 6 + 5, 'half')
+      : monthRange(year, half * 6 - 6, half * 6 - 1, 'half');
+  }
+
+  match = text.match(/\bfy\s*'?(\d{2,4})\b/);
+  if (match) {
+    return monthRange(toYear(match[1]) - 1, 6, 17, 'year');
+  }
+  return null;
+}
+
+// Dates, months, seasons and years that name their year
+function parseAbsolute(text: string): Omit<EtaRange, 'stage'> | null {
+  const fiscal = parseFiscalPeriod(text);
+  if (fiscal) return fiscal;
+
+  let match = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (match) {
+    const day = isoDate(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+    return { start: day, end: day, precision: 'day' };
+  }
+
+  match = text.match(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`));
+  if (match) {
+    const day = isoDate(parseInt(match[3], 10), monthIndex(match[1]), parseInt(match[2], 10));
+    return { start: day, end: day, precision: 'day' };
+  }
+
+  match = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN},?\\s+(\\d{4})\\b`));
+  if (match) {
+    const day = isoDate(parseInt(match[3], 10), monthIndex(match[2]), parseInt(match[1], 10));
+    return { start: day, end: day, precision: 'day' };
+  }
+
+  match = text.match(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{4})\\b`));
+  if (match) {
+    const month = monthIndex(match[1]);
+    return monthRange(parseInt(match[2], 10), month, month, 'month');
+  }
+
+  match = text.match(new RegExp(`\\b${PERIOD_PATTERN}\\s+(?:of\\s+)?(\\d{4})\\b`));
+  if (match) {
+    const [startMonth, endMonth] = PERIOD_MONTHS[match[1]];
+    return monthRange(parseInt(match[2], 10), startMonth, endMonth, 'season');
+  }
+
+  match = text.match(/\b(20\d{2})\b/);
+  if (match) {
+    return monthRange(parseInt(match[1], 10), 0, 11, 'year');
+  }
+  return null;
+}
+
+// Timelines relative to `reference`: "next quarter", "later this year", "this summer",
+// "in 3 months"
+function parseRelative(text: string, reference: Date): Omit<EtaRange, 'stage'> | null {
+  const year = reference.getUTCFullYear();
+  const month = reference.getUTCMonth();
+  const offset = (word: string) => word === 'next' || word === 'the coming' ? 1 : 0;
+
+  let match = text.match(/\b(this|next|the coming)\s+quarter\b/);
+  if (match) {
+    const startMonth = Math.floor(month / 3) * 3 + offset(match[1]) * 3;
+    return monthRange(year, startMonth, startMonth + 2, 'quarter');
+  }
+
+  match = text.match(/\b(this|next|the coming)\s+month\b/);
+  if (match) {
+    const startMonth = month + offset(match[1]);
+    return monthRange(year, startMonth, startMonth, 'month');
+  }
+
+  match = text.match(/\bin\s+(\d{1,2}|a|an|one|two|three|four|five|six|nine|twelve)\s+months?\b/);
+  if (match) {
+    const startMonth = month + (NUMBER_WORDS[match[1]] ?? parseInt(match[1], 10));
+    return monthRange(year, startMonth, startMonth, 'month');
+  }
+
+  // "later this year" runs from now to December
+  if (/\blater\s+this\s+year\b/.test(text)) {
+    return monthRange(year, month, 11, 'season');
+  }
+
+  // "end of year" and "mid-year" mean this year
+  match = text.match(new RegExp(`\\b${PERIOD_PATTERN}[\\s-]+(?:of\\s+)?(?:(this|next|the coming|the)\\s+)?year\\b`));
+  if (match) {
+    const [startMonth, endMonth] = PERIOD_MONTHS[match[1]];
+    return monthRange(year + offset(match[2]), startMonth, endMonth, 'season');
+  }
+
+  match = text.match(/\b(this|next|the coming)\s+year\b/);
+  if (match) {
+    return monthRange(year + offset(match[1]), 0, 11, 'year');
+  }
+
+  // A season without a year is the next one that has not ended yet. January and February
+  // are still in the winter that started the December before.
+  match = text.match(/\b(?:(this|next)\s+)?(spring|summer|fall|autumn|winter)\b/);
+  if (match) {
+    const [startMonth, endMonth] = PERIOD_MONTHS[match[2]];
+    const inLastYearsSeason = endMonth > 11 && month <= endMonth - 12;
+    const current = inLastYearsSeason ? month + 12 : month;
+    let seasonYear = inLastYearsSeason ? year - 1 : year;
+    if (endMonth < current || match[1] === 'next' && startMonth <= current) seasonYear++;
+    return monthRange(seasonYear, startMonth, endMonth, 'season');
+  }
+  return null;
+}
+
+// The date range an ETA string means, or null when it names no recognisable timeline.
+// Without a `reference` date only timelines that name their year are understood.
+export function normalizeEta(eta: string, reference?: string | number | Date): EtaRange | null {
+  const text = eta.toLowerCase();
+  const referenceDate = reference !== undefined ? new Date(reference) : null;
+
+  const range = parseAbsolute(text) ||
+    (referenceDate && !isNaN(referenceDate.getTime()) ? parseRelative(text, referenceDate) : null);
+  return range ? { ...range, stage: getEtaStage(eta) } : null;
+}
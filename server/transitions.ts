@@ -0,0 +1,106 @@
+import { db } from './db.js';
+import { StatusTransition } from './types.js';
+import { average, median } from './stats.js';
+
+// Status history for roadmap items. A transition is recorded whenever a refresh sees a
+// different Status than the last one recorded; the first observation has no `from`.
+
+export interface StageStats {
+  stage: string;
+  // Items on the board that are in this stage right now
+  currentItems: number;
+  averageCurrentDays: number | null;
+  // Stays that ended with a move to another stage
+  completedStays: number;
+  averageDays: number | null;
+  medianDays: number | null;
+}
+
+interface TransitionRow {
+  issue_id: string;
+  from_status: string | null;
+  to_status: string;
+  observed_at: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Compare each roadmap item's status with its last recorded transition; pass an issue id
+// to check a single item. Runs inside the caller's transaction.
+export function recordStatusTransitions(sourceId: string, timestamp: number, issueId?: string): void {
+  const rows = db.prepare(`
+    SELECT it.issue_id, it.status,
+      (SELECT to_status FROM status_transitions t
+       WHERE t.source = it.source AND t.issue_id = it.issue_id
+       ORDER BY observed_at DESC, id DESC LIMIT 1) AS last_status
+    FROM items it
+    WHERE it.source = ? AND it.dataset = 'roadmap' AND it.status IS NOT NULL
+      ${issueId ? 'AND it.issue_id = ?' : ''}
+  `).all(...(issueId ? [sourceId, issueId] : [sourceId])) as Array<{ issue_id: string; status: string; last_status: string | null }>;
+
+  const insert = db.prepare(`
+    INSERT INTO status_transitions (source, issue_id, from_status, to_status, observed_at)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  for (const row of rows) {
+    if (row.status !== row.last_status) {
+      insert.run(sourceId, row.issue_id, row.last_status, row.status, timestamp);
+    }
+  }
+}
+
+function loadTransitions(sourceId: string, issueId?: string): TransitionRow[] {
+  return db.prepare(`
+    SELECT issue_id, from_status, to_status, observed_at FROM status_transitions
+    WHERE source = ? ${issueId ? 'AND issue_id = ?' : ''}
+    ORDER BY issue_id, observed_at, id
+  `).all(...(issueId ? [sourceId, issueId] : [sourceId])) as TransitionRow[];
+}
+
+// Transitions grouped by issue id, oldest first
+export function getStatusHistory(sourceId: string, issueId?: string): Map<string, StatusTransition[]> {
+  const history = new Map<string, StatusTransition[]>();
+  for (const row of loadTransitions(sourceId, issueId)) {
+    if (!history.has(row.issue_id)) history.set(row.issue_id, []);
+    history.get(row.issue_id)!.push({
+      from: row.from_status,
+      to: row.to_status,
+      observedAt: new Date(row.observed_at).toISOString()
+    });
+  }
+  return history;
+}
+
+// Time spent in each stage across all recorded history. Items that left the board
+// contribute their completed stays but not their last, open-ended one.
+export function getStageStats(sourceId: string, now: number = Date.now()): StageStats[] {
+  const onBoard = new Set((db.prepare(`SELECT issue_id FROM items WHERE source = ? AND dataset = 'roadmap'`)
+    .all(sourceId) as Array<{ issue_id: string }>).map(row => row.issue_id));
+
+  const completed = new Map<string, number[]>();
+  const current = new Map<string, number[]>();
+  const bucket = (map: Map<string, number[]>, stage: string) => {
+    if (!completed.has(stage)) completed.set(stage, []);
+    if (!current.has(stage)) current.set(stage, []);
+    return map.get(stage)!;
+  };
+
+  const rows = loadTransitions(sourceId);
+  rows.forEach((row, index) => {
+    const next = rows[index + 1];
+    if (next && next.issue_id === row.issue_id) {
+      bucket(completed, row.to_status).push((next.observed_at - row.observed_at) / DAY_MS);
+    } else if (onBoard.has(row.issue_id)) {
+      bucket(current, row.to_status).push((now - row.observed_at) / DAY_MS);
+    }
+  });
+
+  return [...completed.keys()].map(stage => ({
+    stage,
+    currentItems: current.get(stage)!.length,
+    averageCurrentDays: average(current.get(stage)!),
+    completedStays: completed.get(stage)!.length,
+    averageDays: average(completed.get(stage)!),
+    medianDays: median(completed.get(stage)!)
+  }));
+}
@@ -0,0 +1,227 @@
+// Shapes shared by the API routes and the storage layer
+
+// Each source has a roadmap dataset (project board items) and an issues dataset (repository issues)
+export type Dataset = 'roadmap' | 'issues';
+
+// What a roadmap board item is; the issues dataset only holds issues
+export type ItemType = 'ISSUE' | 'PULL_REQUEST' | 'DRAFT_ISSUE';
+
+// A roadmap Status change; `from` is null for the first time an item was seen
+export interface StatusTransition {
+  from: string | null;
+  to: string;
+  observedAt: string;
+}
+
+// A free-text ETA as a date range; `start` and `end` are inclusive YYYY-MM-DD dates.
+// `precision` is how wide a period the text named.
+export interface EtaRange {
+  start: string;
+  end: string;
+  precision: 'day' | 'month' | 'quarter' | 'half' | 'season' | 'year';
+  stage: 'preview' | 'ga' | null;
+}
+
+// A roadmap ETA that moved later for the same release stage
+export interface EtaSlip {
+  from: string;
+  to: string;
+  slippedAt: string;
+  // The comment that announced the new ETA; null when it came from the issue body
+  author: string | null;
+  commentText: string | null;
+  url: string | null;
+}
+
+// A project board custom field value. `value` is the option name, iteration title, ISO
+// date, number or text depending on the field type.
+export interface ProjectFieldValue {
+  type: 'SINGLE_SELECT' | 'ITERATION' | 'DATE' | 'NUMBER' | 'TEXT';
+  value: string | number;
+  // Iterations only: first day and length in days
+  startDate?: string;
+  duration?: number;
+}
+
+// A pull request that references or is connected to an issue
+export interface LinkedPullRequest {
+  id: string;
+  number: number;
+  title: string;
+  url: string;
+  // OPEN, CLOSED or MERGED
+  state: string;
+  mergedAt: string | null;
+  // owner/name, as PRs can live in other repositories
+  repository: string;
+  // Listed by closedByPullRequestsReferences: merging it closes the issue
+  closesIssue: boolean;
+}
+
+// Another issue in a roadmap item's hierarchy: its parent, a sub-issue or a tracked issue
+export interface RelatedIssue {
+  id: string;
+  number: number;
+  title: string;
+  url: string;
+  // OPEN or CLOSED
+  state: string;
+  // owner/name, as related issues can live in other repositories
+  repository: string;
+  assignees: Array<{
+    login: string;
+    name: string | null;
+    avatarUrl: string;
+  }>;
+}
+
+export interface ChildIssue extends RelatedIssue {
+  // SUB_ISSUE for GitHub sub-issues, TRACKED for issues in a task list
+  relation: 'SUB_ISSUE' | 'TRACKED';
+}
+
+// Reaction counts keyed by GitHub's ReactionContent (THUMBS_UP, HEART, ROCKET, ...)
+export type ReactionCounts = Record<string, number>;
+
+// How much people ask for an issue, from reactions and comment activity. See demand.ts.
+export interface Demand {
+  score: number;
+  // Reactions on the issue itself, not counting THUMBS_DOWN and CONFUSED
+  reactions: number;
+  // The same for all of its comments together
+  commentReactions: number;
+  // Distinct comment authors other than the assignees
+  uniqueCommenters: number;
+  // Comments per week over the last four weeks
+  commentsPerWeek: number;
+}
+
+export interface GitHubComment {
+  id: string;
+  createdAt: string;
+  body: string;
+  author: {
+    login: string;
+    name: string | null;
+  } | null;
+  url: string;
+  // Left as stored when undefined
+  reactions?: ReactionCounts;
+}
+
+export interface AKSIssue {
+  id: string;
+  title: string;
+  url: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  labels: Array<{
+    name: string;
+    color: string;
+  }>;
+  assignees: Array<{
+    login: string;
+    name: string | null;
+    avatarUrl: string;
+  }>;
+  state: string;
+  closedAt?: string | null;
+  // GitHub's stateReason for closed issues: COMPLETED, NOT_PLANNED or DUPLICATE
+  closeReason?: string | null;
+  comments: number;
+  linkedPullRequests?: LinkedPullRequest[];
+  reactions?: ReactionCounts;
+  demand?: Demand;
+  commentsData?: {
+    totalCount: number;
+    pageInfo?: {
+      hasNextPage: boolean;
+      endCursor: string;
+    };
+    nodes: Array<{
+      id: string;
+      createdAt: string;
+      body: string;
+      author: {
+        login: string;
+        name: string | null;
+      };
+      url: string;
+    }>;
+  };
+  lastComment?: {
+    createdAt: string;
+    author: {
+      login: string;
+      name: string | null;
+    };
+  } | null;
+  needsResponse?: boolean;
+  aiSummary?: {
+    currentStatus: string;
+    nextSteps: string;
+    analysis: {
+      isKnownIssue: boolean;
+      isExpectedBehaviour: boolean;
+      shouldClose: boolean;
+    };
+  } | null;
+}
+
+export interface RoadmapItem {
+  id: string;
+  type: ItemType;
+  title: string;
+  // Empty for draft issues, which only exist on the board
+  url: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  lastEditedAt: string | null;
+  // Issue or pull request state; null for draft issues
+  state?: string | null;
+  status: string;
+  labels: Array<{
+    name: string;
+    color: string;
+  }>;
+  assignees: Array<{
+    login: string;
+    name: string | null;
+    avatarUrl: string;
+  }>;
+  extractedDate: string | null;
+  extractedEta?: {
+    date: string;
+    author: string;
+    commentText: string;
+    url: string;
+  } | null;
+  // extractedDate and extractedEta.date as date ranges, relative timelines resolved against
+  // when the issue was opened and when the comment was written
+  extractedDateRange?: EtaRange | null;
+  extractedEtaRange?: EtaRange | null;
+  lastComment?: {
+    createdAt: string;
+    author: {
+      login: string;
+      name: string | null;
+    };
+  } | null;
+  needsResponse?: boolean;
+  // Oldest first; the last entry's observedAt is when the current status was first seen
+  statusHistory?: StatusTransition[];
+  // Most recent ETA slip, if the ETA ever slipped
+  etaSlip?: EtaSlip | null;
+  // Project board field values keyed by field name, Status included
+  fields?: Record<string, ProjectFieldValue>;
+  linkedPullRequests?: LinkedPullRequest[];
+  reactions?: ReactionCounts;
+  demand?: Demand;
+  parent?: RelatedIssue | null;
+  // Sub-issues first, then tracked issues, each in GitHub's order
+  children?: ChildIssue[];
+  // How many children are closed, e.g. 3 of 7; null without children
+  completion?: { closed: number; total: number } | null;
+}
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import { GitHubComment, ReactionCounts } from './types.js';
+
+// GitHub webhook deliveries: signature checks and mapping the REST-style payloads onto the
+// shapes the store uses. The route and the follow-up work live in index.ts.
+
+export const WEBHOOK_EVENTS = ['issues', 'issue_comment', 'label', 'projects_v2_item'];
+
+// Issue fields carried by `issues` and `issue_comment` payloads
+export interface WebhookIssue {
+  id: string;
+  title: string;
+  url: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  state: string;
+  closedAt: string | null;
+  closeReason: string | null;
+  comments: number;
+  labels: Array<{ name: string; color: string }>;
+  // Payloads only carry logins and avatars; display names come from stored data
+  assignees: Array<{ login: string; avatarUrl: string }>;
+  reactions: ReactionCounts;
+}
+
+// REST reaction keys and the GraphQL ReactionContent values they are stored as
+const REACTION_CONTENTS: Record<string, string> = {
+  '+1': 'THUMBS_UP',
+  '-1': 'THUMBS_DOWN',
+  laugh: 'LAUGH',
+  hooray: 'HOORAY',
+  confused: 'CONFUSED',
+  heart: 'HEART',
+  rocket: 'ROCKET',
+  eyes: 'EYES'
+};
+
+// Value of the X-Hub-Signature-256 header GitHub sends for this body
+export function signPayload(secret: string, body: Buffer | string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+export function verifySignature(secret: string, body: Buffer, signature: string | undefined): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signPayload(secret, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// Payloads carry a reaction rollup ({ total_count, '+1': 2, heart: 1, ... }) on issues and comments
+function toReactionCounts(rollup: any): ReactionCounts {
+  const counts: ReactionCounts = {};
+  for (const [key, content] of Object.entries(REACTION_CONTENTS)) {
+    if (rollup?.[key] > 0) counts[content] = rollup[key];
+  }
+  return counts;
+}
+
+// Pull requests arrive as issues too. A merged one is "closed" here but MERGED in GraphQL.
+export function toWebhookIssue(issue: any): WebhookIssue {
+  const state = issue.pull_request?.merged_at ? 'MERGED' : String(issue.state || 'open').toUpperCase();
+  return {
+    id: issue.node_id,
+    title: issue.title,
+    url: issue.html_url,
+    body: issue.body || '',
+    createdAt: issue.created_at,
+    updatedAt: issue.updated_at,
+    state,
+    closedAt: issue.closed_at || null,
+    // Reopened issues report "reopened"; only the reason an issue is closed is kept
+    closeReason: state === 'CLOSED' && issue.state_reason ? String(issue.state_reason).toUpperCase() : null,
+    comments: issue.comments ?? 0,
+    labels: (issue.labels || []).map((label: any) => ({ name: label.name, color: label.color })),
+    assignees: (issue.assignees || []).map((assignee: any) => ({ login: assignee.login, avatarUrl: assignee.avatar_url })),
+    reactions: toReactionCounts(issue.reactions)
+  };
+}
+
+export function toWebhookComment(comment: any): GitHubComment {
+  return {
+    id: comment.node_id,
+    createdAt: comment.created_at,
+    body: comment.body || '',
+    author: comment.user ? { login: comment.user.login, name: null } : null,
+    url: comment.html_url,
+    reactions: toReactionCounts(comment.reactions)
+  };
+}
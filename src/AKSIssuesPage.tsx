@@ -1,4 +1,25 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { DataSource, storageKey } from './sources';
+import { JobProgress, useRefreshJob } from './useRefreshJob';
+
+interface Demand {
+  score: number;
+  reactions: number;
+  commentReactions: number;
+  uniqueCommenters: number;
+  commentsPerWeek: number;
+}
+
+interface LinkedPullRequest {
+  id: string;
+  number: number;
+  title: string;
+  url: string;
+  state: string;
+  mergedAt: string | null;
+  repository: string;
+  closesIssue: boolean;
+}
 
 interface AKSIssue {
   id: string;
@@ -17,6 +38,8 @@ interface AKSIssue {
     avatarUrl: string;
   }>;
   state: string;
+  closedAt?: string | null;
+  closeReason?: string | null;
   comments: number;
   lastComment?: {
     createdAt: string;
@@ -26,6 +49,8 @@ interface AKSIssue {
     };
   } | null;
   needsResponse?: boolean;
+  linkedPullRequests?: LinkedPullRequest[];
+  demand?: Demand;
   aiSummary?: {
     currentStatus: string;
     nextSteps: string;
@@ -37,34 +62,76 @@ interface AKSIssue {
   } | null;
 }
 
-const AKSIssuesPage: React.FC = () => {
+const AKSIssuesPage: React.FC<{ source: DataSource }> = ({ source }) => {
   const [issues, setIssues] = useState<AKSIssue[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedLabels, setSelectedLabels] = useState<Set<string>>(new Set());
   const [selectedAssignees, setSelectedAssignees] = useState<Set<string>>(new Set());
   const [selectedUnassigned, setSelectedUnassigned] = useState<boolean>(false);
+  const [selectedMergedPrOpen, setSelectedMergedPrOpen] = useState<boolean>(false);
+  const [selectedStates, setSelectedStates] = useState<Set<string>>(new Set(['OPEN']));
   const [labelsDropdownOpen, setLabelsDropdownOpen] = useState(false);
   const [assigneesDropdownOpen, setAssigneesDropdownOpen] = useState(false);
   const [unassignedDropdownOpen, setUnassignedDropdownOpen] = useState(false);
-  const [visibleColumns, setVisibleColumns] = useState<Set<string>>(new Set(['title', 'labels', 'assignees', 'created', 'updated', 'lastComment', 'needsResponse', 'ai']));
+  const [pullRequestsDropdownOpen, setPullRequestsDropdownOpen] = useState(false);
+  const [statesDropdownOpen, setStatesDropdownOpen] = useState(false);
+  const [visibleColumns, setVisibleColumns] = useState<Set<string>>(new Set(['title', 'labels', 'assignees', 'created', 'updated', 'lastComment', 'demand', 'linkedPrs', 'needsResponse', 'ai']));
   const [columnsDropdownOpen, setColumnsDropdownOpen] = useState(false);
   const [sortField, setSortField] = useState<string>('');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [hoveredIssue, setHoveredIssue] = useState<string | null>(null);
   const [popoverPosition, setPopoverPosition] = useState<{x: number, y: number}>({x: 0, y: 0});
-  const [progress, setProgress] = useState<{step: string, current: number, total: number} | null>(null);
-  const [refreshing, setRefreshing] = useState(false);
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+  const { refreshing, refreshError, followJob, startRefresh, cancelRefresh } = useRefreshJob(source, 'issues', {
+    onProgress: setProgress,
+    onFinished: () => reloadData()
+  });
   const [copyLinkSuccess, setCopyLinkSuccess] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
+  const [partialData, setPartialData] = useState(false);
+  const [staleData, setStaleData] = useState(false);
+  const [backgroundRefresh, setBackgroundRefresh] = useState(false);
+  const [pageLimit, setPageLimit] = useState<number | null>(null);
 
   useEffect(() => {
     fetchAKSIssues();
     fetchCacheInfo();
   }, []);
 
+  // Apply changes pushed by the server (webhook deliveries and background refreshes)
+  // without reloading the page
+  useEffect(() => {
+    const updates = new EventSource(`/api/updates?source=${source.id}`);
+    updates.onmessage = (event) => {
+      try {
+        const update: { dataset: string; id?: string; item?: AKSIssue | null; refreshed?: boolean } = JSON.parse(event.data);
+        if (update.dataset !== 'issues') return;
+        if (update.refreshed) {
+          reloadData();
+          return;
+        }
+        const item = update.item;
+        setIssues(current => {
+          if (!item) return current.filter(existing => existing.id !== update.id);
+          const index = current.findIndex(existing => existing.id === update.id);
+          if (index === -1) return [...current, item];
+          return current.map(existing => existing.id === update.id ? item : existing);
+        });
+      } catch (e) {
+        console.error('Failed to parse update:', e);
+      }
+    };
+    return () => updates.close();
+  }, [source.id]);
+
+  // Filters are restored once, from the first load; later loads and pushed updates keep
+  // whatever the user has selected since
+  const filtersRestored = useRef(false);
+
   useEffect(() => {
-    if (issues.length > 0) {
+    if (issues.length > 0 && !filtersRestored.current) {
+      filtersRestored.current = true;
       // Check if URL has filter parameters
       const urlParams = new URLSearchParams(window.location.search);
       const hasUrlFilters = urlParams.toString().length > 0;
@@ -95,16 +162,27 @@ const AKSIssuesPage: React.FC = () => {
           setSelectedUnassigned(urlParams.get('unassigned') === 'true');
         }
         
+        if (urlParams.has('mergedPrOpen')) {
+          setSelectedMergedPrOpen(urlParams.get('mergedPrOpen') === 'true');
+        }
+        
+        if (urlParams.has('states')) {
+          const states = urlParams.get('states')?.split(',').filter(s => s) || [];
+          setSelectedStates(new Set(states));
+        }
+        
         if (urlParams.has('columns')) {
           const columns = urlParams.get('columns')?.split(',').filter(c => c) || [];
           setVisibleColumns(new Set(columns));
         }
       } else {
         // Load from localStorage if no URL parameters
-        const savedLabels = localStorage.getItem('aksSelectedLabels');
-        const savedAssignees = localStorage.getItem('aksSelectedAssignees');
-        const savedUnassigned = localStorage.getItem('aksSelectedUnassigned');
-        const savedVisibleColumns = localStorage.getItem('aksVisibleColumns');
+        const savedLabels = localStorage.getItem(storageKey(source, 'aksSelectedLabels'));
+        const savedAssignees = localStorage.getItem(storageKey(source, 'aksSelectedAssignees'));
+        const savedUnassigned = localStorage.getItem(storageKey(source, 'aksSelectedUnassigned'));
+        const savedMergedPrOpen = localStorage.getItem(storageKey(source, 'aksSelectedMergedPrOpen'));
+        const savedStates = localStorage.getItem(storageKey(source, 'aksSelectedStates'));
+        const savedVisibleColumns = localStorage.getItem(storageKey(source, 'aksVisibleColumns'));
         
         if (savedLabels) {
           setSelectedLabels(new Set(JSON.parse(savedLabels)));
@@ -122,6 +200,14 @@ const AKSIssuesPage: React.FC = () => {
           setSelectedUnassigned(JSON.parse(savedUnassigned));
         }
         
+        if (savedMergedPrOpen) {
+          setSelectedMergedPrOpen(JSON.parse(savedMergedPrOpen));
+        }
+        
+        if (savedStates) {
+          setSelectedStates(new Set(JSON.parse(savedStates)));
+        }
+        
         if (savedVisibleColumns) {
           setVisibleColumns(new Set(JSON.parse(savedVisibleColumns)));
         }
@@ -129,17 +215,14 @@ const AKSIssuesPage: React.FC = () => {
     }
   }, [issues]);
 
-  const fetchAKSIssues = async (forceRefresh = false) => {
+  const fetchAKSIssues = async () => {
     let cleanup: (() => void) | null = null;
     
     try {
       setLoading(true);
-      if (forceRefresh) {
-        setRefreshing(true);
-      }
       
-      // Set up Server-Sent Events for progress updates for both initial load and refresh
-      const eventSource = new EventSource('/api/progress?type=aks');
+      // Set up Server-Sent Events for progress updates while the data loads
+      const eventSource = new EventSource(`/api/progress?type=aks&source=${source.id}`);
       eventSource.onmessage = (event) => {
         try {
           const progressData = JSON.parse(event.data);
@@ -170,18 +253,13 @@ const AKSIssuesPage: React.FC = () => {
       // Add a small delay to ensure EventSource is connected before starting the request
       await new Promise(resolve => setTimeout(resolve, 100));
       
-      const url = forceRefresh ? '/api/aks-issues?refresh=true' : '/api/aks-issues';
-      const response = await fetch(url);
+      const response = await fetch(`/api/aks-issues?source=${source.id}`);
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
       const data = await response.json();
       setIssues(data);
       
-      if (forceRefresh) {
-        await fetchCacheInfo();
-      }
-      
       // Clean up when done
       cleanup?.();
     } catch (err) {
@@ -190,16 +268,35 @@ const AKSIssuesPage: React.FC = () => {
       cleanup?.();
     } finally {
       setLoading(false);
-      setRefreshing(false);
+    }
+  };
+
+  // Fetch the stored data again without the loading screen, after a background refresh
+  const reloadData = async () => {
+    try {
+      const response = await fetch(`/api/aks-issues?source=${source.id}`);
+      if (response.ok) {
+        setIssues(await response.json());
+        await fetchCacheInfo();
+      }
+    } catch (err) {
+      console.error('Failed to reload data:', err);
     }
   };
 
   const fetchCacheInfo = async () => {
     try {
-      const response = await fetch('/api/cache-info?type=aks');
+      const response = await fetch(`/api/cache-info?type=aks&source=${source.id}`);
       if (response.ok) {
         const data = await response.json();
         setLastUpdated(data.lastUpdated);
+        setPartialData(data.partial);
+        setStaleData(data.stale);
+        setBackgroundRefresh(data.refreshing);
+        setPageLimit(data.pageLimit);
+        if (data.jobId) {
+          followJob(data.jobId);
+        }
       }
     } catch (err) {
       console.error('Failed to fetch cache info:', err);
@@ -220,7 +317,7 @@ const AKSIssuesPage: React.FC = () => {
         return;
       }
     }
-    fetchAKSIssues(true);
+    startRefresh();
   };
 
   const formatTimestamp = (isoString: string) => {
@@ -234,8 +331,8 @@ const AKSIssuesPage: React.FC = () => {
   };
 
   const copyCurrentFiltersAsUrl = async () => {
-    const url = new URL(window.location.href);
-    url.search = '';
+    // Shared links always point at this source's page
+    const url = new URL(`/${source.id}/issues`, window.location.origin);
     
     const params = new URLSearchParams();
     
@@ -254,8 +351,17 @@ const AKSIssuesPage: React.FC = () => {
       params.set('unassigned', 'true');
     }
     
+    if (selectedMergedPrOpen) {
+      params.set('mergedPrOpen', 'true');
+    }
+    
+    // Only include states if not just open issues (the default)
+    if (selectedStates.size !== 1 || !selectedStates.has('OPEN')) {
+      params.set('states', Array.from(selectedStates).join(','));
+    }
+    
     // Only include columns if not the default set
-    const defaultColumns = new Set(['title', 'labels', 'assignees', 'created', 'updated', 'lastComment', 'needsResponse', 'ai']);
+    const defaultColumns = new Set(['title', 'labels', 'assignees', 'created', 'updated', 'lastComment', 'demand', 'linkedPrs', 'needsResponse', 'ai']);
     if (visibleColumns.size !== defaultColumns.size || 
         !Array.from(visibleColumns).every(col => defaultColumns.has(col))) {
       params.set('columns', Array.from(visibleColumns).join(','));
@@ -288,7 +394,11 @@ const AKSIssuesPage: React.FC = () => {
     const assigneeMatch = selectedAssignees.size === 0 ||
       issue.assignees.some(assignee => selectedAssignees.has(assignee.name || assignee.login));
     const unassignedMatch = !selectedUnassigned || issue.assignees.length === 0;
-    return labelMatch && assigneeMatch && unassignedMatch;
+    // Code has landed but the issue was never closed
+    const mergedPrOpenMatch = !selectedMergedPrOpen ||
+      (issue.state === 'OPEN' && !!issue.linkedPullRequests?.some(pr => pr.state === 'MERGED'));
+    const stateMatch = selectedStates.size === 0 || selectedStates.has(issue.state);
+    return labelMatch && assigneeMatch && unassignedMatch && stateMatch && mergedPrOpenMatch;
   });
 
   const sortedIssues = [...filteredIssues].sort((a, b) => {
@@ -313,10 +423,22 @@ const AKSIssuesPage: React.FC = () => {
         aValue = a.lastComment ? new Date(a.lastComment.createdAt) : new Date(0);
         bValue = b.lastComment ? new Date(b.lastComment.createdAt) : new Date(0);
         break;
+      case 'closedAt':
+        aValue = a.closedAt ? new Date(a.closedAt) : new Date(0);
+        bValue = b.closedAt ? new Date(b.closedAt) : new Date(0);
+        break;
       case 'comments':
         aValue = a.comments;
         bValue = b.comments;
         break;
+      case 'demand':
+        aValue = a.demand?.score || 0;
+        bValue = b.demand?.score || 0;
+        break;
+      case 'linkedPrs':
+        aValue = a.linkedPullRequests?.length || 0;
+        bValue = b.linkedPullRequests?.length || 0;
+        break;
       case 'assignees':
         aValue = a.assignees.length > 0 ? a.assignees[0].name || a.assignees[0].login : '';
         bValue = b.assignees.length > 0 ? b.assignees[0].name || b.assignees[0].login : '';
@@ -351,6 +473,7 @@ const AKSIssuesPage: React.FC = () => {
     return `${Math.floor(diffDays / 365)} years ago`;
   };
 
+  const openCount = issues.filter(issue => issue.state !== 'CLOSED').length;
   const uniqueLabels = [...new Set(issues.flatMap(issue => issue.labels.map(label => label.name)))].sort();
   const uniqueAssignees = [...new Set(issues.flatMap(issue => issue.assignees.map(assignee => assignee.name || assignee.login)))].sort();
 
@@ -362,16 +485,16 @@ const AKSIssuesPage: React.FC = () => {
       newSelected.add(label);
     }
     setSelectedLabels(newSelected);
-    localStorage.setItem('aksSelectedLabels', JSON.stringify([...newSelected]));
+    localStorage.setItem(storageKey(source, 'aksSelectedLabels'), JSON.stringify([...newSelected]));
   };
 
   const handleLabelSelectAll = () => {
     if (selectedLabels.size === uniqueLabels.length) {
       setSelectedLabels(new Set());
-      localStorage.setItem('aksSelectedLabels', JSON.stringify([]));
+      localStorage.setItem(storageKey(source, 'aksSelectedLabels'), JSON.stringify([]));
     } else {
       setSelectedLabels(new Set(uniqueLabels));
-      localStorage.setItem('aksSelectedLabels', JSON.stringify(uniqueLabels));
+      localStorage.setItem(storageKey(source, 'aksSelectedLabels'), JSON.stringify(uniqueLabels));
     }
   };
 
@@ -383,23 +506,47 @@ const AKSIssuesPage: React.FC = () => {
       newSelected.add(assignee);
     }
     setSelectedAssignees(newSelected);
-    localStorage.setItem('aksSelectedAssignees', JSON.stringify([...newSelected]));
+    localStorage.setItem(storageKey(source, 'aksSelectedAssignees'), JSON.stringify([...newSelected]));
   };
 
   const handleAssigneeSelectAll = () => {
     if (selectedAssignees.size === uniqueAssignees.length) {
       setSelectedAssignees(new Set());
-      localStorage.setItem('aksSelectedAssignees', JSON.stringify([]));
+      localStorage.setItem(storageKey(source, 'aksSelectedAssignees'), JSON.stringify([]));
     } else {
       setSelectedAssignees(new Set(uniqueAssignees));
-      localStorage.setItem('aksSelectedAssignees', JSON.stringify(uniqueAssignees));
+      localStorage.setItem(storageKey(source, 'aksSelectedAssignees'), JSON.stringify(uniqueAssignees));
     }
   };
 
   const handleUnassignedToggle = () => {
     const newValue = !selectedUnassigned;
     setSelectedUnassigned(newValue);
-    localStorage.setItem('aksSelectedUnassigned', JSON.stringify(newValue));
+    localStorage.setItem(storageKey(source, 'aksSelectedUnassigned'), JSON.stringify(newValue));
+  };
+
+  const handleMergedPrOpenToggle = () => {
+    const newValue = !selectedMergedPrOpen;
+    setSelectedMergedPrOpen(newValue);
+    localStorage.setItem(storageKey(source, 'aksSelectedMergedPrOpen'), JSON.stringify(newValue));
+  };
+
+  const handleStateToggle = (state: string) => {
+    const newSelected = new Set(selectedStates);
+    if (newSelected.has(state)) {
+      newSelected.delete(state);
+    } else {
+      newSelected.add(state);
+    }
+    setSelectedStates(newSelected);
+    localStorage.setItem(storageKey(source, 'aksSelectedStates'), JSON.stringify([...newSelected]));
+  };
+
+  const formatCloseReason = (reason: string | null | undefined) => {
+    if (reason === 'NOT_PLANNED') return 'not planned';
+    if (reason === 'DUPLICATE') return 'duplicate';
+    if (reason === 'COMPLETED') return 'completed';
+    return null;
   };
 
   const handleColumnToggle = (column: string) => {
@@ -410,7 +557,7 @@ const AKSIssuesPage: React.FC = () => {
       newVisible.add(column);
     }
     setVisibleColumns(newVisible);
-    localStorage.setItem('aksVisibleColumns', JSON.stringify([...newVisible]));
+    localStorage.setItem(storageKey(source, 'aksVisibleColumns'), JSON.stringify([...newVisible]));
   };
 
   const handleSort = (field: string) => {
@@ -496,7 +643,7 @@ const AKSIssuesPage: React.FC = () => {
               </div>
             </div>
           ) : (
-            'Loading Azure AKS issues...'
+            `Loading ${source.name} issues...`
           )}
         </div>
       </div>
@@ -520,11 +667,15 @@ const AKSIssuesPage: React.FC = () => {
       <div className="header">
         <div className="header-content">
           <div className="title-section">
-            <h1>Azure AKS Open Issues Analysis</h1>
-            <p>Analyzing all open issues from Azure/AKS repository (~600 issues)</p>
+            <h1>{source.name} Issues Analysis</h1>
+            <p>Analyzing open and recently closed issues from {source.repoOwner}/{source.repoName} repository ({openCount} open, {issues.length - openCount} closed)</p>
             {lastUpdated && (
               <div className="timestamp">
                 {formatTimestamp(lastUpdated)}
+                {partialData && ' (incomplete refresh, retrying soon)'}
+                {staleData && (backgroundRefresh ? ' (out of date, refreshing in the background)' : ' (out of date)')}
+                {refreshError && ` (refresh failed: ${refreshError})`}
+                {pageLimit && ` (incomplete: the last refresh stopped at the GITHUB_MAX_PAGES limit of ${pageLimit} pages, the next one continues from there)`}
               </div>
             )}
           </div>
@@ -536,6 +687,12 @@ const AKSIssuesPage: React.FC = () => {
             >
               {copyLinkSuccess ? '✓ Copied!' : '🔗 Copy Link'}
             </button>
+            {refreshing && (
+              <span className="refresh-status">
+                {progress ? `${progress.step} (${progress.current}/${progress.total})` : 'Refreshing…'}
+                <button className="cancel-refresh-button" onClick={cancelRefresh}>Cancel</button>
+              </span>
+            )}
             <button 
               className={`refresh-button-small ${isDataRecent() ? 'disabled' : ''}`}
               onClick={handleRefresh}
@@ -651,6 +808,60 @@ const AKSIssuesPage: React.FC = () => {
             </div>
           </div>
           
+          <div className="filter-item">
+            <h3>Pull requests:</h3>
+            <div className="dropdown-filter">
+              <button 
+                className="dropdown-toggle"
+                onClick={() => setPullRequestsDropdownOpen(!pullRequestsDropdownOpen)}
+              >
+                Linked PRs ▼
+              </button>
+              {pullRequestsDropdownOpen && (
+                <div className="dropdown-content">
+                  <div className="dropdown-options">
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={selectedMergedPrOpen}
+                        onChange={handleMergedPrOpenToggle}
+                      />
+                      <span>Show only open issues with a merged PR</span>
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+          
+          <div className="filter-item">
+            <h3>State:</h3>
+            <div className="dropdown-filter">
+              <button 
+                className="dropdown-toggle"
+                onClick={() => setStatesDropdownOpen(!statesDropdownOpen)}
+              >
+                State ({selectedStates.size}/2) ▼
+              </button>
+              {statesDropdownOpen && (
+                <div className="dropdown-content">
+                  <div className="dropdown-options">
+                    {[['OPEN', 'Open'], ['CLOSED', 'Closed']].map(([state, label]) => (
+                      <label key={state} className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={selectedStates.has(state)}
+                          onChange={() => handleStateToggle(state)}
+                        />
+                        <span>{label}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+          
           <div className="filter-item">
             <h3>Columns:</h3>
             <div className="dropdown-filter">
@@ -658,7 +869,7 @@ const AKSIssuesPage: React.FC = () => {
                 className="dropdown-toggle"
                 onClick={() => setColumnsDropdownOpen(!columnsDropdownOpen)}
               >
-                Columns ({visibleColumns.size}/8) ▼
+                Columns ({visibleColumns.size}/11) ▼
               </button>
               {columnsDropdownOpen && (
                 <div className="dropdown-content">
@@ -703,6 +914,14 @@ const AKSIssuesPage: React.FC = () => {
                       />
                       <span>Last comment</span>
                     </label>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={visibleColumns.has('closed')}
+                        onChange={() => handleColumnToggle('closed')}
+                      />
+                      <span>Closed</span>
+                    </label>
                     <label className="checkbox-label">
                       <input
                         type="checkbox"
@@ -719,6 +938,22 @@ const AKSIssuesPage: React.FC = () => {
                       />
                       <span>AI</span>
                     </label>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={visibleColumns.has('demand')}
+                        onChange={() => handleColumnToggle('demand')}
+                      />
+                      <span>Demand</span>
+                    </label>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={visibleColumns.has('linkedPrs')}
+                        onChange={() => handleColumnToggle('linkedPrs')}
+                      />
+                      <span>Linked PRs</span>
+                    </label>
                   </div>
                 </div>
               )}
@@ -757,6 +992,21 @@ const AKSIssuesPage: React.FC = () => {
                   Last comment{getSortIcon('lastComment')}
                 </th>
               )}
+              {visibleColumns.has('closed') && (
+                <th className="sortable" onClick={() => handleSort('closedAt')}>
+                  Closed{getSortIcon('closedAt')}
+                </th>
+              )}
+              {visibleColumns.has('demand') && (
+                <th className="sortable" onClick={() => handleSort('demand')}>
+                  Demand{getSortIcon('demand')}
+                </th>
+              )}
+              {visibleColumns.has('linkedPrs') && (
+                <th className="sortable" onClick={() => handleSort('linkedPrs')}>
+                  Linked PRs{getSortIcon('linkedPrs')}
+                </th>
+              )}
               {visibleColumns.has('needsResponse') && (
                 <th>Needs response</th>
               )}
@@ -844,6 +1094,63 @@ const AKSIssuesPage: React.FC = () => {
                     </div>
                   </td>
                 )}
+                {visibleColumns.has('closed') && (
+                  <td>
+                    {issue.closedAt && (
+                      <div className="date-info">
+                        {formatDate(issue.closedAt)}
+                        {formatCloseReason(issue.closeReason) && (
+                          <>
+                            <br />
+                            <small>as {formatCloseReason(issue.closeReason)}</small>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                )}
+                {visibleColumns.has('demand') && (
+                  <td>
+                    {issue.demand ? (
+                      <span
+                        className="demand-score"
+                        title={`${issue.demand.reactions} reactions, ${issue.demand.commentReactions} on comments, ${issue.demand.uniqueCommenters} commenters, ${issue.demand.commentsPerWeek} comments/week lately`}
+                      >
+                        {issue.demand.score}
+                      </span>
+                    ) : (
+                      <span style={{ color: '#999', fontSize: '12px' }}>-</span>
+                    )}
+                  </td>
+                )}
+                {visibleColumns.has('linkedPrs') && (
+                  <td>
+                    {issue.linkedPullRequests && issue.linkedPullRequests.length > 0 ? (
+                      <div className="linked-prs">
+                        <small>
+                          {issue.linkedPullRequests.length} PR{issue.linkedPullRequests.length === 1 ? '' : 's'}
+                          {issue.linkedPullRequests.some(pr => pr.state === 'MERGED') && `, ${issue.linkedPullRequests.filter(pr => pr.state === 'MERGED').length} merged`}
+                        </small>
+                        <div>
+                          {issue.linkedPullRequests.map(pr => (
+                            <a
+                              key={pr.id}
+                              href={pr.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className={`pr-link pr-${pr.state.toLowerCase()}`}
+                              title={`${pr.repository}#${pr.number} ${pr.title} (${pr.mergedAt ? `merged ${formatDate(pr.mergedAt)}` : pr.state.toLowerCase()}${pr.closesIssue ? ', closes this issue' : ''})`}
+                            >
+                              #{pr.number}
+                            </a>
+                          ))}
+                        </div>
+                      </div>
+                    ) : (
+                      <span style={{ color: '#999', fontSize: '12px' }}>None</span>
+                    )}
+                  </td>
+                )}
                 {visibleColumns.has('needsResponse') && (
                   <td>
                     {issue.needsResponse && (
@@ -899,6 +1206,8 @@ const AKSIssuesPage: React.FC = () => {
                             </div>
                           )}
                         </>
+                      ) : issue.state === 'CLOSED' ? (
+                        <span style={{ color: '#666', fontSize: '12px' }}>Closed</span>
                       ) : (
                         <span className="ai-processing">Processing...</span>
                       )}
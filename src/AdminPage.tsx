@@ -0,0 +1,359 @@
+import React, { useState, useEffect } from 'react';
+import { DataSource } from './sources';
+
+interface TableStats {
+  table: string;
+  rows: number;
+  sizeBytes: number | null;
+  oldest: string | null;
+  newest: string | null;
+  ages: Record<string, number> | null;
+}
+
+interface CacheStats {
+  databaseBytes: number;
+  tables: TableStats[];
+  ai: {
+    rows: number;
+    failed: number;
+    empty: number;
+    groups: Array<{
+      source: string;
+      kind: string | null;
+      promptVersion: string | null;
+      provider: string | null;
+      model: string | null;
+      rows: number;
+      failed: number;
+      empty: number;
+    }>;
+  };
+  datasets: Array<{
+    source: string;
+    dataset: string;
+    items: number;
+    lastUpdated: string | null;
+    expired: boolean;
+  }>;
+}
+
+const AdminPage: React.FC<{ sources: DataSource[] }> = ({ sources }) => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [adminToken, setAdminToken] = useState(localStorage.getItem('adminToken') || '');
+  const [target, setTarget] = useState('ai');
+  const [sourceId, setSourceId] = useState('');
+  const [dataset, setDataset] = useState('');
+  const [kind, setKind] = useState('');
+  const [prefix, setPrefix] = useState('');
+  const [itemId, setItemId] = useState('');
+  const [failedOnly, setFailedOnly] = useState(false);
+  const [olderThanHours, setOlderThanHours] = useState('');
+
+  const authHeaders = (): Record<string, string> =>
+    adminToken ? { Authorization: `Bearer ${adminToken}` } : {};
+
+  useEffect(() => {
+    fetchStats();
+  }, []);
+
+  const fetchStats = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/cache/stats', { headers: authHeaders() });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `HTTP error! status: ${response.status}`);
+      }
+      setStats(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch cache statistics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTokenChange = (value: string) => {
+    setAdminToken(value);
+    localStorage.setItem('adminToken', value);
+  };
+
+  const runOperation = async (action: 'purge' | 'expire') => {
+    const params = new URLSearchParams();
+    if (sourceId) params.set('source', sourceId);
+    if (dataset) params.set('dataset', dataset);
+    if (kind) params.set('kind', kind);
+    if (prefix) params.set('prefix', prefix);
+    if (itemId) params.set('item', itemId);
+    if (failedOnly) params.set('failed', 'true');
+    if (olderThanHours) params.set('olderThanHours', olderThanHours);
+
+    if (action === 'purge' && !window.confirm(`Delete matching ${target} cache entries? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      const url = action === 'purge'
+        ? `/api/admin/cache/${target}?${params}`
+        : `/api/admin/cache/${target}/expire?${params}`;
+      const response = await fetch(url, { method: action === 'purge' ? 'DELETE' : 'POST', headers: authHeaders() });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || `HTTP error! status: ${response.status}`);
+      }
+      setMessage(`${action === 'purge' ? 'Purged' : 'Expired'} ${body.affected} ${target} entr${body.affected === 1 ? 'y' : 'ies'}`);
+      setError(null);
+      fetchStats();
+    } catch (err) {
+      setMessage(null);
+      setError(err instanceof Error ? err.message : `Failed to ${action} cache`);
+    }
+  };
+
+  const formatBytes = (bytes: number | null) => {
+    if (bytes === null) return 'n/a';
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '';
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="container">
+      <div className="header">
+        <div className="header-content">
+          <div className="title-section">
+            <h1>Cache administration</h1>
+            {stats && (
+              <div className="timestamp">
+                cache.db is {formatBytes(stats.databaseBytes)}
+              </div>
+            )}
+          </div>
+          <div className="header-buttons">
+            <button className="refresh-button-small" onClick={fetchStats} disabled={loading}>
+              {loading ? 'Loading...' : 'Reload stats'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="admin-section">
+        <label className="admin-field">
+          <span>Admin token</span>
+          <input
+            type="password"
+            value={adminToken}
+            placeholder="Only needed when ADMIN_TOKEN is set"
+            onChange={(e) => handleTokenChange(e.target.value)}
+          />
+        </label>
+      </div>
+
+      {error && <div className="error">Error: {error}</div>}
+      {message && <div className="admin-message">{message}</div>}
+
+      {stats && (
+        <>
+          <div className="stats">
+            <div className="stat-card">
+              <h3>AI results</h3>
+              <div className="number">{stats.ai.rows}</div>
+            </div>
+            <div className="stat-card">
+              <h3>Failed</h3>
+              <div className="number">{stats.ai.failed}</div>
+            </div>
+            <div className="stat-card">
+              <h3>No answer</h3>
+              <div className="number">{stats.ai.empty}</div>
+            </div>
+          </div>
+
+          <div className="admin-section">
+            <h2>Datasets</h2>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Source</th>
+                  <th>Dataset</th>
+                  <th>Items</th>
+                  <th>Last updated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.datasets.map((row) => (
+                  <tr key={`${row.source}:${row.dataset}`}>
+                    <td>{row.source}</td>
+                    <td>{row.dataset}</td>
+                    <td>{row.items}</td>
+                    <td>{formatDate(row.lastUpdated)}{row.expired ? ' (expired)' : ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="admin-section">
+            <h2>AI results by prompt and model</h2>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Source</th>
+                  <th>Kind</th>
+                  <th>Prompt</th>
+                  <th>Provider / model</th>
+                  <th>Rows</th>
+                  <th>Failed</th>
+                  <th>No answer</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.ai.groups.map((group) => (
+                  <tr key={`${group.source}:${group.kind}:${group.promptVersion}:${group.provider}:${group.model}`}>
+                    <td>{group.source}</td>
+                    <td>{group.kind || 'unknown'}</td>
+                    <td>{group.promptVersion || ''}</td>
+                    <td>{group.provider ? `${group.provider} / ${group.model}` : ''}</td>
+                    <td>{group.rows}</td>
+                    <td>{group.failed}</td>
+                    <td>{group.empty}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="admin-section">
+            <h2>Tables</h2>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Table</th>
+                  <th>Rows</th>
+                  <th>Size</th>
+                  <th>Oldest</th>
+                  <th>Newest</th>
+                  <th>Age distribution</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.tables.map((table) => (
+                  <tr key={table.table}>
+                    <td>{table.table}</td>
+                    <td>{table.rows}</td>
+                    <td>{formatBytes(table.sizeBytes)}</td>
+                    <td>{formatDate(table.oldest)}</td>
+                    <td>{formatDate(table.newest)}</td>
+                    <td>
+                      {table.ages && Object.entries(table.ages)
+                        .filter(([, count]) => count > 0)
+                        .map(([bucket, count]) => `${bucket}: ${count}`)
+                        .join(', ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <div className="admin-section">
+        <h2>Purge or expire</h2>
+        <p className="admin-hint">
+          Purging deletes the matching rows. Expiring keeps them but marks them stale, so AI results are
+          recomputed and datasets are fetched from GitHub again on the next request. Empty fields match everything.
+        </p>
+        <div className="admin-form">
+          <label className="admin-field">
+            <span>Target</span>
+            <select value={target} onChange={(e) => setTarget(e.target.value)}>
+              <option value="ai">AI results</option>
+              <option value="datasets">Datasets</option>
+              <option value="snapshots">Snapshots</option>
+              <option value="history">Status and ETA history</option>
+            </select>
+          </label>
+          <label className="admin-field">
+            <span>Source</span>
+            <select value={sourceId} onChange={(e) => setSourceId(e.target.value)}>
+              <option value="">All sources</option>
+              {sources.map(source => (
+                <option key={source.id} value={source.id}>{source.name}</option>
+              ))}
+            </select>
+          </label>
+          {(target === 'datasets' || target === 'snapshots') && (
+            <label className="admin-field">
+              <span>Dataset</span>
+              <select value={dataset} onChange={(e) => setDataset(e.target.value)}>
+                <option value="">Both</option>
+                <option value="roadmap">Roadmap</option>
+                <option value="issues">Issues</option>
+              </select>
+            </label>
+          )}
+          {target === 'ai' && (
+            <>
+              <label className="admin-field">
+                <span>Kind</span>
+                <select value={kind} onChange={(e) => setKind(e.target.value)}>
+                  <option value="">All kinds</option>
+                  <option value="availability">Availability date</option>
+                  <option value="eta">ETA from comments</option>
+                  <option value="analysis">Issue analysis</option>
+                </select>
+              </label>
+              <label className="admin-field">
+                <span>Key prefix</span>
+                <input type="text" value={prefix} placeholder="e.g. aks:analysis:" onChange={(e) => setPrefix(e.target.value)} />
+              </label>
+              <label className="checkbox-label">
+                <input type="checkbox" checked={failedOnly} onChange={() => setFailedOnly(!failedOnly)} />
+                <span>Failed only</span>
+              </label>
+            </>
+          )}
+          {target !== 'snapshots' && (
+            <label className="admin-field">
+              <span>Item id</span>
+              <input type="text" value={itemId} placeholder="GitHub issue node id" onChange={(e) => setItemId(e.target.value)} />
+            </label>
+          )}
+          {target !== 'datasets' && (
+            <label className="admin-field">
+              <span>Older than (hours)</span>
+              <input type="number" min="0" value={olderThanHours} onChange={(e) => setOlderThanHours(e.target.value)} />
+            </label>
+          )}
+        </div>
+        <div className="header-buttons">
+          <button className="refresh-button-small" onClick={() => runOperation('purge')}>
+            Purge
+          </button>
+          {(target === 'ai' || target === 'datasets') && (
+            <button className="refresh-button-small" onClick={() => runOperation('expire')}>
+              Expire
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminPage;
@@ -1,43 +1,144 @@
-import React from 'react';
-import { BrowserRouter as Router, Routes, Route, Link, useLocation } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { BrowserRouter as Router, Routes, Route, Link, Navigate, useLocation, useNavigate, useParams } from 'react-router-dom';
 import RoadmapPage from './RoadmapPage';
 import AKSIssuesPage from './AKSIssuesPage';
+import AdminPage from './AdminPage';
+import { DataSource } from './sources';
 
-const Navigation: React.FC = () => {
+const Navigation: React.FC<{ sources: DataSource[] }> = ({ sources }) => {
   const location = useLocation();
+  const navigate = useNavigate();
+  
+  // Path is /:source/:page, fall back to the default source on legacy routes
+  const [, currentSourceId, currentPage] = location.pathname.split('/');
+  const activeSourceId = sources.some(s => s.id === currentSourceId) ? currentSourceId : sources[0]?.id;
+  const activePage = currentPage === 'issues' ? 'issues' : 'roadmap';
+  const onAdminPage = currentSourceId === 'admin';
+  
+  const handleSourceChange = (sourceId: string) => {
+    navigate(`/${sourceId}/${activePage}`);
+  };
   
   return (
     <nav className="app-navigation">
       <div className="nav-container">
         <Link 
-          to="/" 
-          className={`nav-link ${location.pathname === '/' ? 'active' : ''}`}
+          to={`/${activeSourceId}/roadmap`} 
+          className={`nav-link ${!onAdminPage && activePage === 'roadmap' ? 'active' : ''}`}
         >
           Roadmap
         </Link>
         <Link 
-          to="/issues" 
-          className={`nav-link ${location.pathname === '/issues' ? 'active' : ''}`}
+          to={`/${activeSourceId}/issues`} 
+          className={`nav-link ${!onAdminPage && activePage === 'issues' ? 'active' : ''}`}
         >
           All Issues
         </Link>
+        <Link 
+          to="/admin" 
+          className={`nav-link ${onAdminPage ? 'active' : ''}`}
+        >
+          Cache
+        </Link>
+        {sources.length > 1 && (
+          <div className="source-picker">
+            <label htmlFor="source-select">Source:</label>
+            <select
+              id="source-select"
+              value={activeSourceId}
+              onChange={(e) => handleSourceChange(e.target.value)}
+            >
+              {sources.map(source => (
+                <option key={source.id} value={source.id}>{source.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
     </nav>
   );
 };
 
+// Old links (/ and /issues) point at the default source, keeping any shared filter parameters
+const LegacyRedirect: React.FC<{ to: string }> = ({ to }) => {
+  const location = useLocation();
+  return <Navigate to={`${to}${location.search}`} replace />;
+};
+
+// Resolves the :source route parameter and renders the page for it
+const SourcePage: React.FC<{ sources: DataSource[], page: 'roadmap' | 'issues' }> = ({ sources, page }) => {
+  const { source: sourceId } = useParams<{ source: string }>();
+  const source = sources.find(s => s.id === sourceId);
+  
+  if (!source) {
+    return (
+      <div className="container">
+        <div className="error">
+          Unknown source: {sourceId}
+        </div>
+      </div>
+    );
+  }
+  
+  // Keying by source resets all page state when switching sources
+  return page === 'roadmap'
+    ? <RoadmapPage key={source.id} source={source} />
+    : <AKSIssuesPage key={source.id} source={source} />;
+};
+
 const App: React.FC = () => {
+  const [sources, setSources] = useState<DataSource[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  
+  useEffect(() => {
+    const fetchSources = async () => {
+      try {
+        const response = await fetch('/api/sources');
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        setSources(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch sources');
+      }
+    };
+    fetchSources();
+  }, []);
+  
+  if (error) {
+    return (
+      <div className="container">
+        <div className="error">
+          Error: {error}
+        </div>
+      </div>
+    );
+  }
+  
+  if (sources.length === 0) {
+    return (
+      <div className="container">
+        <div className="loading">Loading sources...</div>
+      </div>
+    );
+  }
+  
+  const defaultSourceId = sources[0].id;
+  
   return (
     <Router>
       <div className="app">
-        <Navigation />
+        <Navigation sources={sources} />
         <Routes>
-          <Route path="/" element={<RoadmapPage />} />
-          <Route path="/issues" element={<AKSIssuesPage />} />
+          <Route path="/" element={<LegacyRedirect to={`/${defaultSourceId}/roadmap`} />} />
+          <Route path="/issues" element={<LegacyRedirect to={`/${defaultSourceId}/issues`} />} />
+          <Route path="/admin" element={<AdminPage sources={sources} />} />
+          <Route path="/:source/roadmap" element={<SourcePage sources={sources} page="roadmap" />} />
+          <Route path="/:source/issues" element={<SourcePage sources={sources} page="issues" />} />
         </Routes>
       </div>
     </Router>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -1,7 +1,62 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { DataSource, storageKey } from './sources';
+import { JobProgress, useRefreshJob } from './useRefreshJob';
+
+interface RelatedIssue {
+  id: string;
+  number: number;
+  title: string;
+  url: string;
+  state: string;
+  repository: string;
+  assignees: Array<{
+    login: string;
+    name: string | null;
+    avatarUrl: string;
+  }>;
+}
+
+interface ChildIssue extends RelatedIssue {
+  relation: 'SUB_ISSUE' | 'TRACKED';
+}
+
+interface Demand {
+  score: number;
+  reactions: number;
+  commentReactions: number;
+  uniqueCommenters: number;
+  commentsPerWeek: number;
+}
+
+interface LinkedPullRequest {
+  id: string;
+  number: number;
+  title: string;
+  url: string;
+  state: string;
+  mergedAt: string | null;
+  repository: string;
+  closesIssue: boolean;
+}
+
+interface ProjectFieldValue {
+  type: 'SINGLE_SELECT' | 'ITERATION' | 'DATE' | 'NUMBER' | 'TEXT';
+  value: string | number;
+  startDate?: string;
+  duration?: number;
+}
+
+type ItemType = 'ISSUE' | 'PULL_REQUEST' | 'DRAFT_ISSUE';
+
+const ITEM_TYPE_LABELS: Record<ItemType, string> = {
+  ISSUE: 'Issue',
+  PULL_REQUEST: 'Pull request',
+  DRAFT_ISSUE: 'Draft issue'
+};
 
 interface RoadmapItem {
   id: string;
+  type: ItemType;
   title: string;
   url: string;
   body: string;
@@ -9,6 +64,8 @@ interface RoadmapItem {
   updatedAt: string;
   lastEditedAt: string | null;
   status: string;
+  // Issue or pull request state (OPEN, CLOSED, MERGED); null for drafts
+  state?: string | null;
   labels: Array<{
     name: string;
     color: string;
@@ -25,6 +82,8 @@ interface RoadmapItem {
     commentText: string;
     url: string;
   } | null;
+  extractedDateRange?: EtaRange | null;
+  extractedEtaRange?: EtaRange | null;
   lastComment?: {
     createdAt: string;
     author: {
@@ -33,30 +92,81 @@ interface RoadmapItem {
     };
   } | null;
   needsResponse?: boolean;
+  linkedPullRequests?: LinkedPullRequest[];
+  demand?: Demand;
+  parent?: RelatedIssue | null;
+  children?: ChildIssue[];
+  completion?: { closed: number; total: number } | null;
+  statusHistory?: Array<{
+    from: string | null;
+    to: string;
+    observedAt: string;
+  }>;
+  etaSlip?: {
+    from: string;
+    to: string;
+    slippedAt: string;
+    author: string | null;
+    commentText: string | null;
+    url: string | null;
+  } | null;
+  fields?: Record<string, ProjectFieldValue>;
+}
+
+// An ETA as inclusive YYYY-MM-DD dates, normalized by the server from the ETA text
+interface EtaRange {
+  start: string;
+  end: string;
+  precision: 'day' | 'month' | 'quarter' | 'half' | 'season' | 'year';
+  stage: 'preview' | 'ga' | null;
 }
 
-const RoadmapPage: React.FC = () => {
+// Board fields get their own columns and sort keys, prefixed so they cannot clash with built-in ones
+const FIELD_PREFIX = 'field:';
+
+const RoadmapPage: React.FC<{ source: DataSource }> = ({ source }) => {
   const [items, setItems] = useState<RoadmapItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedStatuses, setSelectedStatuses] = useState<Set<string>>(new Set());
+  const [selectedTypes, setSelectedTypes] = useState<Set<string>>(new Set());
   const [selectedLabels, setSelectedLabels] = useState<Set<string>>(new Set());
   const [selectedAssignees, setSelectedAssignees] = useState<Set<string>>(new Set());
   const [selectedNeedsResponse, setSelectedNeedsResponse] = useState<boolean>(false);
   const [selectedUnassigned, setSelectedUnassigned] = useState<boolean>(false);
+  const [selectedMergedPrOpen, setSelectedMergedPrOpen] = useState<boolean>(false);
+  const [selectedSlipped, setSelectedSlipped] = useState<boolean>(false);
+  // First and last month (YYYY-MM) an item's ETA must overlap; '' leaves that side open
+  const [selectedEtaFrom, setSelectedEtaFrom] = useState<string>('');
+  const [selectedEtaTo, setSelectedEtaTo] = useState<string>('');
+  // Selected values per board field; fields without an entry are not filtered
+  const [selectedFieldValues, setSelectedFieldValues] = useState<Record<string, string[]>>({});
   const [labelsDropdownOpen, setLabelsDropdownOpen] = useState(false);
   const [assigneesDropdownOpen, setAssigneesDropdownOpen] = useState(false);
   const [statusDropdownOpen, setStatusDropdownOpen] = useState(false);
+  const [typeDropdownOpen, setTypeDropdownOpen] = useState(false);
   const [needsResponseDropdownOpen, setNeedsResponseDropdownOpen] = useState(false);
   const [unassignedDropdownOpen, setUnassignedDropdownOpen] = useState(false);
-  const [visibleColumns, setVisibleColumns] = useState<Set<string>>(new Set(['title', 'labels', 'assignees', 'created', 'updated', 'timeline', 'lastComment', 'needsResponse']));
+  const [pullRequestsDropdownOpen, setPullRequestsDropdownOpen] = useState(false);
+  const [slippedDropdownOpen, setSlippedDropdownOpen] = useState(false);
+  const [fieldsDropdownOpen, setFieldsDropdownOpen] = useState(false);
+  const [visibleColumns, setVisibleColumns] = useState<Set<string>>(new Set(['title', 'labels', 'assignees', 'created', 'updated', 'timeline', 'lastComment', 'demand', 'linkedPrs', 'needsResponse', 'stage']));
   const [columnsDropdownOpen, setColumnsDropdownOpen] = useState(false);
   const [sortField, setSortField] = useState<string>('');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
-  const [refreshing, setRefreshing] = useState(false);
-  const [progress, setProgress] = useState<{step: string, current: number, total: number} | null>(null);
+  const [partialData, setPartialData] = useState(false);
+  const [staleData, setStaleData] = useState(false);
+  const [backgroundRefresh, setBackgroundRefresh] = useState(false);
+  const [pageLimit, setPageLimit] = useState<number | null>(null);
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+  const { refreshing, refreshError, followJob, startRefresh, cancelRefresh } = useRefreshJob(source, 'roadmap', {
+    onProgress: setProgress,
+    onFinished: () => reloadData()
+  });
   const [copyLinkSuccess, setCopyLinkSuccess] = useState(false);
+  const [expandedTimelines, setExpandedTimelines] = useState<Set<string>>(new Set());
+  const [expandedChildren, setExpandedChildren] = useState<Set<string>>(new Set());
 
   const isDataRecent = () => {
     if (!lastUpdated) return false;
@@ -71,14 +181,46 @@ const RoadmapPage: React.FC = () => {
     fetchCacheInfo();
   }, []);
 
+  // Apply changes pushed by the server (webhook deliveries and background refreshes)
+  // without reloading the page
+  useEffect(() => {
+    const updates = new EventSource(`/api/updates?source=${source.id}`);
+    updates.onmessage = (event) => {
+      try {
+        const update: { dataset: string; id?: string; item?: RoadmapItem | null; refreshed?: boolean } = JSON.parse(event.data);
+        if (update.dataset !== 'roadmap') return;
+        if (update.refreshed) {
+          reloadData();
+          return;
+        }
+        const item = update.item;
+        setItems(current => {
+          if (!item) return current.filter(existing => existing.id !== update.id);
+          const index = current.findIndex(existing => existing.id === update.id);
+          if (index === -1) return [...current, item];
+          return current.map(existing => existing.id === update.id ? item : existing);
+        });
+      } catch (e) {
+        console.error('Failed to parse update:', e);
+      }
+    };
+    return () => updates.close();
+  }, [source.id]);
+
+  // Filters are restored once, from the first load; later loads and pushed updates keep
+  // whatever the user has selected since
+  const filtersRestored = useRef(false);
+
   useEffect(() => {
-    if (items.length > 0) {
+    if (items.length > 0 && !filtersRestored.current) {
+      filtersRestored.current = true;
       // Check if URL has filter parameters
       const urlParams = new URLSearchParams(window.location.search);
       const hasUrlFilters = urlParams.toString().length > 0;
       
       // Get all unique values for comparison
       const uniqueStatuses = [...new Set(items.map(item => item.status))];
+      const uniqueTypes = [...new Set(items.map(item => item.type))];
       const uniqueLabels = [...new Set(items.flatMap(item => item.labels.map(label => label.name)))];
       const uniqueAssignees = [...new Set(items.flatMap(item => item.assignees.map(assignee => assignee.name || assignee.login)))];
       
@@ -92,6 +234,14 @@ const RoadmapPage: React.FC = () => {
           setSelectedStatuses(new Set(uniqueStatuses));
         }
         
+        if (urlParams.has('types')) {
+          const types = urlParams.get('types')?.split(',').filter(t => t) || [];
+          setSelectedTypes(new Set(types));
+        } else {
+          // No types param means all are selected
+          setSelectedTypes(new Set(uniqueTypes));
+        }
+        
         if (urlParams.has('labels')) {
           const labels = urlParams.get('labels')?.split(',').filter(l => l) || [];
           setSelectedLabels(new Set(labels));
@@ -116,18 +266,43 @@ const RoadmapPage: React.FC = () => {
           setSelectedUnassigned(urlParams.get('unassigned') === 'true');
         }
         
+        if (urlParams.has('mergedPrOpen')) {
+          setSelectedMergedPrOpen(urlParams.get('mergedPrOpen') === 'true');
+        }
+        
+        if (urlParams.has('slipped')) {
+          setSelectedSlipped(urlParams.get('slipped') === 'true');
+        }
+        
+        setSelectedEtaFrom(urlParams.get('etaFrom') || '');
+        setSelectedEtaTo(urlParams.get('etaTo') || '');
+        
+        const fieldValues: Record<string, string[]> = {};
+        urlParams.forEach((value, key) => {
+          if (key.startsWith(FIELD_PREFIX)) {
+            fieldValues[key.slice(FIELD_PREFIX.length)] = value.split(',');
+          }
+        });
+        setSelectedFieldValues(fieldValues);
+        
         if (urlParams.has('columns')) {
           const columns = urlParams.get('columns')?.split(',').filter(c => c) || [];
           setVisibleColumns(new Set(columns));
         }
       } else {
         // Load from localStorage if no URL parameters
-        const savedStatuses = localStorage.getItem('selectedStatuses');
-        const savedLabels = localStorage.getItem('selectedLabels');
-        const savedAssignees = localStorage.getItem('selectedAssignees');
-        const savedNeedsResponse = localStorage.getItem('selectedNeedsResponse');
-        const savedUnassigned = localStorage.getItem('selectedUnassigned');
-        const savedVisibleColumns = localStorage.getItem('visibleColumns');
+        const savedStatuses = localStorage.getItem(storageKey(source, 'selectedStatuses'));
+        const savedTypes = localStorage.getItem(storageKey(source, 'selectedTypes'));
+        const savedLabels = localStorage.getItem(storageKey(source, 'selectedLabels'));
+        const savedAssignees = localStorage.getItem(storageKey(source, 'selectedAssignees'));
+        const savedNeedsResponse = localStorage.getItem(storageKey(source, 'selectedNeedsResponse'));
+        const savedUnassigned = localStorage.getItem(storageKey(source, 'selectedUnassigned'));
+        const savedMergedPrOpen = localStorage.getItem(storageKey(source, 'selectedMergedPrOpen'));
+        const savedSlipped = localStorage.getItem(storageKey(source, 'selectedSlipped'));
+        const savedEtaFrom = localStorage.getItem(storageKey(source, 'selectedEtaFrom'));
+        const savedEtaTo = localStorage.getItem(storageKey(source, 'selectedEtaTo'));
+        const savedFieldValues = localStorage.getItem(storageKey(source, 'selectedFieldValues'));
+        const savedVisibleColumns = localStorage.getItem(storageKey(source, 'visibleColumns'));
         
         if (savedStatuses) {
           setSelectedStatuses(new Set(JSON.parse(savedStatuses)));
@@ -142,6 +317,12 @@ const RoadmapPage: React.FC = () => {
           setSelectedStatuses(new Set(defaultStatuses));
         }
         
+        if (savedTypes) {
+          setSelectedTypes(new Set(JSON.parse(savedTypes)));
+        } else {
+          setSelectedTypes(new Set(uniqueTypes));
+        }
+        
         if (savedLabels) {
           setSelectedLabels(new Set(JSON.parse(savedLabels)));
         } else {
@@ -162,6 +343,26 @@ const RoadmapPage: React.FC = () => {
           setSelectedUnassigned(JSON.parse(savedUnassigned));
         }
         
+        if (savedMergedPrOpen) {
+          setSelectedMergedPrOpen(JSON.parse(savedMergedPrOpen));
+        }
+        
+        if (savedSlipped) {
+          setSelectedSlipped(JSON.parse(savedSlipped));
+        }
+        
+        if (savedEtaFrom) {
+          setSelectedEtaFrom(JSON.parse(savedEtaFrom));
+        }
+        
+        if (savedEtaTo) {
+          setSelectedEtaTo(JSON.parse(savedEtaTo));
+        }
+        
+        if (savedFieldValues) {
+          setSelectedFieldValues(JSON.parse(savedFieldValues));
+        }
+        
         if (savedVisibleColumns) {
           setVisibleColumns(new Set(JSON.parse(savedVisibleColumns)));
         }
@@ -169,17 +370,14 @@ const RoadmapPage: React.FC = () => {
     }
   }, [items]);
 
-  const fetchRoadmapData = async (forceRefresh = false) => {
+  const fetchRoadmapData = async () => {
     let cleanup: (() => void) | null = null;
     
     try {
       setLoading(true);
-      if (forceRefresh) {
-        setRefreshing(true);
-      }
       
-      // Set up Server-Sent Events for progress updates for both initial load and refresh
-      const eventSource = new EventSource('/api/progress?type=roadmap');
+      // Set up Server-Sent Events for progress updates while the data loads
+      const eventSource = new EventSource(`/api/progress?type=roadmap&source=${source.id}`);
       eventSource.onmessage = (event) => {
         try {
           const progressData = JSON.parse(event.data);
@@ -201,18 +399,13 @@ const RoadmapPage: React.FC = () => {
       
       setTimeout(() => cleanup?.(), 600000); // Cleanup after 10 minutes
       
-      const url = forceRefresh ? '/api/roadmap?refresh=true' : '/api/roadmap';
-      const response = await fetch(url);
+      const response = await fetch(`/api/roadmap?source=${source.id}`);
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
       const data = await response.json();
       setItems(data);
       
-      if (forceRefresh) {
-        await fetchCacheInfo();
-      }
-      
       // Clean up when done
       cleanup?.();
     } catch (err) {
@@ -221,16 +414,35 @@ const RoadmapPage: React.FC = () => {
       cleanup?.();
     } finally {
       setLoading(false);
-      setRefreshing(false);
+    }
+  };
+
+  // Fetch the stored data again without the loading screen, after a background refresh
+  const reloadData = async () => {
+    try {
+      const response = await fetch(`/api/roadmap?source=${source.id}`);
+      if (response.ok) {
+        setItems(await response.json());
+        await fetchCacheInfo();
+      }
+    } catch (err) {
+      console.error('Failed to reload data:', err);
     }
   };
 
   const fetchCacheInfo = async () => {
     try {
-      const response = await fetch('/api/cache-info');
+      const response = await fetch(`/api/cache-info?source=${source.id}`);
       if (response.ok) {
         const data = await response.json();
         setLastUpdated(data.lastUpdated);
+        setPartialData(data.partial);
+        setStaleData(data.stale);
+        setBackgroundRefresh(data.refreshing);
+        setPageLimit(data.pageLimit);
+        if (data.jobId) {
+          followJob(data.jobId);
+        }
       }
     } catch (err) {
       console.error('Failed to fetch cache info:', err);
@@ -243,26 +455,87 @@ const RoadmapPage: React.FC = () => {
         return;
       }
     }
-    fetchRoadmapData(true);
+    startRefresh();
+  };
+
+  // Field values as shown and filtered on (dates stay YYYY-MM-DD); items without a value get ''
+  const getFieldText = (item: RoadmapItem, name: string) => {
+    const field = item.fields?.[name];
+    return field ? String(field.value) : '';
   };
 
+  // The ETA shown in the ETA column: one from an assignee comment takes precedence over the
+  // issue body
+  const getEtaRange = (item: RoadmapItem) => item.extractedEta ? item.extractedEtaRange : item.extractedDateRange;
+
   const filteredItems = items.filter(item => {
     const statusMatch = selectedStatuses.size === 0 || selectedStatuses.has(item.status);
+    const typeMatch = selectedTypes.size === 0 || selectedTypes.has(item.type);
     const labelMatch = selectedLabels.size === 0 || 
       item.labels.length === 0 || 
       item.labels.some(label => selectedLabels.has(label.name));
     const assigneeMatch = selectedAssignees.size === 0 ||
       item.assignees.some(assignee => selectedAssignees.has(assignee.name || assignee.login));
     const unassignedMatch = !selectedUnassigned || item.assignees.length === 0;
+    // Code has landed but the issue was never closed
+    const mergedPrOpenMatch = !selectedMergedPrOpen ||
+      (item.state === 'OPEN' && !!item.linkedPullRequests?.some(pr => pr.state === 'MERGED'));
     const needsResponseMatch = !selectedNeedsResponse || item.needsResponse;
-    return statusMatch && labelMatch && assigneeMatch && unassignedMatch && needsResponseMatch;
+    const slippedMatch = !selectedSlipped || !!item.etaSlip;
+    const etaRange = getEtaRange(item);
+    const etaRangeMatch = (!selectedEtaFrom && !selectedEtaTo) || (!!etaRange &&
+      (!selectedEtaFrom || etaRange.end >= `${selectedEtaFrom}-01`) &&
+      (!selectedEtaTo || etaRange.start <= `${selectedEtaTo}-31`));
+    const fieldsMatch = Object.entries(selectedFieldValues).every(([name, values]) => values.includes(getFieldText(item, name)));
+    return statusMatch && typeMatch && labelMatch && assigneeMatch && unassignedMatch && mergedPrOpenMatch && needsResponseMatch && slippedMatch && etaRangeMatch && fieldsMatch;
   });
 
+  // The last transition is when the current status was first observed
+  const getDaysInStage = (item: RoadmapItem) => {
+    const current = item.statusHistory?.[item.statusHistory.length - 1];
+    if (!current) return null;
+    return Math.floor((Date.now() - new Date(current.observedAt).getTime()) / (1000 * 60 * 60 * 24));
+  };
+
+  // Dates and iterations sort by date and numbers numerically; items without a value go last
+  const getFieldSortValue = (item: RoadmapItem, name: string) => {
+    const field = item.fields?.[name];
+    if (!field) return null;
+    if (field.type === 'DATE') return new Date(String(field.value)).getTime();
+    if (field.type === 'ITERATION') return field.startDate ? new Date(field.startDate).getTime() : String(field.value).toLowerCase();
+    if (field.type === 'NUMBER') return Number(field.value);
+    return String(field.value).toLowerCase();
+  };
+
   const sortedItems = [...filteredItems].sort((a, b) => {
     if (!sortField) return 0;
     
     let aValue: any, bValue: any;
     
+    if (sortField.startsWith(FIELD_PREFIX)) {
+      const name = sortField.slice(FIELD_PREFIX.length);
+      aValue = getFieldSortValue(a, name);
+      bValue = getFieldSortValue(b, name);
+      if (aValue === null || bValue === null) {
+        return aValue === bValue ? 0 : aValue === null ? 1 : -1;
+      }
+      if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
+      if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
+      return 0;
+    }
+    
+    // Chronological by start, then by end so "Q3 2025" comes before "H2 2025"; items
+    // without a recognised ETA go last
+    if (sortField === 'eta') {
+      const aRange = getEtaRange(a);
+      const bRange = getEtaRange(b);
+      if (!aRange || !bRange) {
+        return !aRange && !bRange ? 0 : !aRange ? 1 : -1;
+      }
+      const order = aRange.start.localeCompare(bRange.start) || aRange.end.localeCompare(bRange.end);
+      return sortDirection === 'asc' ? order : -order;
+    }
+    
     switch (sortField) {
       case 'title':
         aValue = a.title.toLowerCase();
@@ -284,6 +557,18 @@ const RoadmapPage: React.FC = () => {
         aValue = a.lastComment ? new Date(a.lastComment.createdAt) : new Date(0);
         bValue = b.lastComment ? new Date(b.lastComment.createdAt) : new Date(0);
         break;
+      case 'daysInStage':
+        aValue = getDaysInStage(a) ?? -1;
+        bValue = getDaysInStage(b) ?? -1;
+        break;
+      case 'demand':
+        aValue = a.demand?.score || 0;
+        bValue = b.demand?.score || 0;
+        break;
+      case 'linkedPrs':
+        aValue = a.linkedPullRequests?.length || 0;
+        bValue = b.linkedPullRequests?.length || 0;
+        break;
       case 'assignees':
         aValue = a.assignees.length > 0 ? a.assignees[0].name || a.assignees[0].login : '';
         bValue = b.assignees.length > 0 ? b.assignees[0].name || b.assignees[0].login : '';
@@ -350,6 +635,32 @@ const RoadmapPage: React.FC = () => {
     return `${Math.floor(diffDays / 365)} years ago`;
   };
 
+  const toggleTimeline = (itemId: string) => {
+    const newExpanded = new Set(expandedTimelines);
+    if (newExpanded.has(itemId)) {
+      newExpanded.delete(itemId);
+    } else {
+      newExpanded.add(itemId);
+    }
+    setExpandedTimelines(newExpanded);
+  };
+
+  const toggleChildren = (itemId: string) => {
+    const newExpanded = new Set(expandedChildren);
+    if (newExpanded.has(itemId)) {
+      newExpanded.delete(itemId);
+    } else {
+      newExpanded.add(itemId);
+    }
+    setExpandedChildren(newExpanded);
+  };
+
+  const describeCompletion = (item: RoadmapItem) => {
+    if (!item.completion) return '';
+    const allSubIssues = item.children?.every(child => child.relation === 'SUB_ISSUE');
+    return `${item.completion.closed} of ${item.completion.total} ${allSubIssues ? 'sub-issues' : 'child issues'} closed`;
+  };
+
   const statusCounts = items.reduce((acc, item) => {
     acc[item.status] = (acc[item.status] || 0) + 1;
     return acc;
@@ -366,11 +677,40 @@ const RoadmapPage: React.FC = () => {
     return aIndex - bIndex;
   });
   
+  const typeCounts = items.reduce((acc, item) => {
+    acc[item.type] = (acc[item.type] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  const uniqueTypes = (Object.keys(ITEM_TYPE_LABELS) as ItemType[]).filter(type => typeCounts[type]);
+  
   // Alphabetical label sorting
   const uniqueLabels = [...new Set(items.flatMap(item => item.labels.map(label => label.name)))].sort();
   
   // Alphabetical assignee sorting
   const uniqueAssignees = [...new Set(items.flatMap(item => item.assignees.map(assignee => assignee.name || assignee.login)))].sort();
+  
+  // Board fields other than Status, which has its own filter, with the values they take
+  const fieldNames = [...new Set(items.flatMap(item => Object.keys(item.fields || {})))]
+    .filter(name => name !== 'Status')
+    .sort();
+  // Expanded child rows span every visible column; the title column is always shown
+  const visibleColumnCount = 1 + [...visibleColumns].filter(column =>
+    column !== 'title' && (!column.startsWith(FIELD_PREFIX) || fieldNames.includes(column.slice(FIELD_PREFIX.length)))
+  ).length;
+  const getFieldOptions = (name: string) => {
+    const values = [...new Set(items.map(item => getFieldText(item, name)))];
+    // Keep board order for iterations and dates; the rest alphabetically
+    const sortValue = (text: string) => {
+      const item = items.find(candidate => getFieldText(candidate, name) === text);
+      return item ? getFieldSortValue(item, name) : null;
+    };
+    return values.sort((a, b) => {
+      if (!a || !b) return a ? -1 : b ? 1 : 0;
+      const aValue = sortValue(a)!;
+      const bValue = sortValue(b)!;
+      return aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
+    });
+  };
 
   const handleStatusToggle = (status: string) => {
     const newSelected = new Set(selectedStatuses);
@@ -380,17 +720,28 @@ const RoadmapPage: React.FC = () => {
       newSelected.add(status);
     }
     setSelectedStatuses(newSelected);
-    localStorage.setItem('selectedStatuses', JSON.stringify([...newSelected]));
+    localStorage.setItem(storageKey(source, 'selectedStatuses'), JSON.stringify([...newSelected]));
   };
 
   const handleStatusSelectAll = () => {
     if (selectedStatuses.size === uniqueStatuses.length) {
       setSelectedStatuses(new Set());
-      localStorage.setItem('selectedStatuses', JSON.stringify([]));
+      localStorage.setItem(storageKey(source, 'selectedStatuses'), JSON.stringify([]));
     } else {
       setSelectedStatuses(new Set(uniqueStatuses));
-      localStorage.setItem('selectedStatuses', JSON.stringify(uniqueStatuses));
+      localStorage.setItem(storageKey(source, 'selectedStatuses'), JSON.stringify(uniqueStatuses));
+    }
+  };
+
+  const handleTypeToggle = (type: string) => {
+    const newSelected = new Set(selectedTypes);
+    if (newSelected.has(type)) {
+      newSelected.delete(type);
+    } else {
+      newSelected.add(type);
     }
+    setSelectedTypes(newSelected);
+    localStorage.setItem(storageKey(source, 'selectedTypes'), JSON.stringify([...newSelected]));
   };
 
   const handleLabelToggle = (label: string) => {
@@ -401,16 +752,16 @@ const RoadmapPage: React.FC = () => {
       newSelected.add(label);
     }
     setSelectedLabels(newSelected);
-    localStorage.setItem('selectedLabels', JSON.stringify([...newSelected]));
+    localStorage.setItem(storageKey(source, 'selectedLabels'), JSON.stringify([...newSelected]));
   };
 
   const handleLabelSelectAll = () => {
     if (selectedLabels.size === uniqueLabels.length) {
       setSelectedLabels(new Set());
-      localStorage.setItem('selectedLabels', JSON.stringify([]));
+      localStorage.setItem(storageKey(source, 'selectedLabels'), JSON.stringify([]));
     } else {
       setSelectedLabels(new Set(uniqueLabels));
-      localStorage.setItem('selectedLabels', JSON.stringify(uniqueLabels));
+      localStorage.setItem(storageKey(source, 'selectedLabels'), JSON.stringify(uniqueLabels));
     }
   };
 
@@ -422,29 +773,81 @@ const RoadmapPage: React.FC = () => {
       newSelected.add(assignee);
     }
     setSelectedAssignees(newSelected);
-    localStorage.setItem('selectedAssignees', JSON.stringify([...newSelected]));
+    localStorage.setItem(storageKey(source, 'selectedAssignees'), JSON.stringify([...newSelected]));
   };
 
   const handleAssigneeSelectAll = () => {
     if (selectedAssignees.size === uniqueAssignees.length) {
       setSelectedAssignees(new Set());
-      localStorage.setItem('selectedAssignees', JSON.stringify([]));
+      localStorage.setItem(storageKey(source, 'selectedAssignees'), JSON.stringify([]));
     } else {
       setSelectedAssignees(new Set(uniqueAssignees));
-      localStorage.setItem('selectedAssignees', JSON.stringify(uniqueAssignees));
+      localStorage.setItem(storageKey(source, 'selectedAssignees'), JSON.stringify(uniqueAssignees));
     }
   };
 
   const handleNeedsResponseToggle = () => {
     const newValue = !selectedNeedsResponse;
     setSelectedNeedsResponse(newValue);
-    localStorage.setItem('selectedNeedsResponse', JSON.stringify(newValue));
+    localStorage.setItem(storageKey(source, 'selectedNeedsResponse'), JSON.stringify(newValue));
   };
 
   const handleUnassignedToggle = () => {
     const newValue = !selectedUnassigned;
     setSelectedUnassigned(newValue);
-    localStorage.setItem('selectedUnassigned', JSON.stringify(newValue));
+    localStorage.setItem(storageKey(source, 'selectedUnassigned'), JSON.stringify(newValue));
+  };
+
+  const handleMergedPrOpenToggle = () => {
+    const newValue = !selectedMergedPrOpen;
+    setSelectedMergedPrOpen(newValue);
+    localStorage.setItem(storageKey(source, 'selectedMergedPrOpen'), JSON.stringify(newValue));
+  };
+
+  const handleSlippedToggle = () => {
+    const newValue = !selectedSlipped;
+    setSelectedSlipped(newValue);
+    localStorage.setItem(storageKey(source, 'selectedSlipped'), JSON.stringify(newValue));
+  };
+
+  const handleEtaFromChange = (value: string) => {
+    setSelectedEtaFrom(value);
+    localStorage.setItem(storageKey(source, 'selectedEtaFrom'), JSON.stringify(value));
+  };
+
+  const handleEtaToChange = (value: string) => {
+    setSelectedEtaTo(value);
+    localStorage.setItem(storageKey(source, 'selectedEtaTo'), JSON.stringify(value));
+  };
+
+  // Tooltip text for a normalized ETA, e.g. "Jul 1, 2025 to Sep 30, 2025 (GA)"
+  const describeEtaRange = (range: EtaRange | null | undefined) => {
+    if (!range) return 'Date not recognised';
+    // Parse as local dates so the day does not shift with the time zone
+    const toDate = (date: string) => formatDate(`${date}T00:00:00`);
+    const dates = range.start === range.end ? toDate(range.start) : `${toDate(range.start)} to ${toDate(range.end)}`;
+    return range.stage ? `${dates} (${range.stage === 'ga' ? 'GA' : 'preview'})` : dates;
+  };
+
+  const handleFieldValueToggle = (name: string, value: string) => {
+    const current = selectedFieldValues[name] || getFieldOptions(name);
+    const values = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+    const next = { ...selectedFieldValues };
+    // Selecting every value is the same as not filtering on the field
+    if (values.length === getFieldOptions(name).length) {
+      delete next[name];
+    } else {
+      next[name] = values;
+    }
+    setSelectedFieldValues(next);
+    localStorage.setItem(storageKey(source, 'selectedFieldValues'), JSON.stringify(next));
+  };
+
+  const handleFieldClear = (name: string) => {
+    const next = { ...selectedFieldValues };
+    delete next[name];
+    setSelectedFieldValues(next);
+    localStorage.setItem(storageKey(source, 'selectedFieldValues'), JSON.stringify(next));
   };
 
   const handleColumnToggle = (column: string) => {
@@ -455,7 +858,7 @@ const RoadmapPage: React.FC = () => {
       newVisible.add(column);
     }
     setVisibleColumns(newVisible);
-    localStorage.setItem('visibleColumns', JSON.stringify([...newVisible]));
+    localStorage.setItem(storageKey(source, 'visibleColumns'), JSON.stringify([...newVisible]));
   };
 
   const handleSort = (field: string) => {
@@ -473,8 +876,8 @@ const RoadmapPage: React.FC = () => {
   };
 
   const copyCurrentFiltersAsUrl = async () => {
-    const url = new URL(window.location.href);
-    url.search = '';
+    // Shared links always point at this source's page
+    const url = new URL(`/${source.id}/roadmap`, window.location.origin);
     
     const params = new URLSearchParams();
     
@@ -483,6 +886,11 @@ const RoadmapPage: React.FC = () => {
       params.set('statuses', Array.from(selectedStatuses).join(','));
     }
     
+    // Only include types if not all are selected
+    if (selectedTypes.size > 0 && selectedTypes.size < uniqueTypes.length) {
+      params.set('types', Array.from(selectedTypes).join(','));
+    }
+    
     // Only include labels if not all are selected
     if (selectedLabels.size > 0 && selectedLabels.size < uniqueLabels.length) {
       params.set('labels', Array.from(selectedLabels).join(','));
@@ -502,8 +910,28 @@ const RoadmapPage: React.FC = () => {
       params.set('unassigned', 'true');
     }
     
+    if (selectedMergedPrOpen) {
+      params.set('mergedPrOpen', 'true');
+    }
+    
+    if (selectedSlipped) {
+      params.set('slipped', 'true');
+    }
+    
+    if (selectedEtaFrom) {
+      params.set('etaFrom', selectedEtaFrom);
+    }
+    
+    if (selectedEtaTo) {
+      params.set('etaTo', selectedEtaTo);
+    }
+    
+    Object.entries(selectedFieldValues).forEach(([name, values]) => {
+      params.set(`${FIELD_PREFIX}${name}`, values.join(','));
+    });
+    
     // Only include columns if not the default set
-    const defaultColumns = new Set(['title', 'labels', 'assignees', 'created', 'updated', 'timeline', 'lastComment', 'needsResponse']);
+    const defaultColumns = new Set(['title', 'labels', 'assignees', 'created', 'updated', 'timeline', 'lastComment', 'demand', 'linkedPrs', 'needsResponse', 'stage']);
     if (visibleColumns.size !== defaultColumns.size || 
         !Array.from(visibleColumns).every(col => defaultColumns.has(col))) {
       params.set('columns', Array.from(visibleColumns).join(','));
@@ -560,7 +988,7 @@ const RoadmapPage: React.FC = () => {
               </div>
             </div>
           ) : (
-            'Loading Azure AKS roadmap...'
+            `Loading ${source.name} roadmap...`
           )}
         </div>
       </div>
@@ -584,11 +1012,15 @@ const RoadmapPage: React.FC = () => {
       <div className="header">
         <div className="header-content">
           <div className="title-section">
-            <h1>Azure AKS Public Roadmap</h1>
-            <p>Tracking roadmap items from GitHub project #685</p>
+            <h1>{source.name} Public Roadmap</h1>
+            <p>Tracking roadmap items from GitHub project #{source.projectNumber}</p>
             {lastUpdated && (
               <div className="timestamp">
                 {formatTimestamp(lastUpdated)}
+                {partialData && ' (incomplete refresh, retrying soon)'}
+                {staleData && (backgroundRefresh ? ' (out of date, refreshing in the background)' : ' (out of date)')}
+                {refreshError && ` (refresh failed: ${refreshError})`}
+                {pageLimit && ` (incomplete: the last refresh stopped at the GITHUB_MAX_PAGES limit of ${pageLimit} pages, the next one continues from there)`}
               </div>
             )}
           </div>
@@ -600,6 +1032,12 @@ const RoadmapPage: React.FC = () => {
             >
               {copyLinkSuccess ? '✓ Copied!' : '🔗 Copy Link'}
             </button>
+            {refreshing && (
+              <span className="refresh-status">
+                {progress ? `${progress.step} (${progress.current}/${progress.total})` : 'Refreshing…'}
+                <button className="cancel-refresh-button" onClick={cancelRefresh}>Cancel</button>
+              </span>
+            )}
             <button 
               className={`refresh-button-small ${isDataRecent() ? 'disabled' : ''}`}
               onClick={handleRefresh}
@@ -654,6 +1092,35 @@ const RoadmapPage: React.FC = () => {
             </div>
           </div>
           
+          <div className="filter-item">
+            <h3>Type:</h3>
+            <div className="dropdown-filter">
+              <button 
+                className="dropdown-toggle"
+                onClick={() => setTypeDropdownOpen(!typeDropdownOpen)}
+              >
+                Type ({selectedTypes.size}/{uniqueTypes.length}) ▼
+              </button>
+              {typeDropdownOpen && (
+                <div className="dropdown-content">
+                  <div className="dropdown-options">
+                    {uniqueTypes.map(type => (
+                      <label key={type} className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={selectedTypes.has(type)}
+                          onChange={() => handleTypeToggle(type)}
+                        />
+                        <span>{ITEM_TYPE_LABELS[type]}</span>
+                        <span className="count">({typeCounts[type]})</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+          
           <div className="filter-item">
             <h3>Labels:</h3>
             <div className="dropdown-filter">
@@ -756,6 +1223,32 @@ const RoadmapPage: React.FC = () => {
             </div>
           </div>
           
+          <div className="filter-item">
+            <h3>Pull requests:</h3>
+            <div className="dropdown-filter">
+              <button 
+                className="dropdown-toggle"
+                onClick={() => setPullRequestsDropdownOpen(!pullRequestsDropdownOpen)}
+              >
+                Linked PRs ▼
+              </button>
+              {pullRequestsDropdownOpen && (
+                <div className="dropdown-content">
+                  <div className="dropdown-options">
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={selectedMergedPrOpen}
+                        onChange={handleMergedPrOpenToggle}
+                      />
+                      <span>Show only open issues with a merged PR</span>
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+          
           <div className="filter-item">
             <h3>Response:</h3>
             <div className="dropdown-filter">
@@ -782,6 +1275,91 @@ const RoadmapPage: React.FC = () => {
             </div>
           </div>
           
+          <div className="filter-item">
+            <h3>ETA:</h3>
+            <div className="dropdown-filter">
+              <button 
+                className="dropdown-toggle"
+                onClick={() => setSlippedDropdownOpen(!slippedDropdownOpen)}
+              >
+                {selectedSlipped || selectedEtaFrom || selectedEtaTo ? 'Filtered' : 'Any'} ▼
+              </button>
+              {slippedDropdownOpen && (
+                <div className="dropdown-content">
+                  <div className="dropdown-options">
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={selectedSlipped}
+                        onChange={handleSlippedToggle}
+                      />
+                      <span>Show only items whose ETA slipped</span>
+                    </label>
+                    <label className="eta-range-label">
+                      <span>From</span>
+                      <input
+                        type="month"
+                        value={selectedEtaFrom}
+                        onChange={(e) => handleEtaFromChange(e.target.value)}
+                      />
+                    </label>
+                    <label className="eta-range-label">
+                      <span>To</span>
+                      <input
+                        type="month"
+                        value={selectedEtaTo}
+                        onChange={(e) => handleEtaToChange(e.target.value)}
+                      />
+                    </label>
+                    <div className="eta-range-hint">
+                      Items whose ETA overlaps these months, e.g. July to September for Q3. Items without a recognised ETA are hidden.
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+          
+          {fieldNames.length > 0 && (
+            <div className="filter-item">
+              <h3>Fields:</h3>
+              <div className="dropdown-filter">
+                <button 
+                  className="dropdown-toggle"
+                  onClick={() => setFieldsDropdownOpen(!fieldsDropdownOpen)}
+                >
+                  Fields ({Object.keys(selectedFieldValues).length} filtered) ▼
+                </button>
+                {fieldsDropdownOpen && (
+                  <div className="dropdown-content">
+                    <div className="dropdown-options">
+                      {fieldNames.map(name => (
+                        <div key={name} className="field-filter">
+                          <div className="field-filter-name">
+                            <strong>{name}</strong>
+                            {selectedFieldValues[name] && (
+                              <button className="timeline-toggle" onClick={() => handleFieldClear(name)}>Clear</button>
+                            )}
+                          </div>
+                          {getFieldOptions(name).map(value => (
+                            <label key={value} className="checkbox-label">
+                              <input
+                                type="checkbox"
+                                checked={!selectedFieldValues[name] || selectedFieldValues[name].includes(value)}
+                                onChange={() => handleFieldValueToggle(name, value)}
+                              />
+                              <span>{value || 'No value'}</span>
+                            </label>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+          
           <div className="filter-item">
             <h3>Columns:</h3>
             <div className="dropdown-filter">
@@ -789,7 +1367,7 @@ const RoadmapPage: React.FC = () => {
                 className="dropdown-toggle"
                 onClick={() => setColumnsDropdownOpen(!columnsDropdownOpen)}
               >
-                Columns ({visibleColumns.size}/8) ▼
+                Columns ({visibleColumns.size}/{11 + fieldNames.length}) ▼
               </button>
               {columnsDropdownOpen && (
                 <div className="dropdown-content">
@@ -850,6 +1428,40 @@ const RoadmapPage: React.FC = () => {
                       />
                       <span>ETA</span>
                     </label>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={visibleColumns.has('stage')}
+                        onChange={() => handleColumnToggle('stage')}
+                      />
+                      <span>Days in stage</span>
+                    </label>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={visibleColumns.has('demand')}
+                        onChange={() => handleColumnToggle('demand')}
+                      />
+                      <span>Demand</span>
+                    </label>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={visibleColumns.has('linkedPrs')}
+                        onChange={() => handleColumnToggle('linkedPrs')}
+                      />
+                      <span>Linked PRs</span>
+                    </label>
+                    {fieldNames.map(name => (
+                      <label key={name} className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={visibleColumns.has(`${FIELD_PREFIX}${name}`)}
+                          onChange={() => handleColumnToggle(`${FIELD_PREFIX}${name}`)}
+                        />
+                        <span>{name}</span>
+                      </label>
+                    ))}
                   </div>
                 </div>
               )}
@@ -888,138 +1500,308 @@ const RoadmapPage: React.FC = () => {
                   Last comment{getSortIcon('lastComment')}
                 </th>
               )}
+              {visibleColumns.has('demand') && (
+                <th className="sortable" onClick={() => handleSort('demand')}>
+                  Demand{getSortIcon('demand')}
+                </th>
+              )}
+              {visibleColumns.has('linkedPrs') && (
+                <th className="sortable" onClick={() => handleSort('linkedPrs')}>
+                  Linked PRs{getSortIcon('linkedPrs')}
+                </th>
+              )}
               {visibleColumns.has('needsResponse') && (
                 <th>Needs response</th>
               )}
               {visibleColumns.has('timeline') && (
-                <th>ETA</th>
+                <th className="sortable" onClick={() => handleSort('eta')}>
+                  ETA{getSortIcon('eta')}
+                </th>
+              )}
+              {visibleColumns.has('stage') && (
+                <th className="sortable" onClick={() => handleSort('daysInStage')}>
+                  Days in stage{getSortIcon('daysInStage')}
+                </th>
               )}
+              {fieldNames.filter(name => visibleColumns.has(`${FIELD_PREFIX}${name}`)).map(name => (
+                <th key={name} className="sortable" onClick={() => handleSort(`${FIELD_PREFIX}${name}`)}>
+                  {name}{getSortIcon(`${FIELD_PREFIX}${name}`)}
+                </th>
+              ))}
             </tr>
           </thead>
           <tbody>
             {sortedItems.map((item) => (
-              <tr key={item.id}>
-                <td>
-                  <div className="feature-cell">
-                    <a 
-                      href={item.url} 
-                      target="_blank" 
-                      rel="noopener noreferrer"
-                      className="issue-title"
-                    >
-                      {item.title}
-                    </a>
-                    <div className="status-under-title">
-                      <span className={`status-badge-small ${getStatusBadgeClass(item.status)}`}>
-                        {abbreviateStatus(item.status)}
-                      </span>
-                    </div>
-                  </div>
-                </td>
-                {visibleColumns.has('labels') && (
+              <React.Fragment key={item.id}>
+                <tr>
                   <td>
-                    <div className="labels">
-                      {item.labels.map((label) => (
-                        <span 
-                          key={label.name} 
-                          className="label-badge table-label"
-                          style={{ backgroundColor: `#${label.color}`, color: '#fff' }}
+                    <div className="feature-cell">
+                      {item.url ? (
+                        <a 
+                          href={item.url} 
+                          target="_blank" 
+                          rel="noopener noreferrer"
+                          className="issue-title"
                         >
-                          {label.name}
+                          {item.title}
+                        </a>
+                      ) : (
+                        <span className="issue-title">{item.title}</span>
+                      )}
+                      <div className="status-under-title">
+                        <span className={`status-badge-small ${getStatusBadgeClass(item.status)}`}>
+                          {abbreviateStatus(item.status)}
                         </span>
-                      ))}
+                        {item.type !== 'ISSUE' && (
+                          <span className="type-badge">{ITEM_TYPE_LABELS[item.type]}</span>
+                        )}
+                      </div>
+                      {item.parent && (
+                        <div className="parent-issue">
+                          Part of{' '}
+                          <a href={item.parent.url} target="_blank" rel="noopener noreferrer">
+                            {item.parent.title}
+                          </a>
+                        </div>
+                      )}
+                      {item.completion && (
+                        <button className="timeline-toggle" onClick={() => toggleChildren(item.id)}>
+                          {expandedChildren.has(item.id) ? '▾' : '▸'} {describeCompletion(item)}
+                        </button>
+                      )}
                     </div>
                   </td>
-                )}
-                {visibleColumns.has('assignees') && (
-                  <td>
-                    <div className="assignees">
-                      {item.assignees.length > 0 ? (
-                        item.assignees.map((assignee) => (
-                          <div key={assignee.login} className="assignee">
-                            <img src={assignee.avatarUrl} alt={assignee.login} />
-                            <span>{assignee.name || assignee.login}</span>
+                  {visibleColumns.has('labels') && (
+                    <td>
+                      <div className="labels">
+                        {item.labels.map((label) => (
+                          <span 
+                            key={label.name} 
+                            className="label-badge table-label"
+                            style={{ backgroundColor: `#${label.color}`, color: '#fff' }}
+                          >
+                            {label.name}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                  )}
+                  {visibleColumns.has('assignees') && (
+                    <td>
+                      <div className="assignees">
+                        {item.assignees.length > 0 ? (
+                          item.assignees.map((assignee) => (
+                            <div key={assignee.login} className="assignee">
+                              <img src={assignee.avatarUrl} alt={assignee.login} />
+                              <span>{assignee.name || assignee.login}</span>
+                            </div>
+                          ))
+                        ) : (
+                          <span style={{ color: '#666', fontSize: '12px' }}>Unassigned</span>
+                        )}
+                      </div>
+                    </td>
+                  )}
+                  {visibleColumns.has('created') && (
+                    <td>
+                      <div className="date-info">
+                        {formatDate(item.createdAt)}
+                        <br />
+                        <small>({getWaitingTime(item.createdAt)} ago)</small>
+                      </div>
+                    </td>
+                  )}
+                  {visibleColumns.has('updated') && (
+                    <td>
+                      <div className="date-info">
+                        {item.lastEditedAt ? (
+                          <>
+                            {formatDate(item.lastEditedAt)}
+                            <br />
+                            <small>({getTimeAgo(item.lastEditedAt)})</small>
+                          </>
+                        ) : null}
+                      </div>
+                    </td>
+                  )}
+                  {visibleColumns.has('lastComment') && (
+                    <td>
+                      <div className="date-info">
+                        {item.lastComment ? (
+                          <>
+                            {formatDate(item.lastComment.createdAt)}
+                            <br />
+                            <small>by {item.lastComment.author.name || item.lastComment.author.login}</small>
+                          </>
+                        ) : (
+                          <span style={{ color: '#666', fontSize: '12px' }}>No comments</span>
+                        )}
+                      </div>
+                    </td>
+                  )}
+                  {visibleColumns.has('demand') && (
+                    <td>
+                      {item.demand ? (
+                        <span
+                          className="demand-score"
+                          title={`${item.demand.reactions} reactions, ${item.demand.commentReactions} on comments, ${item.demand.uniqueCommenters} commenters, ${item.demand.commentsPerWeek} comments/week lately`}
+                        >
+                          {item.demand.score}
+                        </span>
+                      ) : (
+                        <span style={{ color: '#999', fontSize: '12px' }}>-</span>
+                      )}
+                    </td>
+                  )}
+                  {visibleColumns.has('linkedPrs') && (
+                    <td>
+                      {item.linkedPullRequests && item.linkedPullRequests.length > 0 ? (
+                        <div className="linked-prs">
+                          <small>
+                            {item.linkedPullRequests.length} PR{item.linkedPullRequests.length === 1 ? '' : 's'}
+                            {item.linkedPullRequests.some(pr => pr.state === 'MERGED') && `, ${item.linkedPullRequests.filter(pr => pr.state === 'MERGED').length} merged`}
+                          </small>
+                          <div>
+                            {item.linkedPullRequests.map(pr => (
+                              <a
+                                key={pr.id}
+                                href={pr.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className={`pr-link pr-${pr.state.toLowerCase()}`}
+                                title={`${pr.repository}#${pr.number} ${pr.title} (${pr.mergedAt ? `merged ${formatDate(pr.mergedAt)}` : pr.state.toLowerCase()}${pr.closesIssue ? ', closes this issue' : ''})`}
+                              >
+                                #{pr.number}
+                              </a>
+                            ))}
                           </div>
-                        ))
+                        </div>
                       ) : (
-                        <span style={{ color: '#666', fontSize: '12px' }}>Unassigned</span>
+                        <span style={{ color: '#999', fontSize: '12px' }}>None</span>
                       )}
-                    </div>
-                  </td>
-                )}
-                {visibleColumns.has('created') && (
-                  <td>
-                    <div className="date-info">
-                      {formatDate(item.createdAt)}
-                      <br />
-                      <small>({getWaitingTime(item.createdAt)} ago)</small>
-                    </div>
-                  </td>
-                )}
-                {visibleColumns.has('updated') && (
-                  <td>
-                    <div className="date-info">
-                      {item.lastEditedAt ? (
-                        <>
-                          {formatDate(item.lastEditedAt)}
-                          <br />
-                          <small>({getTimeAgo(item.lastEditedAt)})</small>
-                        </>
-                      ) : null}
-                    </div>
-                  </td>
-                )}
-                {visibleColumns.has('lastComment') && (
-                  <td>
-                    <div className="date-info">
-                      {item.lastComment ? (
-                        <>
-                          {formatDate(item.lastComment.createdAt)}
+                    </td>
+                  )}
+                  {visibleColumns.has('needsResponse') && (
+                    <td>
+                      {item.needsResponse && (
+                        <span className="needs-response-flag" title="Needs response from team">
+                          🚩
+                        </span>
+                      )}
+                    </td>
+                  )}
+                  {visibleColumns.has('timeline') && (
+                    <td>
+                      {item.extractedEta ? (
+                        <a 
+                          href={item.extractedEta.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="extracted-date"
+                          title={`ETA from ${item.extractedEta.author}: ${item.extractedEta.commentText}\n${describeEtaRange(item.extractedEtaRange)}`}
+                        >
+                          {item.extractedEta.date}
+                        </a>
+                      ) : item.extractedDate ? (
+                        <div
+                          className={`extracted-date ${item.extractedDate === 'OpenAI extraction failed' ? 'extraction-failed' : ''}`}
+                          title={item.extractedDate === 'OpenAI extraction failed' ? undefined : describeEtaRange(item.extractedDateRange)}
+                        >
+                          {item.extractedDate}
+                        </div>
+                      ) : (
+                        !item.status.toLowerCase().includes('backlog') && 
+                        !item.status.toLowerCase().includes('archive') ? (
+                          <span style={{ color: '#999', fontSize: '12px' }}>
+                            No ETA found
+                          </span>
+                        ) : null
+                      )}
+                      {item.etaSlip && (
+                        <a
+                          href={item.etaSlip.url || item.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="slip-badge"
+                          title={`Slipped from ${item.etaSlip.from} to ${item.etaSlip.to} on ${formatDate(item.etaSlip.slippedAt)}${item.etaSlip.author ? ` (comment by ${item.etaSlip.author}: ${item.etaSlip.commentText})` : ' (issue description)'}`}
+                        >
+                          Slipped from {item.etaSlip.from}
+                        </a>
+                      )}
+                    </td>
+                  )}
+                  {visibleColumns.has('stage') && (
+                    <td>
+                      {item.statusHistory && item.statusHistory.length > 0 ? (
+                        <div className="date-info">
+                          {getDaysInStage(item)} days
                           <br />
-                          <small>by {item.lastComment.author.name || item.lastComment.author.login}</small>
-                        </>
+                          <button className="timeline-toggle" onClick={() => toggleTimeline(item.id)}>
+                            {expandedTimelines.has(item.id) ? 'Hide history' : `History (${item.statusHistory.length})`}
+                          </button>
+                          {expandedTimelines.has(item.id) && (
+                            <ol className="status-timeline">
+                              {item.statusHistory.map((transition) => (
+                                <li key={transition.observedAt}>
+                                  <span className={`status-badge-small ${getStatusBadgeClass(transition.to)}`}>
+                                    {abbreviateStatus(transition.to)}
+                                  </span>
+                                  <small>{formatDate(transition.observedAt)}</small>
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                        </div>
                       ) : (
-                        <span style={{ color: '#666', fontSize: '12px' }}>No comments</span>
+                        <span style={{ color: '#999', fontSize: '12px' }}>Not tracked yet</span>
                       )}
-                    </div>
-                  </td>
-                )}
-                {visibleColumns.has('needsResponse') && (
-                  <td>
-                    {item.needsResponse && (
-                      <span className="needs-response-flag" title="Needs response from team">
-                        🚩
-                      </span>
-                    )}
-                  </td>
-                )}
-                {visibleColumns.has('timeline') && (
-                  <td>
-                    {item.extractedEta ? (
-                      <a 
-                        href={item.extractedEta.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="extracted-date"
-                        title={`ETA from ${item.extractedEta.author}: ${item.extractedEta.commentText}`}
-                      >
-                        {item.extractedEta.date}
-                      </a>
-                    ) : item.extractedDate ? (
-                      <div className={`extracted-date ${item.extractedDate === 'OpenAI extraction failed' ? 'extraction-failed' : ''}`}>
-                        {item.extractedDate}
-                      </div>
-                    ) : (
-                      !item.status.toLowerCase().includes('backlog') && 
-                      !item.status.toLowerCase().includes('archive') ? (
-                        <span style={{ color: '#999', fontSize: '12px' }}>
-                          No ETA found
+                    </td>
+                  )}
+                  {fieldNames.filter(name => visibleColumns.has(`${FIELD_PREFIX}${name}`)).map(name => {
+                    const field = item.fields?.[name];
+                    return (
+                      <td key={name}>
+                        <span title={field?.type === 'ITERATION' && field.startDate ? `Starts ${field.startDate}, ${field.duration} days` : undefined}>
+                          {getFieldText(item, name)}
                         </span>
-                      ) : null
-                    )}
-                  </td>
+                      </td>
+                    );
+                  })}
+                </tr>
+                {expandedChildren.has(item.id) && item.children && item.children.length > 0 && (
+                  <tr className="child-issues-row">
+                    <td colSpan={visibleColumnCount}>
+                      <ul className="child-issues">
+                        {item.children.map((child) => (
+                          <li key={child.id}>
+                            <span className={`child-state child-state-${child.state.toLowerCase()}`}>
+                              {child.state === 'CLOSED' ? 'Closed' : 'Open'}
+                            </span>
+                            <a href={child.url} target="_blank" rel="noopener noreferrer">
+                              {child.repository}#{child.number} {child.title}
+                            </a>
+                            {child.relation === 'TRACKED' && (
+                              <span className="type-badge">Tracked</span>
+                            )}
+                            <span className="assignees">
+                              {child.assignees.length > 0 ? (
+                                child.assignees.map((assignee) => (
+                                  <span key={assignee.login} className="assignee">
+                                    <img src={assignee.avatarUrl} alt={assignee.login} />
+                                    <span>{assignee.name || assignee.login}</span>
+                                  </span>
+                                ))
+                              ) : (
+                                <span style={{ color: '#666', fontSize: '12px' }}>Unassigned</span>
+                              )}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
                 )}
-              </tr>
+              </React.Fragment>
             ))}
           </tbody>
         </table>
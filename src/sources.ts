@@ -0,0 +1,11 @@
+export interface DataSource {
+  id: string;
+  name: string;
+  org: string;
+  projectNumber: number;
+  repoOwner: string;
+  repoName: string;
+}
+
+// Saved filters and column choices are stored per source so switching boards keeps them apart
+export const storageKey = (source: DataSource, name: string) => `${source.id}:${name}`;
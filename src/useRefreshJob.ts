@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from 'react';
+import { DataSource } from './sources';
+
+export interface JobProgress {
+  step: string;
+  current: number;
+  total: number;
+}
+
+interface RefreshJobCallbacks {
+  // Called with the running job's progress, and with null once it is over
+  onProgress: (progress: JobProgress | null) => void;
+  // Reload the page's data after the job finished, whatever its outcome
+  onFinished: () => Promise<void>;
+}
+
+// Resolves after `ms`, or rejects as soon as `signal` aborts
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+// Start, follow and cancel refresh jobs of a page's dataset. Following a job polls it every
+// second; polling stops when the page unmounts (pages are keyed by source, so also when
+// switching sources) or starts following another job.
+export function useRefreshJob(source: DataSource, dataset: 'roadmap' | 'issues', callbacks: RefreshJobCallbacks) {
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  // The refresh job this page shows the progress of, and the controller that stops polling it
+  const followedJob = useRef<string | null>(null);
+  const polling = useRef<AbortController | null>(null);
+  // The page's callbacks close over its latest state
+  const latestCallbacks = useRef(callbacks);
+  latestCallbacks.current = callbacks;
+
+  useEffect(() => () => polling.current?.abort(), []);
+
+  // Poll a refresh job until it finishes, showing its progress, then load the new data
+  const followJob = async (jobId: string) => {
+    if (followedJob.current === jobId) return;
+    polling.current?.abort();
+    const controller = new AbortController();
+    polling.current = controller;
+    followedJob.current = jobId;
+    setRefreshing(true);
+    try {
+      while (true) {
+        const response = await fetch(`/api/jobs/${jobId}`, { signal: controller.signal });
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        const job = await response.json();
+        controller.signal.throwIfAborted();
+        if (job.status === 'running') {
+          if (job.step) {
+            latestCallbacks.current.onProgress({ step: job.step, current: job.current, total: job.total });
+          }
+          await wait(1000, controller.signal);
+          continue;
+        }
+        if (job.status === 'failed') {
+          setRefreshError(job.error);
+        }
+        await latestCallbacks.current.onFinished();
+        break;
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setRefreshError(err instanceof Error ? err.message : 'Failed to follow refresh');
+      }
+    } finally {
+      if (polling.current === controller && !controller.signal.aborted) {
+        polling.current = null;
+        followedJob.current = null;
+        setRefreshing(false);
+        latestCallbacks.current.onProgress(null);
+      }
+    }
+  };
+
+  // Start a refresh job, or join the one someone else already started
+  const startRefresh = async () => {
+    try {
+      setRefreshError(null);
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source: source.id, dataset })
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const job = await response.json();
+      followJob(job.id);
+    } catch (err) {
+      setRefreshError(err instanceof Error ? err.message : 'Failed to start refresh');
+    }
+  };
+
+  // The job stops at its next checkpoint; polling picks up that it was cancelled
+  const cancelRefresh = async () => {
+    if (!followedJob.current) return;
+    try {
+      await fetch(`/api/jobs/${followedJob.current}`, { method: 'DELETE' });
+    } catch (err) {
+      console.error('Failed to cancel refresh:', err);
+    }
+  };
+
+  return { refreshing, refreshError, followJob, startRefresh, cancelRefresh };
+}
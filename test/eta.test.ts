@@ -0,0 +1,69 @@
+import './setup.js';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { db } from '../server/db.js';
+import { getEtaHistory, getSlips } from '../server/eta.js';
+import { upsertRoadmapItem } from '../server/store.js';
+import { RoadmapItem } from '../server/types.js';
+
+function recordEta(issueId: string, eta: string, commentAt: string | null, observedAt: string) {
+  db.prepare(`
+    INSERT INTO eta_history (source, issue_id, eta, origin, author, comment_text, url, comment_at, observed_at)
+    VALUES ('test', ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    issueId, eta, commentAt ? 'comment' : 'body', commentAt && 'hubot', commentAt && eta,
+    commentAt && 'https://github.com', commentAt, Date.parse(observedAt)
+  );
+}
+
+function roadmapItem(extractedDate: string | null, commentEta: string | null): RoadmapItem {
+  return {
+    id: 'I_10',
+    type: 'ISSUE',
+    title: 'Node pool snapshots',
+    url: 'https://github.com/octo/repo/issues/10',
+    body: '',
+    createdAt: '2025-01-10T00:00:00Z',
+    updatedAt: '2025-01-10T00:00:00Z',
+    lastEditedAt: null,
+    state: 'OPEN',
+    status: 'In Progress',
+    labels: [],
+    assignees: [],
+    extractedDate,
+    extractedEta: commentEta ? { date: commentEta, author: 'Hubot', commentText: commentEta, url: 'https://github.com' } : null
+  };
+}
+
+test('relative ETAs are compared as of the comments that gave them', () => {
+  // Q3 2024, then Q4 2024: a slip
+  recordEta('I_1', 'next quarter', '2024-05-20T10:00:00Z', '2024-05-21T00:00:00Z');
+  recordEta('I_1', 'next quarter', '2024-08-20T10:00:00Z', '2024-08-21T00:00:00Z');
+  // Q4 2024, then October 2024: pulled in
+  recordEta('I_2', 'later this year', '2024-09-01T10:00:00Z', '2024-09-02T00:00:00Z');
+  recordEta('I_2', 'October 2024', '2024-09-10T10:00:00Z', '2024-09-11T00:00:00Z');
+
+  const slips = getSlips('test');
+  assert.deepEqual(slips.get('I_1')?.map(slip => slip.slippedAt), ['2024-08-20T10:00:00Z']);
+  assert.equal(slips.has('I_2'), false);
+});
+
+test('comment and body ETAs are only compared with ETAs of the same origin', () => {
+  recordEta('I_3', 'Q2 2025', '2025-01-05T10:00:00Z', '2025-01-06T00:00:00Z');
+  recordEta('I_3', 'Q4 2025', null, '2025-02-01T00:00:00Z');
+  recordEta('I_3', 'Q3 2025', '2025-03-05T10:00:00Z', '2025-03-06T00:00:00Z');
+
+  // Q2 to Q3 slipped; the body's Q4 neither slipped from Q2 nor hides the comment's slip
+  assert.deepEqual(getSlips('test').get('I_3')?.map(slip => [slip.from, slip.to, slip.author]), [['Q2 2025', 'Q3 2025', 'hubot']]);
+});
+
+test('a missing comment ETA does not record the body ETA in its place', () => {
+  upsertRoadmapItem('test', roadmapItem('Q3 2025', 'Q2 2025'));
+  // Comment extraction failed: nothing new to record
+  upsertRoadmapItem('test', roadmapItem('Q3 2025', null));
+  upsertRoadmapItem('test', roadmapItem('Q3 2025', 'Q4 2025'));
+
+  const history = getEtaHistory('test', 'I_10').get('I_10')!;
+  assert.deepEqual(history.map(entry => [entry.origin, entry.eta]), [['comment', 'Q2 2025'], ['body', 'Q3 2025'], ['comment', 'Q4 2025']]);
+  assert.deepEqual(getSlips('test').get('I_10')?.map(slip => [slip.from, slip.to]), [['Q2 2025', 'Q4 2025']]);
+});
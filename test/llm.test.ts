@@ -0,0 +1,103 @@
+import './setup.js';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, beforeEach, test } from 'node:test';
+import { LlmProvider, createLlmProvider } from '../server/llm.js';
+
+// A chat completions server answering each request with the next queued reply
+const replies: Array<string | { status: number; body: unknown }> = [];
+const requests: any[] = [];
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => body += chunk);
+  req.on('end', () => {
+    requests.push(JSON.parse(body));
+    const reply = replies.shift() ?? '';
+    if (typeof reply !== 'string') {
+      res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply.body));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id: 'chatcmpl-test',
+      object: 'chat.completion',
+      created: 0,
+      model: 'test-model',
+      choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: reply } }]
+    }));
+  });
+});
+
+const ANALYSIS = {
+  currentStatus: 'Waiting on a fix',
+  nextSteps: 'Roll out the fix',
+  analysis: { isKnownIssue: true, isExpectedBehaviour: false, shouldClose: false }
+};
+const ISSUE = { title: 'Node pools fail to scale', body: 'Scaling stops at 10 nodes', comments: [] };
+
+let llm: LlmProvider;
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  process.env.LLM_PROVIDER = 'openai-compatible';
+  process.env.LLM_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  process.env.LLM_MODEL = 'test-model';
+});
+
+after(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  replies.length = 0;
+  requests.length = 0;
+  llm = createLlmProvider();
+});
+
+test('a valid answer is returned as is and asks for structured output', async () => {
+  replies.push(JSON.stringify(ANALYSIS));
+
+  assert.deepEqual(await llm.analyzeIssue(ISSUE), ANALYSIS);
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].response_format.type, 'json_schema');
+});
+
+test('an answer breaking the schema gets one repair attempt that shows the errors', async () => {
+  replies.push('```json\n{"currentStatus": "Waiting", "analysis": {"isKnownIssue": "yes"}}\n```', JSON.stringify(ANALYSIS));
+  const invalid: string[][] = [];
+
+  assert.deepEqual(await llm.analyzeIssue(ISSUE, { onInvalid: errors => invalid.push(errors) }), ANALYSIS);
+  assert.equal(invalid.length, 1);
+  assert.ok(invalid[0].includes('$.nextSteps: missing'));
+  assert.ok(invalid[0].includes('$.analysis.isKnownIssue: expected boolean, got string'));
+
+  const repairMessages = requests[1].messages;
+  assert.equal(repairMessages[2].role, 'assistant');
+  assert.match(repairMessages[3].content, /\$\.nextSteps: missing/);
+});
+
+test('a repaired answer that is still invalid throws', async () => {
+  replies.push('not json', '{"date": 5}');
+  const invalid: string[][] = [];
+
+  await assert.rejects(
+    llm.extractEta({ title: 'AKS feature', comments: [] }, { onInvalid: errors => invalid.push(errors) }),
+    /after a repair attempt/
+  );
+  assert.equal(invalid.length, 2);
+  assert.match(invalid[0][0], /not valid JSON/);
+  assert.ok(invalid[1].includes('$.date: expected string, got number'));
+});
+
+test('a server rejecting structured output is asked again without it', async () => {
+  replies.push(
+    { status: 400, body: { error: { message: "Invalid parameter: 'response_format' of type 'json_schema' is not supported" } } },
+    JSON.stringify({ date: 'Q3 2025', text: 'We expect this in Q3 2025' })
+  );
+
+  assert.deepEqual(await llm.extractEta({ title: 'AKS feature', comments: [] }), { date: 'Q3 2025', text: 'We expect this in Q3 2025' });
+  assert.equal(requests[1].response_format, undefined);
+});
@@ -0,0 +1,84 @@
+import './setup.js';
+import assert from 'node:assert/strict';
+import { beforeEach, test } from 'node:test';
+
+// Read at import time, so set before the modules load
+process.env.GITHUB_MAX_PAGES = '2';
+const { createGraphqlClient } = await import('../server/github.js');
+const { clearSyncProgress, paginate } = await import('../server/pagination.js');
+
+// The query the fixtures in fixtures/github were recorded for
+const ISSUES_QUERY = `
+  query($owner: String!, $name: String!, $cursor: String) {
+    repository(owner: $owner, name: $name) {
+      issues(first: 2, after: $cursor) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          id
+          number
+          title
+        }
+      }
+    }
+  }
+`;
+
+const client = createGraphqlClient();
+
+interface Issue {
+  id: string;
+  number: number;
+  title: string;
+}
+
+// Page through a replayed repository, recording the cursor of every request
+function fetchIssues(name: string, requested: Array<string | null> = [], allowPartial = false) {
+  return paginate<Issue>('test', `issues:${name}`, async cursor => {
+    requested.push(cursor);
+    const response = await client(ISSUES_QUERY, { owner: 'octo', name, cursor });
+    return response.repository.issues;
+  }, { allowPartial });
+}
+
+beforeEach(() => {
+  clearSyncProgress('test');
+});
+
+test('a fetch stopped by GITHUB_MAX_PAGES is partial and the next one resumes after it', async () => {
+  const first = await fetchIssues('roadmap');
+  assert.equal(first.complete, false);
+  assert.equal(first.pageLimit, 2);
+  assert.deepEqual(first.nodes.map(node => node.number), [1, 2, 3, 4]);
+
+  const requested: Array<string | null> = [];
+  const second = await fetchIssues('roadmap', requested);
+  assert.equal(second.complete, true);
+  assert.equal(second.pageLimit, null);
+  assert.deepEqual(second.nodes.map(node => node.number), [1, 2, 3, 4, 5]);
+  assert.deepEqual(requested, ['Y3Vyc29yOjQ=']);
+  assert.equal(second.startedAt, first.startedAt);
+});
+
+test('a finished fetch clears its progress', async () => {
+  await fetchIssues('roadmap');
+  await fetchIssues('roadmap');
+
+  const requested: Array<string | null> = [];
+  await fetchIssues('roadmap', requested);
+  assert.equal(requested[0], null);
+});
+
+test('a failed page throws unless partial results are allowed', async () => {
+  await assert.rejects(fetchIssues('flaky'), /No recorded GitHub fixture/);
+
+  const requested: Array<string | null> = [];
+  const result = await fetchIssues('flaky', requested, true);
+  assert.equal(result.complete, false);
+  assert.equal(result.pageLimit, null);
+  assert.deepEqual(result.nodes.map(node => node.number), [11, 12]);
+  // The first page was saved by the attempt that threw, so only the failing page is retried
+  assert.deepEqual(requested, ['Y3Vyc29yOjEy']);
+});
@@ -0,0 +1,9 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Imported first by every test: an in-memory database, recorded GitHub responses and the
+// rule-based LLM provider, so no test needs credentials or network access
+process.env.DB_PATH = ':memory:';
+process.env.GITHUB_MODE = 'replay';
+process.env.GITHUB_FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'github');
+process.env.LLM_PROVIDER = 'rule-based';
@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { afterEach, test } from 'node:test';
+import { loadSources } from '../server/sources.js';
+
+const source = (id: string) => ({ id, name: 'Test', org: 'octo-org', projectNumber: 7, repo: 'octo-org/widgets' });
+
+afterEach(() => {
+  delete process.env.SOURCES;
+});
+
+test('sources load from the SOURCES variable', () => {
+  process.env.SOURCES = JSON.stringify([source('widgets')]);
+  assert.deepEqual(loadSources(), [{ id: 'widgets', name: 'Test', org: 'octo-org', projectNumber: 7, repoOwner: 'octo-org', repoName: 'widgets' }]);
+});
+
+test('ids used by dashboard paths are rejected', () => {
+  for (const id of ['admin', 'API', 'assets']) {
+    process.env.SOURCES = JSON.stringify([source(id)]);
+    assert.throws(() => loadSources(), /is reserved/);
+  }
+});
+
+test('ids that do not fit in a path are rejected', () => {
+  process.env.SOURCES = JSON.stringify([source('my source')]);
+  assert.throws(() => loadSources(), /needs an "id"/);
+});
@@ -0,0 +1,74 @@
+import './setup.js';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ItemDetails, getComments, getDatasetInfo, loadAKSIssues, saveAKSIssues } from '../server/store.js';
+import { getChanges } from '../server/snapshots.js';
+import { AKSIssue } from '../server/types.js';
+
+function issue(id: string, title: string): AKSIssue {
+  return {
+    id,
+    title,
+    url: `https://github.com/octo/repo/issues/${id}`,
+    body: '',
+    createdAt: '2025-05-01T00:00:00Z',
+    updatedAt: '2025-05-01T00:00:00Z',
+    state: 'OPEN',
+    closedAt: null,
+    closeReason: null,
+    comments: 1,
+    labels: [],
+    assignees: [],
+    lastComment: null,
+    needsResponse: false,
+    aiSummary: null
+  };
+}
+
+function withComment(issueId: string, body: string): Map<string, ItemDetails> {
+  return new Map([[issueId, {
+    comments: [{ id: `C_${issueId}`, createdAt: '2025-05-02T00:00:00Z', body, author: { login: 'octocat', name: null }, url: 'https://github.com', reactions: {} }]
+  }]]);
+}
+
+test('a partial refresh updates what it fetched and keeps the rest of the stored copy', () => {
+  const details = new Map([...withComment('I_1', 'first'), ...withComment('I_2', 'second')]);
+  saveAKSIssues('partial', [issue('I_1', 'One'), issue('I_2', 'Two')], details, { syncedAt: '2025-05-03T00:00:00Z' });
+
+  saveAKSIssues('partial', [issue('I_2', 'Two, edited'), issue('I_3', 'Three')], withComment('I_2', 'second, edited'), { partial: true });
+
+  assert.deepEqual(loadAKSIssues('partial').map(item => item.title), ['One', 'Two, edited', 'Three']);
+  assert.equal(getComments('partial', 'I_1')[0].body, 'first');
+  assert.equal(getComments('partial', 'I_2')[0].body, 'second, edited');
+  assert.equal(getDatasetInfo('partial', 'issues')?.partial, true);
+});
+
+test('a complete refresh replaces the dataset and drops what left it', () => {
+  saveAKSIssues('complete', [issue('I_1', 'One'), issue('I_2', 'Two')], withComment('I_1', 'first'));
+  saveAKSIssues('complete', [issue('I_2', 'Two')], new Map());
+
+  assert.deepEqual(loadAKSIssues('complete').map(item => item.id), ['I_2']);
+  assert.deepEqual(getComments('complete', 'I_1'), []);
+  assert.equal(getDatasetInfo('complete', 'issues')?.partial, false);
+});
+
+test('issue snapshots track the open or closed state', () => {
+  saveAKSIssues('closing', [issue('I_1', 'One')], new Map());
+  saveAKSIssues('closing', [{ ...issue('I_1', 'One'), state: 'CLOSED', closedAt: '2025-05-04T00:00:00Z', closeReason: 'COMPLETED' }], new Map());
+
+  assert.deepEqual(getChanges('closing', 'issues', 0).statusChanges.map(change => [change.id, change.from, change.to]), [['I_1', 'OPEN', 'CLOSED']]);
+});
+
+test('a complete comment list drops stored comments missing from it', () => {
+  const details = new Map([...withComment('I_1', 'first'), ...withComment('I_2', 'second')]);
+  saveAKSIssues('deleted-comments', [issue('I_1', 'One'), issue('I_2', 'Two')], details);
+
+  saveAKSIssues('deleted-comments', [issue('I_1', 'One'), issue('I_2', 'Two')], new Map([
+    ['I_1', { comments: [] }],
+    ['I_2', { comments: [], partialComments: true }]
+  ]));
+
+  assert.deepEqual(getComments('deleted-comments', 'I_1'), []);
+  // Only some of I_2's comments were fetched, so the stored one may still exist
+  assert.equal(getComments('deleted-comments', 'I_2')[0].body, 'second');
+});
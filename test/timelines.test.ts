@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { getEtaStage, normalizeEta } from '../server/timelines.js';
+
+// [ETA, start, end, precision]
+function assertRange(eta: string, reference: string | undefined, expected: [string, string, string] | null) {
+  const range = normalizeEta(eta, reference);
+  assert.deepEqual(range && [range.start, range.end, range.precision], expected, eta);
+}
+
+test('calendar and fiscal periods', () => {
+  assertRange('Q2 2025', undefined, ['2025-04-01', '2025-06-30', 'quarter']);
+  assertRange("GA in Q4'24", undefined, ['2024-10-01', '2024-12-31', 'quarter']);
+  assertRange('CY2025 Q3', undefined, ['2025-07-01', '2025-09-30', 'quarter']);
+  assertRange('FY25 Q1', undefined, ['2024-07-01', '2024-09-30', 'quarter']);
+  assertRange('H2 2025', undefined, ['2025-07-01', '2025-12-31', 'half']);
+  assertRange('H1 FY26', undefined, ['2025-07-01', '2025-12-31', 'half']);
+  assertRange('FY26', undefined, ['2025-07-01', '2026-06-30', 'year']);
+});
+
+test('dates, months, seasons and years', () => {
+  assertRange('2025-03-14', undefined, ['2025-03-14', '2025-03-14', 'day']);
+  assertRange('March 14, 2025', undefined, ['2025-03-14', '2025-03-14', 'day']);
+  assertRange('14th Sept 2025', undefined, ['2025-09-14', '2025-09-14', 'day']);
+  assertRange('public preview in Sep 2025', undefined, ['2025-09-01', '2025-09-30', 'month']);
+  assertRange('early 2026', undefined, ['2026-01-01', '2026-04-30', 'season']);
+  assertRange('summer 2025', undefined, ['2025-06-01', '2025-08-31', 'season']);
+  assertRange('sometime in 2025', undefined, ['2025-01-01', '2025-12-31', 'year']);
+});
+
+test('relative timelines need the date they were written', () => {
+  assertRange('next quarter', undefined, null);
+  assertRange('next quarter', '2024-05-20T10:00:00Z', ['2024-07-01', '2024-09-30', 'quarter']);
+  assertRange('next quarter', '2024-11-02T10:00:00Z', ['2025-01-01', '2025-03-31', 'quarter']);
+  assertRange('in 2 months', '2024-11-02T10:00:00Z', ['2025-01-01', '2025-01-31', 'month']);
+  assertRange('later this year', '2024-05-20T10:00:00Z', ['2024-05-01', '2024-12-31', 'season']);
+  assertRange('early next year', '2024-05-20T10:00:00Z', ['2025-01-01', '2025-04-30', 'season']);
+  assertRange('this summer', '2024-09-15T10:00:00Z', ['2025-06-01', '2025-08-31', 'season']);
+});
+
+test('winter runs from December into the next year', () => {
+  assertRange('winter 2025', undefined, ['2025-12-01', '2026-02-28', 'season']);
+  assertRange('this winter', '2025-01-15T10:00:00Z', ['2024-12-01', '2025-02-28', 'season']);
+  assertRange('next winter', '2025-01-15T10:00:00Z', ['2025-12-01', '2026-02-28', 'season']);
+  assertRange('this winter', '2025-03-15T10:00:00Z', ['2025-12-01', '2026-02-28', 'season']);
+  assertRange('winter', '2025-12-10T10:00:00Z', ['2025-12-01', '2026-02-28', 'season']);
+});
+
+test('parts of a year without "this"', () => {
+  assertRange('by end of year', '2024-05-20T10:00:00Z', ['2024-10-01', '2024-12-31', 'season']);
+  assertRange('end of the year', '2024-05-20T10:00:00Z', ['2024-10-01', '2024-12-31', 'season']);
+  assertRange('mid-year', '2024-02-20T10:00:00Z', ['2024-05-01', '2024-08-31', 'season']);
+  assertRange('end of next year', '2024-05-20T10:00:00Z', ['2025-10-01', '2025-12-31', 'season']);
+});
+
+test('words starting like a month are not months', () => {
+  assertRange('decision 2025', undefined, ['2025-01-01', '2025-12-31', 'year']);
+  assertRange('marketing 2025', undefined, ['2025-01-01', '2025-12-31', 'year']);
+  assertRange('Sept. 2025', undefined, ['2025-09-01', '2025-09-30', 'month']);
+});
+
+test('text without a timeline', () => {
+  assertRange('TBD', '2024-05-20T10:00:00Z', null);
+  assertRange('No timeline yet', '2024-05-20T10:00:00Z', null);
+});
+
+test('release stage', () => {
+  assert.equal(getEtaStage('Public preview in Q2 2025'), 'preview');
+  assert.equal(getEtaStage('GA by FY26 H1'), 'ga');
+  assert.equal(getEtaStage('Q2 2025'), null);
+  assert.equal(normalizeEta('General availability in March 2025')?.stage, 'ga');
+});
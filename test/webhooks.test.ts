@@ -0,0 +1,223 @@
+import './setup.js';
+import assert from 'node:assert/strict';
+import { ChildProcess, spawn } from 'node:child_process';
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { after, before, test } from 'node:test';
+import { signPayload, verifySignature } from '../server/webhooks.js';
+import { AKSIssue, RoadmapItem } from '../server/types.js';
+
+// Deliveries go through the real route: the server runs as a child process on a database
+// file this test seeds and inspects. Payloads are the samples in fixtures/webhooks.
+
+const SECRET = 'webhook-test-secret';
+const ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+const PAYLOADS_DIR = path.join(ROOT, 'test', 'fixtures', 'webhooks');
+const SOURCE = { id: 'test', name: 'Test', org: 'octo-org', projectNumber: 7, repo: 'octo-org/widgets' };
+// The closed-issue window reaches back to May 2025, so the sample issues closed in June are kept
+const CLOSED_ISSUES_DAYS = Math.ceil((Date.now() - Date.parse('2025-05-01T00:00:00Z')) / (24 * 60 * 60 * 1000));
+
+const dbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-test-'));
+process.env.DB_PATH = path.join(dbDir, 'cache.db');
+const { getComments, loadAKSIssues, loadRoadmapItems, saveAKSIssues, saveRoadmapItems } = await import('../server/store.js');
+
+let server: ChildProcess;
+let baseUrl: string;
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer().listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+    probe.on('error', reject);
+  });
+}
+
+function payload(name: string): string {
+  return fs.readFileSync(path.join(PAYLOADS_DIR, `${name}.json`), 'utf8');
+}
+
+async function deliver(event: string, body: string, signature: string | null = signPayload(SECRET, body)) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', 'X-GitHub-Event': event, 'X-GitHub-Delivery': 'test' };
+  if (signature) headers['X-Hub-Signature-256'] = signature;
+  const response = await fetch(`${baseUrl}/api/webhooks/github`, { method: 'POST', headers, body });
+  return { status: response.status, body: await response.json() };
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 20000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the server');
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+}
+
+const aksIssue = (id: string) => loadAKSIssues(SOURCE.id, { ids: [id] })[0] as AKSIssue | undefined;
+const roadmapItem = (id: string) => loadRoadmapItems(SOURCE.id, { ids: [id] })[0] as RoadmapItem | undefined;
+
+function seed() {
+  const base = {
+    body: '',
+    createdAt: '2025-05-01T09:00:00Z',
+    updatedAt: '2025-05-01T09:00:00Z',
+    state: 'OPEN',
+    labels: [{ name: 'bug', color: 'd73a4a' }],
+    assignees: [{ login: 'hubot', name: 'Hubot', avatarUrl: 'https://avatars.githubusercontent.com/u/2' }]
+  };
+  saveAKSIssues(SOURCE.id, [{
+    ...base,
+    id: 'I_1',
+    title: 'Node pools fail to scale',
+    url: 'https://github.com/octo-org/widgets/issues/1',
+    comments: 1,
+    lastComment: null,
+    needsResponse: false,
+    aiSummary: null
+  }], new Map([['I_1', {
+    comments: [{ id: 'IC_1', createdAt: '2025-05-01T10:00:00Z', body: 'First report.', author: { login: 'octocat', name: null }, url: 'https://github.com', reactions: {} }]
+  }]]), { syncedAt: '2025-06-01T00:00:00Z' });
+
+  const boardItem = (id: string, type: RoadmapItem['type'], title: string): RoadmapItem => ({
+    ...base,
+    id,
+    type,
+    title,
+    url: `https://github.com/octo-org/widgets/issues/${id}`,
+    lastEditedAt: null,
+    status: 'In Progress',
+    extractedDate: null
+  });
+  saveRoadmapItems(SOURCE.id, [
+    boardItem('PR_7', 'PULL_REQUEST', 'Raise the node pool scaling timeout'),
+    boardItem('I_3', 'ISSUE', 'Faster node pool scaling')
+  ], new Map(), { syncedAt: '2025-06-01T00:00:00Z' });
+}
+
+before(async () => {
+  seed();
+  const port = await freePort();
+  baseUrl = `http://127.0.0.1:${port}`;
+
+  let output = '';
+  server = spawn(process.execPath, ['--import', 'tsx', 'server/index.ts'], {
+    cwd: ROOT,
+    env: {
+      ...process.env,
+      PORT: String(port),
+      GITHUB_WEBHOOK_SECRET: SECRET,
+      CLOSED_ISSUES_DAYS: String(CLOSED_ISSUES_DAYS),
+      SOURCES: JSON.stringify([SOURCE]),
+      ROADMAP_REFRESH_MINUTES: '0',
+      ISSUES_REFRESH_MINUTES: '0'
+    },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+  server.stdout!.on('data', chunk => output += chunk);
+  server.stderr!.on('data', chunk => output += chunk);
+  await waitFor(() => output.includes('Server running') || server.exitCode !== null, 60000);
+  assert.equal(server.exitCode, null, output);
+});
+
+after(() => {
+  server?.kill();
+  fs.rmSync(dbDir, { recursive: true, force: true });
+});
+
+test('signatures are HMAC-SHA256 of the exact body', () => {
+  const body = Buffer.from('{"action":"opened"}');
+  const signature = signPayload(SECRET, body);
+
+  assert.match(signature, /^sha256=[0-9a-f]{64}$/);
+  assert.equal(verifySignature(SECRET, body, signature), true);
+  assert.equal(verifySignature(SECRET, Buffer.from('{"action":"closed"}'), signature), false);
+  assert.equal(verifySignature('another-secret', body, signature), false);
+  assert.equal(verifySignature(SECRET, body, undefined), false);
+  assert.equal(verifySignature(SECRET, body, 'sha256=short'), false);
+});
+
+test('deliveries without a valid signature are rejected', async () => {
+  const body = payload('issues.edited');
+
+  assert.equal((await deliver('issues', body, null)).status, 401);
+  assert.equal((await deliver('issues', body, signPayload('another-secret', body))).status, 401);
+  assert.equal(aksIssue('I_1')?.title, 'Node pools fail to scale');
+});
+
+test('ping and unsubscribed events are acknowledged without changes', async () => {
+  assert.deepEqual(await deliver('ping', '{"zen":"Keep it logically awesome."}'), { status: 200, body: { ok: true } });
+  assert.deepEqual(await deliver('star', '{"action":"created"}'), { status: 202, body: { event: 'star', ignored: true } });
+});
+
+test('issues.edited updates the stored issue', async () => {
+  const response = await deliver('issues', payload('issues.edited'));
+
+  assert.deepEqual(response, { status: 202, body: { event: 'issues', action: 'edited', affected: 1 } });
+  const issue = aksIssue('I_1')!;
+  assert.equal(issue.title, 'Node pools fail to scale past 10 nodes');
+  assert.deepEqual(issue.reactions, { THUMBS_UP: 2, HEART: 1 });
+  // Display names only come from GitHub's API, so the stored one is kept
+  assert.deepEqual(issue.assignees.map(assignee => assignee.name), ['Hubot']);
+});
+
+test('issue_comment.created and deleted add and remove the comment', async () => {
+  assert.equal((await deliver('issue_comment', payload('issue_comment.created'))).body.affected, 1);
+  assert.deepEqual(getComments(SOURCE.id, 'I_1').map(comment => comment.id), ['IC_1', 'IC_2']);
+  assert.deepEqual(getComments(SOURCE.id, 'I_1')[1].reactions, { ROCKET: 1 });
+
+  assert.equal((await deliver('issue_comment', payload('issue_comment.deleted'))).body.affected, 1);
+  assert.deepEqual(getComments(SOURCE.id, 'I_1').map(comment => comment.id), ['IC_2']);
+});
+
+test('issue_comment on a pull request updates it when it is on the board', async () => {
+  assert.equal((await deliver('issue_comment', payload('issue_comment.created.pull_request'))).body.affected, 1);
+
+  assert.deepEqual(getComments(SOURCE.id, 'PR_7').map(comment => comment.body), ['Rolling this out in Q3 2025.']);
+  assert.equal(roadmapItem('PR_7')?.type, 'PULL_REQUEST');
+  assert.equal(aksIssue('PR_7'), undefined);
+});
+
+test('issues.opened adds a new repository issue', async () => {
+  assert.equal((await deliver('issues', payload('issues.opened'))).body.affected, 1);
+  assert.equal(aksIssue('I_2')?.title, 'Upgrade stalls on Windows node pools');
+});
+
+test('label.edited renames the label on stored issues', async () => {
+  // The seeded issue and both board items carry the label
+  assert.equal((await deliver('label', payload('label.edited'))).body.affected, 3);
+  assert.deepEqual(aksIssue('I_1')?.labels, [{ name: 'defect', color: 'b60205' }]);
+  assert.deepEqual(roadmapItem('I_3')?.labels, [{ name: 'defect', color: 'b60205' }]);
+});
+
+test('issues.closed keeps the close reason', async () => {
+  await deliver('issues', payload('issues.closed'));
+  const issue = aksIssue('I_1')!;
+  assert.equal(issue.state, 'CLOSED');
+  assert.equal(issue.closeReason, 'NOT_PLANNED');
+});
+
+test('issues closed before the closed-issue window are dropped, as a refresh would', async () => {
+  const closed = JSON.parse(payload('issues.opened'));
+  closed.action = 'closed';
+  Object.assign(closed.issue, { state: 'closed', state_reason: 'completed', closed_at: '2025-04-01T10:00:00Z' });
+
+  assert.equal((await deliver('issues', JSON.stringify(closed))).body.affected, 1);
+  assert.equal(aksIssue('I_2'), undefined);
+  // Not added back by a later delivery either
+  assert.equal((await deliver('issues', JSON.stringify({ ...closed, action: 'edited' }))).body.affected, 0);
+  assert.equal(aksIssue('I_2'), undefined);
+});
+
+test('issues.deleted removes the issue', async () => {
+  assert.equal((await deliver('issues', payload('issues.deleted'))).body.affected, 1);
+  assert.equal(aksIssue('I_1'), undefined);
+});
+
+test('projects_v2_item.deleted removes the item from the board once the queued job runs', async () => {
+  assert.equal((await deliver('projects_v2_item', payload('projects_v2_item.deleted'))).body.affected, 1);
+  await waitFor(() => !roadmapItem('I_3'));
+  assert.ok(roadmapItem('PR_7'));
+});